@@ -1,33 +1,208 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import inquirer from 'inquirer';
-import { PRESET_SKINS } from './engine/skins.js';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import { generateWezTermLua } from './engine/adapters/wezterm/index.js';
-import { generateAlacrittyYaml } from './engine/adapters/alacritty/index.js';
-import { generateKittyConfig } from './engine/adapters/kitty/index.js';
-import { generateWindowsTerminalJson } from './engine/adapters/windows-terminal/index.js';
+import { activeEffects, createSkin } from './engine/skins.js';
+import type { SkinConfig } from './engine/skins.js';
+import { detectSkinFormat, listSkinEntries, loadSkinFile, readSkinFile, resolveSkin, resolveSkinData, serializeSkin, SkinLoadError } from './engine/loader.js';
+import type { SkinFileFormat } from './engine/loader.js';
+import { validateSkin } from './engine/validation.js';
+import { matchesSkinQuery, skinAppearance, skinTags } from './engine/catalog.js';
+import { auditSkin, fixSkinContrast } from './engine/audit.js';
+import { findCollapsedSlots, isVisionDeficiency, simulateColorScheme, VISION_DEFICIENCIES } from './engine/vision.js';
+import type { VisionDeficiency } from './engine/vision.js';
+import { resolvePalette } from './engine/palette.js';
+import { APPEARANCES, resolveVariant } from './engine/variants.js';
+import { detectColorDepth, renderSkinPreview, sideBySide } from './engine/preview.js';
+import { renderHtmlPreview } from './engine/html.js';
+import { ANIMATION_FORMATS, animationFps, renderSkinAnimation, renderSkinThumbnail } from './engine/raster/index.js';
+import type { AnimationFormat } from './engine/raster/index.js';
+import type { Appearance } from './engine/variants.js';
+import type { AuditResult } from './engine/audit.js';
+import type { SkinQuery } from './engine/catalog.js';
+import type { ValidationResult } from './engine/validation.js';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { createRequire } from 'module';
+import { dirname, join, resolve } from 'path';
+import { getAdapter, listAdapters, registerAdapter } from './engine/adapters/index.js';
+import type { TerminalAdapter } from './engine/adapters/index.js';
+import { registerEffect } from './engine/effects/index.js';
 import fs from 'fs';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const program = new Command();
 
-const VALID_TERMINALS = ['wezterm', 'alacritty', 'kitty', 'windows-terminal'];
+/** Resolve a skin from a name/path argument or --skin-file, exiting on failure */
+function loadSkinOrExit(skinName: string | undefined, skinFile?: string): SkinConfig {
+  try {
+    if (skinFile) return loadSkinFile(skinFile);
+    if (!skinName) throw new SkinLoadError('Missing skin: pass a skin name or --skin-file <path>');
+    return resolveSkin(skinName);
+  } catch (error) {
+    if (!(error instanceof SkinLoadError)) throw error;
+    console.error(`❌ ${error.message}`);
+    console.log(`   Available: ${listSkinEntries().map(e => e.key).join(', ')}`);
+    process.exit(1);
+  }
+}
+
+/** Pick the skin's light or dark variant for --appearance, exiting on an invalid mode */
+function applyAppearance(skin: SkinConfig, appearance: string | undefined): SkinConfig {
+  if (appearance === undefined) return skin;
+  if (!APPEARANCES.includes(appearance as Appearance)) {
+    console.error(`❌ Unknown appearance: ${appearance}`);
+    console.log(`   Valid options: ${APPEARANCES.join(', ')}`);
+    process.exit(1);
+  }
+  return resolveVariant(skin, appearance as Appearance);
+}
+
+/** Warn about palette slots that look alike under a color-vision deficiency */
+function printCollapsedSlots(skin: SkinConfig, type: VisionDeficiency, indent = '   '): void {
+  const collapsed = findCollapsedSlots(skin.colors, type);
+  if (collapsed.length === 0) {
+    console.log(`${indent}✅ All palette slots stay distinguishable with ${type}`);
+    return;
+  }
+  for (const { slots, colors, after } of collapsed) {
+    console.log(`${indent}⚠️  ${slots[0]} and ${slots[1]} look alike with ${type} (${colors[0]} vs ${colors[1]}, ΔE ${after.toFixed(3)})`);
+  }
+}
+
+/** Read the render engine's browser bundle, built next to the CLI */
+function readEngineBundle(): string {
+  const bundlePath = join(__dirname, 'engine', 'engine.browser.js');
+  if (!fs.existsSync(bundlePath)) {
+    console.error(`❌ Render engine bundle not found: ${bundlePath}`);
+    console.log('   Run the build first (npm run build)');
+    process.exit(1);
+  }
+  return fs.readFileSync(bundlePath, 'utf-8');
+}
+
+/** Collect adapter options from command-line flags, leaving out unset ones */
+function adapterOptions(options: { legacyYaml?: boolean; profile?: string[]; default?: boolean; shader?: string }): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (options.legacyYaml) result.legacyYaml = true;
+  if (options.shader) result.shaderPath = resolve(options.shader);
+  if (options.profile) result.profiles = options.profile;
+  if (options.default === false) result.applyToDefaults = false;
+  return result;
+}
+
+/** Exit with an error if --shader was given for a terminal without shader support */
+function checkShaderSupport(adapter: TerminalAdapter, shader: string | undefined): void {
+  if (shader && !(adapter.capabilities.shaders && adapter.generateShader)) {
+    console.error(`❌ ${adapter.displayName} does not support shaders`);
+    process.exit(1);
+  }
+}
+
+/** Write the skin's shader to the --shader file, if one was given; `quiet` keeps stdout for the config */
+function writeShader(adapter: TerminalAdapter, skin: SkinConfig, shader: string | undefined, quiet = false): void {
+  if (!shader) return;
+  const source = adapter.generateShader?.(skin) ?? null;
+  if (source === null) {
+    if (!quiet) console.log(`⚠️  "${skin.name}" has no shader effects; ${shader} was not written`);
+    return;
+  }
+  fs.writeFileSync(resolve(shader), source);
+  if (!quiet) console.log(`✅ Shader written to ${resolve(shader)}`);
+}
+
+/** Look up a registered terminal adapter, exiting with an error if there is none */
+function getAdapterOrExit(terminal: string): TerminalAdapter {
+  const adapter = getAdapter(terminal);
+  if (!adapter) {
+    console.error(`❌ Invalid terminal: ${terminal}`);
+    console.log(`   Valid options: ${terminalIds().join(', ')}`);
+    process.exit(1);
+  }
+  return adapter;
+}
+
+/** Ids of all registered terminal adapters */
+function terminalIds(): string[] {
+  return listAdapters().map(adapter => adapter.id);
+}
+
+/**
+ * Import plugins named by --plugin or RETRO_SKINS_PLUGINS (comma-separated). A plugin
+ * registers adapters and effects when imported, or exports a register({ registerAdapter, registerEffect }) function.
+ */
+async function loadPlugins(argv: string[]): Promise<void> {
+  const specifiers = (process.env.RETRO_SKINS_PLUGINS ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  argv.forEach((arg, i) => {
+    if (arg.startsWith('--plugin=')) specifiers.push(arg.slice('--plugin='.length));
+    else if (arg === '--plugin' && argv[i + 1]) specifiers.push(argv[i + 1]);
+  });
+
+  const requireFromCwd = createRequire(join(process.cwd(), 'package.json'));
+  for (const specifier of specifiers) {
+    try {
+      const url = specifier.startsWith('.') || specifier.startsWith('/')
+        ? pathToFileURL(resolve(specifier)).href
+        : pathToFileURL(requireFromCwd.resolve(specifier)).href;
+      const plugin = await import(url);
+      const register = plugin.register ?? plugin.default?.register ?? plugin.default;
+      if (typeof register === 'function') await register({ registerAdapter, registerEffect });
+    } catch (error) {
+      console.error(`❌ Failed to load plugin ${specifier}: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+}
+
+// Plugins must be registered before the commands list the available terminals
+await loadPlugins(process.argv.slice(2));
 
 program
   .name('retro-skins')
   .description('Generate retro terminal skins with CRT effects')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--plugin <module>', 'Load a terminal adapter plugin (repeatable; also RETRO_SKINS_PLUGINS)');
 
 program
   .command('list')
   .description('List all available retro skins')
-  .action(() => {
+  .option('--tag <tag>', 'Only skins with this tag (e.g. monochrome, neon, light)')
+  .option('--search <text>', 'Only skins whose name, description, author, era or tags contain the text')
+  .option('--json', 'Print the skins and their metadata as JSON')
+  .action((options) => {
+    const query: SkinQuery = { tag: options.tag, search: options.search };
+    const filtering = Boolean(query.tag || query.search);
+    const rows = listSkinEntries().map(entry => {
+      try {
+        return { entry, skin: entry.load() };
+      } catch (error) {
+        return { entry, error: (error as Error).message };
+      }
+    }).filter(row => row.skin ? matchesSkinQuery(row.skin, query, row.entry.key) : !filtering);
+
+    if (options.json) {
+      console.log(JSON.stringify(rows.map(({ entry, skin, error }) => skin
+        ? {
+            key: entry.key,
+            source: entry.source,
+            name: skin.name,
+            description: skin.metadata?.description ?? null,
+            author: skin.metadata?.author ?? null,
+            era: skin.metadata?.era ?? null,
+            tags: skinTags(skin),
+            appearance: skinAppearance(skin),
+          }
+        : { key: entry.key, source: entry.source, error }), null, 2));
+      return;
+    }
+
     console.log('\n🎨 Available Skins:\n');
-    Object.entries(PRESET_SKINS).forEach(([name, skinFn]) => {
-      const skin = skinFn();
-      console.log(`  • ${name.padEnd(10)} ${skin.name}`);
+    if (rows.length === 0) console.log('  (no skins match)');
+    rows.forEach(({ entry, skin, error }) => {
+      if (!skin) {
+        console.log(`  ✗ ${entry.key.padEnd(10)} ${error}`);
+        return;
+      }
+      const description = skin.metadata?.description ? `${skin.metadata.description} ` : '';
+      console.log(`  • ${entry.key.padEnd(10)} ${skin.name.padEnd(20)} ${description}[${skinTags(skin).join(', ')}] ${entry.source}`);
     });
     console.log('\n📝 Use: retro-skins preview <skin-name>');
     console.log('');
@@ -36,45 +211,87 @@ program
 program
   .command('preview [skin]')
   .description('Preview a skin configuration (shows all if no name given)')
-  .option('-t, --terminal <type>', 'Preview for specific terminal (wezterm, alacritty, kitty, windows-terminal)')
+  .option('-t, --terminal <type>', `Preview for specific terminal (${terminalIds().join(', ')})`)
+  .option('--skin-file <path>', 'Load the skin from a JSON, YAML or TOML file')
   .option('--dry-run', 'Preview without generating output')
+  .option('--appearance <mode>', 'Use the skin\'s light or dark variant instead of switching with the system')
+  .option('--simulate <type>', `Show the colors as seen with a color-vision deficiency (${VISION_DEFICIENCIES.join(', ')})`)
+  .option('--compare <skin>', 'Draw a second skin\'s sample screen next to this one')
+  .option('--no-color', 'Print the sample screen without color escapes')
+  .option('--html <file>', 'Write a self-contained HTML page showing the effects live (a gallery if no skin is given)')
   .action((skinName, options) => {
-    if (skinName) {
-      // Preview specific skin
-      const skinFn = PRESET_SKINS[skinName];
-      if (!skinFn) {
-        console.error(`❌ Unknown skin: ${skinName}`);
-        console.log(`   Available: ${Object.keys(PRESET_SKINS).join(', ')}`);
+    let simulate: VisionDeficiency | undefined;
+    if (options.simulate !== undefined) {
+      if (!isVisionDeficiency(options.simulate)) {
+        console.error(`❌ Unknown color-vision deficiency: ${options.simulate}`);
+        console.log(`   Valid options: ${VISION_DEFICIENCIES.join(', ')}`);
         process.exit(1);
       }
-      const skin = skinFn();
-      console.log(`\n🎨 ${skin.name} (${skinName})`);
+      simulate = options.simulate;
+    }
+
+    const seen = (base: SkinConfig): SkinConfig => simulate ? { ...base, colors: simulateColorScheme(base.colors, simulate) } : base;
+
+    if (options.html) {
+      const skins = skinName || options.skinFile
+        ? [loadSkinOrExit(skinName, options.skinFile)]
+        : listSkinEntries().map(entry => loadSkinOrExit(entry.key));
+      const outputPath = resolve(options.html);
+      fs.writeFileSync(outputPath, renderHtmlPreview(
+        skins.map(skin => seen(applyAppearance(skin, options.appearance))),
+        { engineScript: readEngineBundle() },
+      ));
+      console.log(`✅ HTML preview of ${skins.length === 1 ? skins[0].name : `${skins.length} skins`} written to ${outputPath}`);
+      return;
+    }
+
+    if (skinName || options.skinFile) {
+      // Preview specific skin
+      const original = applyAppearance(loadSkinOrExit(skinName, options.skinFile), options.appearance);
+      const skin = seen(original);
+      const shown = (key: 'background' | 'foreground' | 'accent' | 'glow') =>
+        simulate ? `${original.colors[key]} → ${skin.colors[key]}` : skin.colors[key];
+      console.log(`\n🎨 ${skin.name} (${skinName ?? options.skinFile})${simulate ? ` as seen with ${simulate}` : ''}`);
       console.log('   Colors:');
-      console.log(`     Background: ${skin.colors.background}`);
-      console.log(`     Foreground: ${skin.colors.foreground}`);
-      console.log(`     Accent:     ${skin.colors.accent}`);
-      console.log(`     Glow:       ${skin.colors.glow}`);
-      console.log(`   Effects: ${skin.effects.map(e => e.type).join(', ')}`);
+      console.log(`     Background: ${shown('background')}`);
+      console.log(`     Foreground: ${shown('foreground')}`);
+      console.log(`     Accent:     ${shown('accent')}`);
+      console.log(`     Glow:       ${shown('glow')}`);
+      if (simulate) {
+        const before = resolvePalette(original.colors);
+        console.log('   Palette:');
+        for (const [slot, color] of Object.entries(skin.colors.palette!)) {
+          console.log(`     ${slot.padEnd(14)}${before[slot as keyof typeof before]} → ${color}`);
+        }
+        printCollapsedSlots(original, simulate);
+      }
+      console.log(`   Effects: ${activeEffects(skin).map(e => e.type).join(', ')}`);
+
+      const depth = options.color === false ? 'none' : detectColorDepth(process.env, Boolean(process.stdout.isTTY));
+      const screens = [renderSkinPreview(skin, { depth })];
+      if (options.compare) {
+        screens.push(renderSkinPreview(seen(applyAppearance(loadSkinOrExit(options.compare), options.appearance)), { depth }));
+      }
+      console.log('');
+      for (const line of sideBySide(screens)) console.log(`   ${line}`);
+
       if (options.terminal) {
-        console.log(`\n📄 ${options.terminal.toUpperCase()} Preview:`);
+        const adapter = getAdapterOrExit(options.terminal);
+        console.log(`\n📄 ${adapter.id.toUpperCase()} Preview:`);
         console.log('─'.repeat(40));
-        const terminal = options.terminal.toLowerCase();
-        let config: string;
-        if (terminal === 'wezterm') config = generateWezTermLua(skin);
-        else if (terminal === 'alacritty') config = generateAlacrittyYaml(skin);
-        else if (terminal === 'windows-terminal') config = generateWindowsTerminalJson(skin);
-        else config = generateKittyConfig(skin);
-        console.log(config);
+        console.log(adapter.generate(skin));
       }
     } else {
       // List all skins with details
-      console.log('\n🎨 All Skins Preview:\n');
-      Object.entries(PRESET_SKINS).forEach(([name, skinFn]) => {
-        const skin = skinFn();
-        console.log(`  ${name}:`);
+      console.log(`\n🎨 All Skins Preview${simulate ? ` (${simulate})` : ''}:\n`);
+      listSkinEntries().forEach(entry => {
+        const skin = applyAppearance(loadSkinOrExit(entry.key), options.appearance);
+        const colors = simulate ? simulateColorScheme(skin.colors, simulate) : skin.colors;
+        console.log(`  ${entry.key}:`);
         console.log(`    Name:      ${skin.name}`);
-        console.log(`    Colors:    ${skin.colors.background} → ${skin.colors.foreground}`);
-        console.log(`    Effects:   ${skin.effects.length} active`);
+        console.log(`    Colors:    ${colors.background} → ${colors.foreground}`);
+        console.log(`    Effects:   ${activeEffects(skin).length} active`);
+        if (simulate) printCollapsedSlots(skin, simulate, '    ');
       });
     }
     console.log('');
@@ -84,42 +301,53 @@ program
   .command('apply <terminal>')
   .description('Interactive: apply a skin to your terminal')
   .option('-o, --output <file>', 'Output file path (stdout if not specified)')
+  .option('-s, --skin <name>', 'Skin to apply instead of prompting')
+  .option('--skin-file <path>', 'Load the skin from a JSON, YAML or TOML file instead of prompting')
+  .option('--install', 'Write the config to the terminal\'s config path, backing up the previous file')
+  .option('--legacy-yaml', 'Alacritty: generate the pre-0.13 YAML format')
+  .option('--profile <names...>', 'Windows Terminal: profiles (name or GUID) that should use the scheme')
+  .option('--no-default', 'Windows Terminal: do not make the scheme the default for all profiles')
+  .option('--shader <file>', 'Write the skin\'s CRT shader to this file and load it from there (terminals with shaders)')
+  .option('--appearance <mode>', 'Use the skin\'s light or dark variant instead of switching with the system')
   .action(async (terminal, options) => {
-    if (!VALID_TERMINALS.includes(terminal.toLowerCase())) {
-      console.error(`❌ Invalid terminal: ${terminal}`);
-      console.log(`   Valid options: ${VALID_TERMINALS.join(', ')}`);
-      process.exit(1);
-    }
-
-    const skinNames = Object.keys(PRESET_SKINS);
-    const answers = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'skin',
-        message: 'Choose a skin:',
-        choices: skinNames,
-      },
-    ]);
+    const adapter = getAdapterOrExit(terminal);
+    checkShaderSupport(adapter, options.shader);
 
-    const selectedSkinFn = PRESET_SKINS[answers.skin];
-    const skinConfig = selectedSkinFn();
-    const terminalType = terminal.toLowerCase();
-    
-    let config: string;
-    
-    if (terminalType === 'wezterm') {
-      config = generateWezTermLua(skinConfig);
-      config = `// WezTerm config - copy to ~/.config/wezterm/retro_skin.lua\n\n${config}`;
-    } else if (terminalType === 'alacritty') {
-      config = generateAlacrittyYaml(skinConfig);
-      config = `# Alacritty config - copy to ~/.config/alacritty/retro_skin.yml\n\n${config}`;
-    } else if (terminalType === 'windows-terminal') {
-      config = generateWindowsTerminalJson(skinConfig);
-      config = `// Windows Terminal config - add scheme to settings.json\n\n${config}`;
+    let skinConfig: SkinConfig;
+    if (options.skinFile || options.skin) {
+      skinConfig = loadSkinOrExit(options.skin, options.skinFile);
     } else {
-      config = generateKittyConfig(skinConfig);
-      config = `# Kitty config - copy to ~/.config/kitty/retro_skin.conf\n\n${config}`;
+      const skinNames = listSkinEntries().map(e => e.key);
+      const answers = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'skin',
+          message: 'Choose a skin:',
+          choices: skinNames,
+        },
+      ]);
+      skinConfig = loadSkinOrExit(answers.skin);
+    }
+    skinConfig = applyAppearance(skinConfig, options.appearance);
+
+    if (options.install) {
+      try {
+        const result = adapter.install(skinConfig, adapterOptions(options));
+        console.log(`✅ Installed "${skinConfig.name}" to ${result.path}`);
+        if (result.backupPath) console.log(`   Backup: ${result.backupPath}`);
+        console.log(`   Undo with: retro-skins restore ${adapter.id}`);
+      } catch (error) {
+        console.error(`❌ Install failed: ${(error as Error).message}`);
+        process.exit(1);
+      }
+      return;
     }
+    
+    // Printed configs are includable fragments where the terminal supports them
+    const generateOptions = { ...adapterOptions(options), fragment: true };
+    const header = adapter.comment(`${adapter.displayName} config - ${adapter.describeInstall(generateOptions)}`);
+    const config = `${header}\n\n${adapter.generate(skinConfig, generateOptions)}`;
+    writeShader(adapter, skinConfig, options.shader);
 
     if (options.output) {
       const outputPath = join(process.cwd(), options.output);
@@ -132,40 +360,47 @@ program
   });
 
 program
-  .command('generate <terminal> <skin>')
+  .command('generate <terminal> [skin]')
   .description('Generate terminal config for a skin (non-interactive)')
   .option('-o, --output <file>', 'Output file path (stdout if not specified)')
+  .option('--skin-file <path>', 'Load the skin from a JSON, YAML or TOML file')
+  .option('--legacy-yaml', 'Alacritty: generate the pre-0.13 YAML format')
+  .option('--merge <file>', 'Merge the skin into an existing config (Windows Terminal settings.json, Alacritty alacritty.yml)')
+  .option('--migrate <file>', 'Alacritty: convert an existing alacritty.yml to TOML with the skin merged in (same as --merge)')
+  .option('--profile <names...>', 'Windows Terminal: profiles (name or GUID) that should use the scheme')
+  .option('--no-default', 'Windows Terminal: do not make the scheme the default for all profiles')
+  .option('--shader <file>', 'Write the skin\'s CRT shader to this file and load it from there (terminals with shaders)')
+  .option('--appearance <mode>', 'Use the skin\'s light or dark variant instead of switching with the system')
   .option('--dry-run', 'Preview without writing files')
   .action((terminal, skinName, options) => {
-    if (!VALID_TERMINALS.includes(terminal.toLowerCase())) {
-      console.error(`❌ Invalid terminal: ${terminal}`);
-      console.log(`   Valid options: ${VALID_TERMINALS.join(', ')}`);
-      process.exit(1);
-    }
+    const adapter = getAdapterOrExit(terminal);
+    checkShaderSupport(adapter, options.shader);
+    const skinConfig = applyAppearance(loadSkinOrExit(skinName, options.skinFile), options.appearance);
+    const generateOptions: Record<string, unknown> = adapterOptions(options);
 
-    const skinFn = PRESET_SKINS[skinName];
-    if (!skinFn) {
-      console.error(`❌ Unknown skin: ${skinName}`);
-      console.log(`   Available: ${Object.keys(PRESET_SKINS).join(', ')}`);
-      process.exit(1);
+    const existingPath: string | undefined = options.merge ?? options.migrate;
+    if (existingPath) {
+      if (!adapter.capabilities.mergesExistingConfig) {
+        console.error(`❌ ${adapter.displayName} configs cannot be merged into an existing file`);
+        process.exit(1);
+      }
+      if (!fs.existsSync(existingPath)) {
+        console.error(`❌ Cannot read existing config: ${existingPath}`);
+        process.exit(1);
+      }
+      generateOptions.existingConfig = fs.readFileSync(existingPath, 'utf-8');
     }
 
-    const skinConfig = skinFn();
-    const terminalType = terminal.toLowerCase();
-    
     let config: string;
-    if (terminalType === 'wezterm') {
-      config = generateWezTermLua(skinConfig);
-    } else if (terminalType === 'alacritty') {
-      config = generateAlacrittyYaml(skinConfig);
-    } else if (terminalType === 'windows-terminal') {
-      config = generateWindowsTerminalJson(skinConfig);
-    } else {
-      config = generateKittyConfig(skinConfig);
+    try {
+      config = adapter.generate(skinConfig, generateOptions);
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`);
+      process.exit(1);
     }
     
     if (options.dryRun) {
-      console.log(`\n🔍 Dry Run - ${terminal.toUpperCase()} config for "${skinConfig.name}":\n`);
+      console.log(`\n🔍 Dry Run - ${adapter.id.toUpperCase()} config for "${skinConfig.name}":\n`);
       console.log(config);
       console.log('\n✅ Would output to: ' + (options.output || 'stdout'));
     } else if (options.output) {
@@ -174,11 +409,245 @@ program
         : join(process.cwd(), options.output);
       fs.writeFileSync(outputPath, config);
       console.log(`✅ Config written to ${outputPath}`);
+      writeShader(adapter, skinConfig, options.shader);
     } else {
       console.log(config);
+      writeShader(adapter, skinConfig, options.shader, true);
     }
   });
 
+program
+  .command('restore <terminal>')
+  .description('Roll a terminal config back to the backup made by the last install')
+  .option('--legacy-yaml', 'Alacritty: restore retro_skin.yml instead of retro_skin.toml')
+  .action((terminal, options) => {
+    const adapter = getAdapterOrExit(terminal);
+    const restoreOptions = adapterOptions(options);
+    try {
+      const restored = adapter.restore(restoreOptions);
+      if (restored.length === 0) {
+        console.error(`❌ No backup found for ${adapter.getConfigPath(restoreOptions)}`);
+        process.exit(1);
+      }
+      for (const { path, backupPath } of restored) {
+        console.log(`✅ Restored ${path} from ${backupPath}`);
+      }
+    } catch (error) {
+      console.error(`❌ Restore failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('validate <skins...>')
+  .description('Validate skins by name or file path (exit code 1 on errors, 2 if a skin cannot be loaded)')
+  .option('--strict', 'Treat warnings as errors')
+  .option('--json', 'Print diagnostics as JSON')
+  .action((targets: string[], options) => {
+    const results: Array<{ skin: string } & (ValidationResult | { error: string })> = targets.map(target => {
+      try {
+        return { skin: target, ...validateSkin(readSkinForValidation(target)) };
+      } catch (error) {
+        if (!(error instanceof SkinLoadError)) throw error;
+        return { skin: target, error: error.message };
+      }
+    });
+
+    let exitCode = 0;
+    for (const result of results) {
+      if ('error' in result) {
+        exitCode = 2;
+      } else if (!result.valid || (options.strict && result.diagnostics.length > 0)) {
+        exitCode = Math.max(exitCode, 1);
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+      process.exit(exitCode);
+    }
+
+    for (const result of results) {
+      if ('error' in result) {
+        console.error(`❌ ${result.skin}: ${result.error}`);
+        continue;
+      }
+      const errors = result.diagnostics.filter(d => d.severity === 'error').length;
+      const warnings = result.diagnostics.length - errors;
+      if (result.diagnostics.length === 0) {
+        console.log(`✅ ${result.skin}: valid`);
+      } else {
+        const icon = errors > 0 || options.strict ? '❌' : '⚠️ ';
+        console.log(`${icon} ${result.skin}: ${errors} error(s), ${warnings} warning(s)`);
+      }
+      for (const d of result.diagnostics) {
+        console.log(`   ${d.severity.padEnd(8)} ${(d.path || '<root>').padEnd(28)} ${d.message}`);
+        if (d.fix) console.log(`   ${''.padEnd(8)} ${''.padEnd(28)} → ${d.fix}`);
+      }
+    }
+    process.exit(exitCode);
+  });
+
+program
+  .command('resolve [skin]')
+  .description('Print a skin with everything it extends merged in')
+  .option('--skin-file <path>', 'Load the skin from a JSON, YAML or TOML file')
+  .option('-f, --format <format>', 'Output format (json, yaml, toml)', 'json')
+  .action((skinName, options) => {
+    const formats: SkinFileFormat[] = ['json', 'yaml', 'toml'];
+    if (!formats.includes(options.format)) {
+      console.error(`❌ Unknown format: ${options.format}`);
+      console.log(`   Valid options: ${formats.join(', ')}`);
+      process.exit(1);
+    }
+    const skin = loadSkinOrExit(skinName, options.skinFile);
+    process.stdout.write(serializeSkin(skin, options.format));
+  });
+
+program
+  .command('audit [skin]')
+  .description('Check WCAG 2 and APCA contrast of a skin\'s colors (exit code 1 on errors)')
+  .option('--skin-file <path>', 'Load the skin from a JSON, YAML or TOML file')
+  .option('--fix', 'Adjust lightness (keeping hue) until the colors reach the targets')
+  .option('--out <file>', 'With --fix: write the fixed skin (.json, .yaml or .toml)')
+  .option('--min-contrast <ratio>', 'WCAG 2 contrast ratio body text should reach', parseFloat, 4.5)
+  .option('--min-lc <lc>', 'APCA Lc body text should reach', parseFloat, 60)
+  .option('--json', 'Print the audit as JSON')
+  .action((skinName, options) => {
+    const skin = loadSkinOrExit(skinName, options.skinFile);
+    const auditOptions = { text: { wcag: options.minContrast, apca: options.minLc } };
+
+    if (options.out && !options.fix) {
+      console.error('❌ --out requires --fix');
+      process.exit(1);
+    }
+    const outFormat = options.out ? detectSkinFormat(options.out) : null;
+    if (options.out && !outFormat) {
+      console.error('❌ Unsupported output extension (use .json, .yaml, .yml or .toml)');
+      process.exit(1);
+    }
+
+    const before = auditSkin(skin, auditOptions);
+    const fixed = options.fix ? fixSkinContrast(skin, auditOptions) : null;
+    const after = fixed ? auditSkin(fixed.skin, auditOptions) : before;
+
+    if (options.json) {
+      console.log(JSON.stringify({ skin: skin.name, ...before, ...(fixed && { fixes: fixed.fixes, fixed: after }) }, null, 2));
+    } else {
+      console.log(`\n🔍 Contrast audit: ${skin.name}\n`);
+      printAudit(before);
+      if (fixed) {
+        console.log(`\n🔧 ${fixed.fixes.length} color(s) adjusted:`);
+        for (const f of fixed.fixes) console.log(`   ${f.path.padEnd(28)} ${f.from} → ${f.to}`);
+        console.log('\n🔍 After fixing:\n');
+        printAudit(after);
+      }
+    }
+
+    if (fixed && outFormat) {
+      const outputPath = resolve(options.out);
+      fs.writeFileSync(outputPath, serializeSkin(fixed.skin, outFormat));
+      if (!options.json) console.log(`\n✅ Fixed skin written to ${outputPath}`);
+    } else if (fixed && !options.json) {
+      console.log('\n📄 Fixed skin:\n');
+      console.log(serializeSkin(fixed.skin, 'json'));
+    }
+    process.exit(after.passed ? 0 : 1);
+  });
+
+program
+  .command('snapshot [skin]')
+  .description('Render a PNG thumbnail, or an animated GIF/APNG, of a skin with its CRT effects (no browser needed)')
+  .requiredOption('-o, --output <file>', 'File to write (.png; with --animate .gif, .png or .apng)')
+  .option('--skin-file <path>', 'Load the skin from a JSON, YAML or TOML file')
+  .option('--appearance <mode>', 'Use the skin\'s light or dark variant')
+  .option('--seed <n>', 'Seed for random effects such as noise; the same seed gives the same file', parseFloat, 0)
+  .option('--scale <n>', 'Image pixels per font pixel', parseFloat, 2)
+  .option('--columns <n>', 'Width of the sample screen in columns', parseFloat, 48)
+  .option('--no-effects', 'Draw the colors only, without effects')
+  .option('--animate', 'Render the time-based effects (flicker, shake, animated background, persistence) as an animation')
+  .option('--duration <time>', 'With --animate: length, e.g. 3s or 1500ms', '3s')
+  .option('--fps <n>', 'With --animate: frame rate (default the skin\'s performance.targetFps)', parseFloat)
+  .action((skinName, options) => {
+    for (const flag of ['seed', 'scale', 'columns', 'fps'] as const) {
+      const value = options[flag];
+      if (value === undefined) continue;
+      if (!Number.isInteger(value) || value < (flag === 'seed' ? 0 : 1)) {
+        console.error(`❌ --${flag} must be a ${flag === 'seed' ? 'non-negative' : 'positive'} integer`);
+        process.exit(1);
+      }
+    }
+
+    const skin = applyAppearance(loadSkinOrExit(skinName, options.skinFile), options.appearance);
+    const renderOptions = {
+      seed: options.seed,
+      scale: options.scale,
+      columns: options.columns,
+      effects: options.effects,
+    };
+    const outputPath = resolve(options.output);
+
+    if (!options.animate) {
+      fs.writeFileSync(outputPath, renderSkinThumbnail(skin, renderOptions));
+      console.log(`✅ Snapshot of ${skin.name} written to ${outputPath}`);
+      return;
+    }
+
+    const duration = parseDuration(options.duration);
+    if (duration === null) {
+      console.error(`❌ Invalid duration: ${options.duration}`);
+      console.log('   Use seconds or milliseconds, e.g. 3s, 2.5s or 1500ms');
+      process.exit(1);
+    }
+    const extension = options.output.toLowerCase().split('.').pop();
+    const format: AnimationFormat | undefined = extension === 'gif' ? 'gif' : extension === 'png' || extension === 'apng' ? 'apng' : undefined;
+    if (!format) {
+      console.error('❌ Unsupported animation extension (use .gif, .png or .apng)');
+      console.log(`   Valid formats: ${ANIMATION_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+
+    const animationOptions = { ...renderOptions, duration, fps: options.fps };
+    const fps = animationFps(skin, format, animationOptions);
+    fs.writeFileSync(outputPath, renderSkinAnimation(skin, format, animationOptions));
+    console.log(`✅ ${duration}s animation of ${skin.name} (${fps} fps) written to ${outputPath}`);
+  });
+
+/** Parse a duration such as 3s, 2.5s, 1500ms or 3 (seconds) into seconds */
+function parseDuration(text: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)(ms|s)?$/.exec(text.trim());
+  if (!match) return null;
+  const seconds = match[2] === 'ms' ? Number(match[1]) / 1000 : Number(match[1]);
+  return seconds > 0 ? seconds : null;
+}
+
+/** Print contrast checks as a table */
+function printAudit(result: AuditResult): void {
+  console.log(`   ${''.padEnd(2)} ${'check'.padEnd(22)} ${'color'.padEnd(8)} ${'on'.padEnd(8)} ${'WCAG'.padStart(7)} ${'APCA'.padStart(7)}`);
+  for (const c of result.checks) {
+    const icon = c.severity === 'error' ? '❌' : c.severity === 'warning' ? '⚠️ ' : '✅';
+    const wcag = `${c.wcag.toFixed(2)}:1`;
+    const apca = `Lc ${Math.abs(c.apca).toFixed(0)}`;
+    console.log(`   ${icon} ${c.name.padEnd(22)} ${c.color.padEnd(8)} ${c.background.padEnd(8)} ${wcag.padStart(7)} ${apca.padStart(7)}`);
+  }
+  const errors = result.checks.filter(c => c.severity === 'error').length;
+  const warnings = result.checks.filter(c => c.severity === 'warning').length;
+  console.log(`\n   ${errors} error(s), ${warnings} warning(s)`);
+}
+
+/** Read a skin for validation, keeping fields that createSkin would drop */
+function readSkinForValidation(target: string): unknown {
+  const entry = listSkinEntries().find(e => e.key === target);
+  if (entry?.source === 'preset') return entry.load();
+  if (!entry && !detectSkinFormat(target)) throw new SkinLoadError(`Unknown skin: ${target}`);
+
+  const file = entry ? entry.source : target;
+  const raw = readSkinFile(file);
+  // Skins that extend another are checked as the flattened result
+  if (raw.extends !== undefined) return resolveSkinData(raw, resolve(file));
+  return { ...createSkin(raw), ...raw };
+}
+
 program.parse();
 
 // Add help on no arguments
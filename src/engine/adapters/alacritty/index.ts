@@ -2,16 +2,35 @@
  * Alacritty Adapter
  * 
  * Integrates retro skins with Alacritty terminal emulator.
- * Alacritty uses YAML configuration files with color sections.
+ * Alacritty 0.13+ reads TOML (alacritty.toml); the YAML format is kept for
+ * older releases behind the legacyYaml option. Installing writes the skin
+ * to its own file and imports it from the user's config, so the rest of
+ * their settings are left alone.
  */
 
+import fs from 'fs';
+import { parse as parseYaml, parseDocument, stringify as stringifyYaml } from 'yaml';
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
 import type { SkinConfig } from '../../skins.js';
+import { getPresetSkin, listPresetNames } from '../../catalog.js';
+import { resolveDimPalette, resolveExtendedPalette, resolvePalette } from '../../palette.js';
+import { emitToml, emitYaml, tomlComment } from '../../serializers/index.js';
+import type { ConfigSection } from '../../serializers/index.js';
+import { expandConfigPath, installConfigFiles, restoreLatestInstall } from '../../install.js';
+import type { ConfigFile, InstallResult } from '../../install.js';
+import type { AdapterOptions, TerminalAdapter, TerminalCapabilities } from '../registry.js';
 
 export interface AlacrittyConfig {
   /** Alacritty configuration directory */
   configDir: string;
   /** Whether to enable live config reload */
   liveConfigReload: boolean;
+  /** Target the pre-0.13 alacritty.yml format instead of alacritty.toml */
+  legacyYaml: boolean;
+  /** Emit only the color tables, for use with `general.import` (`import` in YAML) */
+  fragment: boolean;
+  /** Whether to keep a timestamped backup of overwritten files */
+  backupEnabled: boolean;
 }
 
 export interface AlacrittyColors {
@@ -71,13 +90,24 @@ export interface AlacrittyColors {
     cyan: string;
     white: string;
   };
+  /** Colors 16-255 */
+  indexed_colors?: Array<{ index: number; color: string }>;
+}
+
+type AlacrittyAnsiColors = NonNullable<AlacrittyColors['normal']>;
+
+/** Alacritty's names for the 8 colors in ANSI order */
+function toAnsiTable([black, red, green, yellow, blue, magenta, cyan, white]: string[]): AlacrittyAnsiColors {
+  return { black, red, green, yellow, blue, magenta, cyan, white };
 }
 
 /**
  * Convert our skin config to Alacritty format
  */
 export function toAlacrittyColors(skin: SkinConfig): AlacrittyColors {
-  const p = skin.colors.palette;
+  const p = resolvePalette(skin.colors);
+  const dim = resolveDimPalette(skin.colors);
+  const extended = resolveExtendedPalette(skin.colors);
 
   return {
     primary: {
@@ -92,51 +122,52 @@ export function toAlacrittyColors(skin: SkinConfig): AlacrittyColors {
       background: skin.colors.accent,
       text: skin.colors.foreground,
     },
-    normal: p
-      ? {
-          black: p.black,
-          red: p.red,
-          green: p.green,
-          yellow: p.yellow,
-          blue: p.blue,
-          magenta: p.purple,
-          cyan: p.cyan,
-          white: p.white,
-        }
-      : {
-          black: skin.colors.background,
-          red: '#FF0000',
-          green: '#00FF00',
-          yellow: '#FFFF00',
-          blue: '#0000FF',
-          magenta: '#FF00FF',
-          cyan: '#00FFFF',
-          white: skin.colors.foreground,
-        },
-    bright: p
-      ? {
-          black: p.brightBlack,
-          red: p.brightRed,
-          green: p.brightGreen,
-          yellow: p.brightYellow,
-          blue: p.brightBlue,
-          magenta: p.brightPurple,
-          cyan: p.brightCyan,
-          white: p.brightWhite,
-        }
-      : {
-          black: '#404040',
-          red: '#FF6666',
-          green: '#66FF66',
-          yellow: '#FFFF66',
-          blue: '#6666FF',
-          magenta: '#FF66FF',
-          cyan: '#66FFFF',
-          white: '#FFFFFF',
-        },
+    normal: {
+      black: p.black,
+      red: p.red,
+      green: p.green,
+      yellow: p.yellow,
+      blue: p.blue,
+      magenta: p.purple,
+      cyan: p.cyan,
+      white: p.white,
+    },
+    bright: {
+      black: p.brightBlack,
+      red: p.brightRed,
+      green: p.brightGreen,
+      yellow: p.brightYellow,
+      blue: p.brightBlue,
+      magenta: p.brightPurple,
+      cyan: p.brightCyan,
+      white: p.brightWhite,
+    },
+    ...(dim && { dim: toAnsiTable(dim) }),
+    ...(extended && {
+      indexed_colors: Object.entries(extended).map(([index, color]) => ({ index: Number(index), color })),
+    }),
   };
 }
 
+/**
+ * Build the color sections shared by the YAML and TOML formats
+ */
+function colorSections(colors: AlacrittyColors): ConfigSection[] {
+  return [
+    { comment: 'Primary colors', path: ['colors', 'primary'], entries: { ...colors.primary } },
+    { comment: 'Cursor styling', path: ['colors', 'cursor'], entries: { ...colors.cursor } },
+    { comment: 'Selection styling', path: ['colors', 'selection'], entries: { ...colors.selection } },
+    { comment: 'ANSI color palette', path: ['colors', 'normal'], entries: { ...colors.normal } },
+    { comment: 'Bright ANSI colors', path: ['colors', 'bright'], entries: { ...colors.bright } },
+    ...(colors.dim ? [{ comment: 'Dim ANSI colors', path: ['colors', 'dim'], entries: { ...colors.dim } }] : []),
+    ...(colors.indexed_colors
+      ? [{ comment: '256-color palette (color cube and grayscale ramp)', path: ['colors'], entries: { indexed_colors: colors.indexed_colors.map(c => ({ ...c })) } }]
+      : []),
+  ];
+}
+
+const EFFECTS_NOTE = 'Visual effects (Alacritty supports some built-in effects)\nNote: Advanced CRT effects require external compositor';
+
 /**
  * Generate Alacritty YAML configuration for a skin
  */
@@ -145,71 +176,276 @@ export function generateAlacrittyYaml(skin: SkinConfig, options: Partial<Alacrit
   const config = {
     configDir: options.configDir || '~/.config/alacritty',
     liveConfigReload: options.liveConfigReload ?? true,
+    fragment: options.fragment ?? false,
+  };
+
+  const header = [`Retro Skin: ${skin.name}`, 'Generated by Retro Skins Platform'];
+  if (config.fragment) {
+    return emitYaml({
+      header: [
+        ...header,
+        '',
+        'Import from your alacritty.yml:',
+        '  import:',
+        `    - ${config.configDir}/retro_skin.yml`,
+      ],
+      sections: colorSections(colors),
+    });
+  }
+
+  return emitYaml({
+    header,
+    sections: [
+      ...colorSections(colors),
+      { comment: `${EFFECTS_NOTE}\n\nWindow decoration`, path: ['window'], entries: { decorations: 'Full', opacity: 1.0 } },
+      { comment: 'Cursor configuration', path: ['cursor'], entries: { style: 'Block', blink: 'On' } },
+      { comment: 'Performance settings', path: [], entries: { live_config_reload: config.liveConfigReload } },
+    ],
+  });
+}
+
+/**
+ * Generate Alacritty TOML configuration for a skin
+ */
+export function generateAlacrittyToml(skin: SkinConfig, options: Partial<AlacrittyConfig> = {}): string {
+  const colors = toAlacrittyColors(skin);
+  const config = {
+    configDir: options.configDir || '~/.config/alacritty',
+    liveConfigReload: options.liveConfigReload ?? true,
+    fragment: options.fragment ?? false,
   };
 
-  return `# Retro Skin: ${skin.name}
-# Generated by Retro Skins Platform
-
-colors:
-  # Primary colors
-  primary:
-    background: '${colors.primary.background}'
-    foreground: '${colors.primary.foreground}'
-    
-  # Cursor styling
-  cursor:
-    cursor: '${colors.cursor?.cursor}'
-    text: '${colors.cursor?.text}'
-    
-  # Selection styling
-  selection:
-    text: '${colors.selection?.text}'
-    background: '${colors.selection?.background}'
-    
-  # ANSI color palette
-  normal:
-    black: '${colors.normal?.black ?? ""}'
-    red: '${colors.normal?.red ?? ""}'
-    green: '${colors.normal?.green ?? ""}'
-    yellow: '${colors.normal?.yellow ?? ""}'
-    blue: '${colors.normal?.blue ?? ""}'
-    magenta: '${colors.normal?.magenta ?? ""}'
-    cyan: '${colors.normal?.cyan ?? ""}'
-    white: '${colors.normal?.white ?? ""}'
-    
-  # Bright ANSI colors
-  bright:
-    black: '${colors.bright?.black ?? ""}'
-    red: '${colors.bright?.red ?? ""}'
-    green: '${colors.bright?.green ?? ""}'
-    yellow: '${colors.bright?.yellow ?? ""}'
-    blue: '${colors.bright?.blue ?? ""}'
-    magenta: '${colors.bright?.magenta ?? ""}'
-    cyan: '${colors.bright?.cyan ?? ""}'
-    white: '${colors.bright?.white ?? ""}'
-
-# Visual effects (Alacritty supports some built-in effects)
-# Note: Advanced CRT effects require external compositor
-
-# Window decoration
-window:
-  decorations: "Full"
-  opacity: 1.0
-
-# Cursor configuration
-cursor:
-  style: "Block"
-  blink: "On"
-
-# Performance settings
-live_config_reload: ${config.liveConfigReload}
-`;
+  const header = [`Retro Skin: ${skin.name}`, 'Generated by Retro Skins Platform'];
+  if (config.fragment) {
+    return emitToml({
+      header: [
+        ...header,
+        '',
+        'Import from your alacritty.toml:',
+        '  [general]',
+        `  import = ["${config.configDir}/retro_skin.toml"]`,
+      ],
+      sections: colorSections(colors),
+    });
+  }
+
+  return emitToml({
+    header,
+    sections: [
+      { path: ['general'], entries: { live_config_reload: config.liveConfigReload } },
+      ...colorSections(colors),
+      { comment: `${EFFECTS_NOTE}\n\nWindow decoration`, path: ['window'], entries: { decorations: 'Full', opacity: 1.0 } },
+      { comment: 'Cursor configuration', path: ['cursor', 'style'], entries: { shape: 'Block', blinking: 'On' } },
+    ],
+  });
+}
+
+/**
+ * Top-level YAML keys that moved in the TOML config format
+ */
+const YAML_TO_TOML_KEYS: Record<string, string[]> = {
+  import: ['general', 'import'],
+  live_config_reload: ['general', 'live_config_reload'],
+  working_directory: ['general', 'working_directory'],
+  ipc_socket: ['general', 'ipc_socket'],
+  shell: ['terminal', 'shell'],
+  key_bindings: ['keyboard', 'bindings'],
+  mouse_bindings: ['mouse', 'bindings'],
+  draw_bold_text_with_bright_colors: ['colors', 'draw_bold_text_with_bright_colors'],
+};
+
+/**
+ * Convert an existing alacritty.yml into alacritty.toml, merging in a skin's colors.
+ * Moved keys are relocated and `import` paths are pointed at .toml files.
+ */
+export function migrateAlacrittyYamlToToml(yamlSource: string, skin?: SkinConfig): string {
+  const parsed = parseYaml(yamlSource) ?? {};
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Alacritty YAML config must contain a mapping');
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const target = YAML_TO_TOML_KEYS[key];
+    if (target) {
+      const [section, name] = target;
+      const existing = result[section];
+      result[section] = { ...(isTable(existing) ? existing : {}), [name]: value };
+    } else {
+      const existing = result[key];
+      result[key] = isTable(value) && isTable(existing) ? { ...existing, ...value } : value;
+    }
+  }
+
+  const general = result.general;
+  if (isTable(general) && Array.isArray(general.import)) {
+    general.import = general.import.map((entry: unknown) =>
+      typeof entry === 'string' ? entry.replace(/\.ya?ml$/i, '.toml') : entry
+    );
+  }
+
+  if (skin) {
+    result.colors = mergeTables(isTable(result.colors) ? result.colors : {}, toAlacrittyColors(skin));
+  }
+
+  const header = skin
+    ? `# Migrated from alacritty.yml with Retro Skin: ${skin.name}\n# Generated by Retro Skins Platform\n\n`
+    : '# Migrated from alacritty.yml\n# Generated by Retro Skins Platform\n\n';
+  return header + stringifyToml(result) + '\n';
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeTables(base: Record<string, unknown>, override: object): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    merged[key] = isTable(value) && isTable(merged[key])
+      ? mergeTables(merged[key] as Record<string, unknown>, value)
+      : value;
+  }
+  return merged;
+}
+
+/**
+ * Add a file to the imports of an alacritty.toml (alacritty.yml with
+ * legacyYaml), keeping the rest of the config. Returns the source unchanged
+ * if the file is already imported.
+ */
+export function addAlacrittyImport(source: string, importPath: string, legacyYaml = false): string {
+  return legacyYaml ? addYamlImport(source, importPath) : addTomlImport(source, importPath);
+}
+
+const GENERAL_HEADER = /^[ \t]*\[[ \t]*general[ \t]*\][ \t]*(#.*)?$/m;
+
+/** Edits the text rather than re-serializing, so the user's comments and layout survive */
+function addTomlImport(source: string, importPath: string): string {
+  const general = parseToml(source).general;
+  const value = JSON.stringify(importPath);
+  const entry = `import = [${value}]`;
+
+  if (general === undefined) {
+    const separator = source.trim() === '' ? '' : source.endsWith('\n') ? '\n' : '\n\n';
+    return `${source}${separator}[general]\n${entry}\n`;
+  }
+  if (!isTable(general)) {
+    throw new Error('general in alacritty.toml must be a table');
+  }
+  const imports = general.import ?? [];
+  if (!Array.isArray(imports)) {
+    throw new Error('general.import in alacritty.toml must be an array');
+  }
+  if (imports.includes(importPath)) return source;
+
+  let updated: string | null;
+  if (general.import === undefined) {
+    const header = GENERAL_HEADER.exec(source);
+    updated = header
+      ? `${source.slice(0, header.index + header[0].length)}\n${entry}${source.slice(header.index + header[0].length)}`
+      : `general.${entry}\n${source}`;
+  } else {
+    updated = appendToTomlArray(source, findTomlImportArray(source), value);
+  }
+
+  // The edits above work on the text, so check they did what the parser sees
+  const check = updated === null ? undefined : parseToml(updated).general;
+  if (updated === null || !isTable(check) || JSON.stringify(check.import) !== JSON.stringify([...imports, importPath])) {
+    throw new Error(`Cannot add the import to alacritty.toml; add ${value} to general.import by hand`);
+  }
+  return updated;
+}
+
+/** Index of the `[` opening general.import, or -1 if it cannot be found */
+function findTomlImportArray(source: string): number {
+  const dotted = /^[ \t]*general[ \t]*\.[ \t]*import[ \t]*=[ \t]*\[/m.exec(source);
+  if (dotted) return dotted.index + dotted[0].length - 1;
+
+  const header = GENERAL_HEADER.exec(source);
+  if (!header) return -1;
+  const start = header.index + header[0].length;
+  const section = source.slice(start);
+  const key = /^[ \t]*import[ \t]*=[ \t]*\[/m.exec(section);
+  const nextHeader = /^[ \t]*\[/m.exec(section);
+  if (!key || (nextHeader && nextHeader.index < key.index)) return -1;
+  return start + key.index + key[0].length - 1;
+}
+
+/** Insert a value at the end of the TOML array opening at `open`, skipping strings and comments */
+function appendToTomlArray(source: string, open: number, value: string): string | null {
+  if (open < 0) return null;
+  let last = open;
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    const char = source[i];
+    if (char === '#') {
+      i = source.indexOf('\n', i);
+      if (i < 0) return null;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      i = skipTomlString(source, i);
+      if (i < 0) return null;
+      last = i;
+      continue;
+    }
+    if (char === '[') depth++;
+    if (char === ']' && --depth === 0) {
+      const separator = source[last] === '[' ? '' : source[last] === ',' ? ' ' : ', ';
+      return `${source.slice(0, last + 1)}${separator}${value}${source.slice(last + 1)}`;
+    }
+    if (!/\s/.test(char)) last = i;
+  }
+  return null;
+}
+
+/** Index of the quote that closes the TOML string starting at `start`, or -1 */
+function skipTomlString(source: string, start: number): number {
+  const quote = source[start];
+  const delimiter = source.startsWith(quote.repeat(3), start) ? quote.repeat(3) : quote;
+  for (let i = start + delimiter.length; i < source.length; i++) {
+    if (quote === '"' && source[i] === '\\') {
+      i++;
+    } else if (source.startsWith(delimiter, i)) {
+      return i + delimiter.length - 1;
+    }
+  }
+  return -1;
+}
+
+function addYamlImport(source: string, importPath: string): string {
+  const doc = parseDocument(source);
+  if (doc.errors.length > 0) throw doc.errors[0];
+  const parsed: unknown = doc.toJS() ?? {};
+  if (!isTable(parsed)) {
+    throw new Error('Alacritty YAML config must contain a mapping');
+  }
+
+  const imports = parsed.import ?? [];
+  if (!Array.isArray(imports)) {
+    throw new Error('import in alacritty.yml must be a list');
+  }
+  if (imports.includes(importPath)) return source;
+  if (!doc.contents) return `${source}${stringifyYaml({ import: [importPath] })}`;
+  doc.set('import', [...imports, importPath]);
+  return doc.toString();
 }
 
 /**
  * Alacritty Adapter class
  */
-export class AlacrittyAdapter {
+export class AlacrittyAdapter implements TerminalAdapter<AlacrittyConfig> {
+  readonly id = 'alacritty';
+  readonly displayName = 'Alacritty';
+  readonly fileExtension = '.toml';
+  readonly capabilities: TerminalCapabilities = {
+    paletteSize: 256,
+    shaders: false,
+    liveReload: true,
+    mergesExistingConfig: true,
+  };
+
   private config: AlacrittyConfig;
   private currentSkin: SkinConfig | null = null;
   
@@ -217,16 +453,47 @@ export class AlacrittyAdapter {
     this.config = {
       configDir: config.configDir || '~/.config/alacritty',
       liveConfigReload: config.liveConfigReload ?? true,
+      legacyYaml: config.legacyYaml ?? false,
+      fragment: config.fragment ?? false,
+      backupEnabled: config.backupEnabled ?? true,
     };
   }
   
   /** Apply a skin to Alacritty */
-  applySkin(skin: SkinConfig): void {
+  applySkin(skin: SkinConfig): InstallResult {
+    return this.install(skin);
+  }
+
+  /**
+   * Generate the Alacritty config for a skin.
+   * An existingConfig is taken to be an alacritty.yml and migrated to TOML,
+   * so it cannot be combined with legacyYaml.
+   */
+  generate(skin: SkinConfig, options: Partial<AlacrittyConfig> & AdapterOptions = {}): string {
+    const config = { ...this.config, ...options };
+    if (options.existingConfig !== undefined) {
+      if (config.legacyYaml) {
+        throw new Error('--legacy-yaml cannot be combined with --merge: merging converts alacritty.yml to TOML');
+      }
+      return migrateAlacrittyYamlToToml(options.existingConfig, skin);
+    }
+    return config.legacyYaml ? generateAlacrittyYaml(skin, config) : generateAlacrittyToml(skin, config);
+  }
+
+  /**
+   * Write the skin to retro_skin.toml and import it from alacritty.toml,
+   * backing up both files before they change
+   */
+  install(skin: SkinConfig, options: Partial<AlacrittyConfig> = {}): InstallResult {
     this.currentSkin = skin;
-    const yamlConfig = generateAlacrittyYaml(skin, this.config);
-    
-    // Save to Alacritty config file
-    this.saveConfig(yamlConfig);
+    const config = { ...this.config, ...options, fragment: true };
+    const mainPath = expandConfigPath(this.mainConfigPath(config));
+    const existing = fs.existsSync(mainPath) ? fs.readFileSync(mainPath, 'utf-8') : '';
+    const updated = addAlacrittyImport(existing, this.getConfigPath(config), config.legacyYaml);
+
+    const files: ConfigFile[] = [{ path: expandConfigPath(this.getConfigPath(config)), content: this.generate(skin, config) }];
+    if (updated !== existing) files.push({ path: mainPath, content: updated });
+    return installConfigFiles(files, { backup: config.backupEnabled })[0];
   }
   
   /** Get current skin */
@@ -234,75 +501,50 @@ export class AlacrittyAdapter {
     return this.currentSkin;
   }
   
-  /** Generate configuration file path */
-  private getConfigPath(): string {
-    return `${this.config.configDir}/alacritty.yml`;
+  /** Path of the skin file install writes and alacritty.toml imports */
+  getConfigPath(options: Partial<AlacrittyConfig> = {}): string {
+    const config = { ...this.config, ...options };
+    return `${config.configDir}/retro_skin.${config.legacyYaml ? 'yml' : 'toml'}`;
+  }
+
+  /** Format text as a TOML/YAML comment */
+  comment(text: string): string {
+    return tomlComment(text);
+  }
+
+  /** Instructions for installing generated output by hand */
+  describeInstall(options: Partial<AlacrittyConfig> = {}): string {
+    const config = { ...this.config, ...options };
+    if (!config.fragment) return `copy to ${this.mainConfigPath(config)}`;
+    const importKey = config.legacyYaml ? 'import in alacritty.yml' : 'general.import in alacritty.toml';
+    return `copy to ${this.getConfigPath(options)} and add it to ${importKey}`;
   }
   
-  /** Save configuration to file */
-  private saveConfig(yamlContent: string): void {
-    // This would write to the Alacritty config directory
-    // In a real implementation, this would use fs.writeFile
-    console.log(`Would save to: ${this.getConfigPath()}`);
-    console.log('Config generated successfully');
+  /** The user's own config file, which imports the skin file */
+  private mainConfigPath(config: AlacrittyConfig): string {
+    return `${config.configDir}/alacritty.${config.legacyYaml ? 'yml' : 'toml'}`;
+  }
+  
+  /** Roll the skin file and alacritty.toml back to before the latest install; returns the restored files */
+  restore(options: Partial<AlacrittyConfig> = {}): InstallResult[] {
+    const config = { ...this.config, ...options };
+    return restoreLatestInstall([this.getConfigPath(config), this.mainConfigPath(config)].map(file => expandConfigPath(file)));
   }
   
   /** List available skins */
   listSkins(): string[] {
-    return [
-      'phosphor',
-      'amber',
-      'lcd',
-      'cyber',
-      'terminal',
-    ];
+    return listPresetNames();
   }
   
   /** Switch to a preset skin */
   applyPresetSkin(presetName: string): boolean {
-    const skin = this.createPresetSkin(presetName);
+    const skin = getPresetSkin(presetName);
     if (skin) {
       this.applySkin(skin);
       return true;
     }
     return false;
   }
-  
-  /** Create a preset skin by name */
-  private createPresetSkin(presetName: string): SkinConfig | null {
-    const presets: Record<string, () => SkinConfig> = {
-      phosphor: () => ({
-        name: 'Phosphor CRT',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.4, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.6, params: { radius: 3, falloff: 0.5 } },
-        ],
-        colors: {
-          background: '#0D0208',
-          foreground: '#00FF41',
-          accent: '#008F11',
-          glow: '#00FF41',
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-      amber: () => ({
-        name: 'Amber Monochrome',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.3, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.5, params: { radius: 2, falloff: 0.6 } },
-        ],
-        colors: {
-          background: '#1A0F00',
-          foreground: '#FFB000',
-          accent: '#FF8C00',
-          glow: '#FFB000',
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-    };
-    
-    return presets[presetName]?.() || null;
-  }
 }
 
 /**
@@ -0,0 +1,270 @@
+/**
+ * Ghostty Adapter
+ *
+ * Integrates retro skins with Ghostty.
+ * Ghostty uses a plain text configuration file with `key = value` lines and
+ * runs Shadertoy-style GLSL shaders through `custom-shader`.
+ */
+
+import type { SkinConfig } from '../../skins.js';
+import { getPresetSkin, listPresetNames } from '../../catalog.js';
+import { paletteToAnsi, resolveExtendedPalette, resolvePalette } from '../../palette.js';
+import type { ExtendedColors } from '../../palette.js';
+import { skinVariants } from '../../variants.js';
+import { emitGhosttyConfig, ghosttyComment } from '../../serializers/index.js';
+import type { ConfigSection } from '../../serializers/index.js';
+import { expandConfigPath, installConfigFiles, listBackedUpFiles, restoreLatestInstall } from '../../install.js';
+import type { ConfigFile, InstallResult } from '../../install.js';
+import type { AdapterOptions, TerminalAdapter, TerminalCapabilities } from '../registry.js';
+import { generateGhosttyShader, hasGhosttyShader, isGhosttyShaderAnimated } from './shader.js';
+
+export * from './shader.js';
+
+export interface GhosttyConfig {
+  /** Ghostty configuration directory */
+  configDir: string;
+  /** Whether to keep a timestamped backup of overwritten files */
+  backupEnabled: boolean;
+  /** Where the custom shader is written and loaded from (default shaders/<skin>.glsl in configDir) */
+  shaderPath?: string;
+  /** The skin's light and dark theme files are written to themes/ in configDir */
+  themes?: boolean;
+}
+
+export interface GhosttyColors {
+  background: string;
+  foreground: string;
+  'cursor-color': string;
+  'cursor-text': string;
+  'selection-background': string;
+  'selection-foreground': string;
+  /** The 16 ANSI colors, palette 0-15 */
+  palette: string[];
+  /** Palette 16-255, when the skin themes them */
+  extended?: ExtendedColors;
+}
+
+/**
+ * Convert our skin config to Ghostty format
+ */
+export function toGhosttyColors(skin: SkinConfig): GhosttyColors {
+  const extended = resolveExtendedPalette(skin.colors);
+  return {
+    background: skin.colors.background,
+    foreground: skin.colors.foreground,
+    'cursor-color': skin.colors.accent,
+    'cursor-text': skin.colors.background,
+    'selection-background': skin.colors.accent,
+    'selection-foreground': skin.colors.foreground,
+    palette: paletteToAnsi(resolvePalette(skin.colors)),
+    ...(extended && { extended }),
+  };
+}
+
+/**
+ * Generate the Ghostty config for a skin: its colors, or for skins with
+ * variants a `theme` that follows the system appearance, plus the custom
+ * shader for its CRT effects. Files the config points at are only
+ * referenced when they are written: the theme with options.themes, the
+ * shader with options.shaderPath.
+ */
+export function generateGhosttyConfig(skin: SkinConfig, options: Partial<GhosttyConfig> = {}): string {
+  const variants = options.themes ? skinVariants(skin) : null;
+  const sections: ConfigSection[] = variants
+    ? [{
+      comment: 'Light and dark variants, switched with the system appearance (themes/ holds both)',
+      path: [],
+      entries: { theme: `light:${ghosttyThemeName(variants.light)},dark:${ghosttyThemeName(variants.dark)}` },
+    }]
+    : colorSections(skin);
+
+  if (options.shaderPath && hasGhosttyShader(skin)) {
+    sections.push({
+      comment: 'CRT effects',
+      path: [],
+      entries: {
+        'custom-shader': options.shaderPath,
+        'custom-shader-animation': isGhosttyShaderAnimated(skin),
+      },
+    });
+  }
+
+  return emitGhosttyConfig({
+    header: [`Retro Skin: ${skin.name}`, 'Generated by Retro Skins Platform'],
+    sections,
+  });
+}
+
+/**
+ * Generate a Ghostty theme file (colors only) for one variant of a skin
+ */
+export function generateGhosttyTheme(skin: SkinConfig): string {
+  return emitGhosttyConfig({
+    header: [`Retro Skin: ${skin.name}`, 'Generated by Retro Skins Platform'],
+    sections: colorSections(skin),
+  });
+}
+
+/**
+ * The theme name a skin variant is installed under in Ghostty's themes directory
+ */
+export function ghosttyThemeName(skin: SkinConfig): string {
+  const name = skin.name.replace(/[^A-Za-z0-9 _.-]/g, '').replace(/\s+/g, ' ').trim();
+  return `Retro ${name || 'Skin'}`;
+}
+
+/**
+ * Where a skin's shader lives: options.shaderPath, or shaders/ in the config directory
+ */
+export function ghosttyShaderPath(skin: SkinConfig, options: Partial<GhosttyConfig> = {}): string {
+  if (options.shaderPath) return options.shaderPath;
+  const slug = skin.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'skin';
+  return `${options.configDir || '~/.config/ghostty'}/shaders/${slug}.glsl`;
+}
+
+/** Colors, selection, cursor and palette sections */
+function colorSections(skin: SkinConfig): ConfigSection[] {
+  const colors = toGhosttyColors(skin);
+  return [
+    { comment: 'Basic colors', path: [], entries: { background: colors.background, foreground: colors.foreground } },
+    {
+      comment: 'Selection colors',
+      path: [],
+      entries: { 'selection-background': colors['selection-background'], 'selection-foreground': colors['selection-foreground'] },
+    },
+    { comment: 'Cursor styling', path: [], entries: { 'cursor-color': colors['cursor-color'], 'cursor-text': colors['cursor-text'] } },
+    {
+      comment: 'ANSI color palette (black, red, green, yellow, blue, magenta, cyan, white, then bright)',
+      path: [],
+      entries: { palette: colors.palette.map((color, i) => `${i}=${color}`) },
+    },
+    ...(colors.extended
+      ? [{
+        comment: '256-color palette (color cube and grayscale ramp)',
+        path: [],
+        entries: { palette: Object.entries(colors.extended).map(([index, color]) => `${index}=${color}`) },
+      }]
+      : []),
+  ];
+}
+
+/**
+ * Ghostty Adapter class
+ */
+export class GhosttyAdapter implements TerminalAdapter<GhosttyConfig> {
+  readonly id = 'ghostty';
+  readonly displayName = 'Ghostty';
+  readonly fileExtension = '.ghostty';
+  readonly capabilities: TerminalCapabilities = {
+    paletteSize: 256,
+    shaders: true,
+    liveReload: true,
+    mergesExistingConfig: false,
+  };
+
+  private config: GhosttyConfig;
+  private currentSkin: SkinConfig | null = null;
+
+  constructor(config: Partial<GhosttyConfig> = {}) {
+    this.config = {
+      configDir: config.configDir || '~/.config/ghostty',
+      backupEnabled: config.backupEnabled ?? true,
+      ...(config.shaderPath && { shaderPath: config.shaderPath }),
+    };
+  }
+
+  /** Apply a skin to Ghostty */
+  applySkin(skin: SkinConfig): InstallResult {
+    return this.install(skin);
+  }
+
+  /** Generate the Ghostty config for a skin */
+  generate(skin: SkinConfig, options: Partial<GhosttyConfig> & AdapterOptions = {}): string {
+    return generateGhosttyConfig(skin, { ...this.config, ...options });
+  }
+
+  /** Generate the GLSL shader for a skin's CRT effects */
+  generateShader(skin: SkinConfig): string | null {
+    return generateGhosttyShader(skin);
+  }
+
+  /**
+   * Write the config for a skin along with its shader and, for skins with
+   * variants, both theme files, backing up each file it replaces
+   */
+  install(skin: SkinConfig, options: Partial<GhosttyConfig> = {}): InstallResult {
+    this.currentSkin = skin;
+    const config = { ...this.config, ...options };
+    // Ghostty gets absolute paths; it does not expand ~ everywhere
+    const shaderPath = expandConfigPath(ghosttyShaderPath(skin, config));
+
+    const files: ConfigFile[] = [];
+    const shader = generateGhosttyShader(skin);
+    if (shader !== null) files.push({ path: shaderPath, content: shader });
+    const variants = skinVariants(skin);
+    if (variants) {
+      for (const variant of [variants.light, variants.dark]) {
+        files.push({ path: expandConfigPath(`${config.configDir}/themes/${ghosttyThemeName(variant)}`), content: generateGhosttyTheme(variant) });
+      }
+    }
+
+    // The config goes last, so it never points at files that are not written yet
+    const content = generateGhosttyConfig(skin, { ...config, shaderPath, themes: variants !== null });
+    files.push({ path: expandConfigPath(this.getConfigPath(config)), content });
+    const results = installConfigFiles(files, { backup: config.backupEnabled });
+    return results[results.length - 1];
+  }
+
+  /** Get current skin */
+  getCurrentSkin(): SkinConfig | null {
+    return this.currentSkin;
+  }
+
+  /** Generate configuration file path */
+  getConfigPath(options: Partial<GhosttyConfig> = {}): string {
+    return `${options.configDir || this.config.configDir}/retro_skin.ghostty`;
+  }
+
+  /** Format text as a Ghostty config comment */
+  comment(text: string): string {
+    return ghosttyComment(text);
+  }
+
+  /** Instructions for installing generated output by hand */
+  describeInstall(options: Partial<GhosttyConfig> = {}): string {
+    return `copy to ${this.getConfigPath(options)} and add "config-file = retro_skin.ghostty" to your Ghostty config (--install also writes the shader and themes)`;
+  }
+
+  /** Roll the config, shader and theme files back to before the latest install; returns the restored files */
+  restore(options: Partial<GhosttyConfig> = {}): InstallResult[] {
+    const config = { ...this.config, ...options };
+    const shaderDir = config.shaderPath ? config.shaderPath.replace(/[\\/][^\\/]*$/, '') : `${config.configDir}/shaders`;
+    return restoreLatestInstall([
+      expandConfigPath(this.getConfigPath(config)),
+      ...listBackedUpFiles(expandConfigPath(shaderDir)),
+      ...listBackedUpFiles(expandConfigPath(`${config.configDir}/themes`)),
+    ]);
+  }
+
+  /** List available skins */
+  listSkins(): string[] {
+    return listPresetNames();
+  }
+
+  /** Switch to a preset skin */
+  applyPresetSkin(presetName: string): boolean {
+    const skin = getPresetSkin(presetName);
+    if (skin) {
+      this.applySkin(skin);
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Create a Ghostty adapter instance
+ */
+export function createGhosttyAdapter(config?: Partial<GhosttyConfig>): GhosttyAdapter {
+  return new GhosttyAdapter(config);
+}
@@ -0,0 +1,165 @@
+/**
+ * Ghostty Custom Shader
+ *
+ * Composes a skin's CRT effects into one Shadertoy-style GLSL shader for
+ * Ghostty's `custom-shader`: curvature, color shift, glow, scanlines,
+ * noise, flicker, then vignette, with the constants from adapters/shaders.ts.
+ */
+
+import type { EffectType, SkinConfig } from '../../skins.js';
+import { parseHexColor } from '../../color.js';
+import { shaderConstants, shaderEffects, shaderFloat } from '../shaders.js';
+import type { ShaderConstant } from '../shaders.js';
+
+/** Effects the shader implements */
+export const GHOSTTY_SHADER_EFFECTS: readonly EffectType[] = [
+  'crt-curvature',
+  'color-shift',
+  'phosphor-glow',
+  'crt-scanlines',
+  'noise',
+  'crt-flicker',
+  'vignette',
+];
+
+/** Shader effects that change over time, so Ghostty has to keep redrawing */
+export const GHOSTTY_ANIMATED_EFFECTS: readonly EffectType[] = ['noise', 'crt-flicker'];
+
+/**
+ * Whether a skin has any effect the shader implements
+ */
+export function hasGhosttyShader(skin: SkinConfig): boolean {
+  return shaderEffects(skin, GHOSTTY_SHADER_EFFECTS).length > 0;
+}
+
+/**
+ * Whether the skin's shader uses time and needs `custom-shader-animation`
+ */
+export function isGhosttyShaderAnimated(skin: SkinConfig): boolean {
+  return shaderEffects(skin, GHOSTTY_ANIMATED_EFFECTS).length > 0;
+}
+
+/**
+ * Generate the GLSL shader for a skin, or null when it has none of the
+ * shader effects. Sizes in effect params are in screen pixels.
+ */
+export function generateGhosttyShader(skin: SkinConfig): string | null {
+  const effects = shaderEffects(skin, GHOSTTY_SHADER_EFFECTS);
+  if (effects.length === 0) return null;
+
+  const constants: string[] = [];
+  const warp: string[] = [];
+  const body: string[] = [];
+  const helpers: string[] = [];
+  for (const effect of effects) {
+    constants.push(...shaderConstants(effect, skin).map(glslConstant));
+    switch (effect.type) {
+      case 'crt-curvature':
+        warp.push(
+          '    // crt-curvature: barrel distortion, black outside the bent screen',
+          '    vec2 centered = uv * 2.0 - 1.0;',
+          '    uv = (centered * (1.0 + CURVATURE * dot(centered, centered)) + 1.0) * 0.5;',
+          '    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {',
+          '        fragColor = vec4(0.0, 0.0, 0.0, 1.0);',
+          '        return;',
+          '    }',
+          '',
+        );
+        break;
+      case 'color-shift':
+        body.push(
+          '    // color-shift: red and blue sampled apart horizontally',
+          '    color.r = texture(iChannel0, uv + vec2(COLOR_SHIFT, 0.0)).r;',
+          '    color.b = texture(iChannel0, uv - vec2(COLOR_SHIFT, 0.0)).b;',
+          '',
+        );
+        break;
+      case 'phosphor-glow': {
+        const background = parseHexColor(skin.colors.background) ?? { r: 0, g: 0, b: 0 };
+        constants.push(glslConstant({ name: 'BACKGROUND', value: background }));
+        helpers.push(
+          '// Light above the background, as one channel',
+          'float emission(vec2 uv) {',
+          '    vec3 lit = max(texture(iChannel0, uv).rgb - BACKGROUND, 0.0);',
+          '    return max(lit.r, max(lit.g, lit.b));',
+          '}',
+          '',
+        );
+        body.push(
+          '    // phosphor-glow: gaussian-weighted bloom of the text in the glow color',
+          '    vec2 glowStep = GLOW_RADIUS / iResolution.xy * 0.5;',
+          '    float bloom = 0.0;',
+          '    float weights = 0.0;',
+          '    for (int gy = -2; gy <= 2; gy++) {',
+          '        for (int gx = -2; gx <= 2; gx++) {',
+          '            float weight = exp(-0.5 * float(gx * gx + gy * gy));',
+          '            bloom += emission(uv + vec2(gx, gy) * glowStep) * weight;',
+          '            weights += weight;',
+          '        }',
+          '    }',
+          '    color.rgb += GLOW_COLOR * (bloom / weights) * GLOW_STRENGTH;',
+          '',
+        );
+        break;
+      }
+      case 'crt-scanlines':
+        body.push(
+          '    // crt-scanlines: every other band of rows darkened',
+          '    float period = max(2.0, round(SCANLINE_SPACING));',
+          '    if (mod(fragCoord.y, period) >= period * 0.5) color.rgb *= SCANLINE_SHADE;',
+          '',
+        );
+        break;
+      case 'noise':
+        body.push(
+          '    // noise: monochrome grain that changes every frame',
+          '    float grain = fract(sin(dot(fragCoord + fract(iTime) * 61.0, vec2(12.9898, 78.233))) * 43758.5453);',
+          '    color.rgb += (grain - 0.5) * 2.0 * NOISE_AMOUNT;',
+          '',
+        );
+        break;
+      case 'crt-flicker':
+        body.push(
+          '    // crt-flicker: a slow brightness wave plus irregular jitter',
+          '    float jitter = fract(sin(floor(iTime * 30.0) * 91.3458) * 47453.5453) - 0.5;',
+          '    color.rgb *= 1.0 + (sin(iTime * 10.0 * FLICKER_FREQUENCY) + jitter) * FLICKER_STRENGTH;',
+          '',
+        );
+        break;
+      case 'vignette':
+        body.push(
+          '    // vignette: corners darkened',
+          '    float edge = length(fragCoord / iResolution.xy * 2.0 - 1.0) / sqrt(2.0);',
+          '    color.rgb *= 1.0 - VIGNETTE_STRENGTH * smoothstep(VIGNETTE_START, 1.0, edge);',
+          '',
+        );
+        break;
+    }
+  }
+
+  return [
+    `// Retro Skin: ${skin.name.replace(/[\r\n]+/g, ' ')}`,
+    '// Generated by Retro Skins Platform',
+    `// Effects: ${effects.map(e => e.type).join(', ')}`,
+    '',
+    ...constants,
+    '',
+    ...helpers,
+    'void mainImage(out vec4 fragColor, in vec2 fragCoord) {',
+    '    vec2 uv = fragCoord / iResolution.xy;',
+    '',
+    ...warp,
+    '    vec4 color = texture(iChannel0, uv);',
+    '',
+    ...body,
+    '    fragColor = vec4(clamp(color.rgb, 0.0, 1.0), color.a);',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function glslConstant({ name, value }: ShaderConstant): string {
+  return typeof value === 'number'
+    ? `const float ${name} = ${shaderFloat(value)};`
+    : `const vec3 ${name} = vec3(${[value.r, value.g, value.b].map(shaderFloat).join(', ')});`;
+}
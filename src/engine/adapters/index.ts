@@ -0,0 +1,26 @@
+/**
+ * Terminal Adapters
+ *
+ * Registers the built-in adapters and re-exports the registry API.
+ */
+
+import { getAdapter, registerAdapter } from './registry.js';
+import { createWezTermAdapter } from './wezterm/index.js';
+import { createAlacrittyAdapter } from './alacritty/index.js';
+import { createKittyAdapter } from './kitty/index.js';
+import { createWindowsTerminalAdapter } from './windows-terminal/index.js';
+import { createGhosttyAdapter } from './ghostty/index.js';
+
+export * from './registry.js';
+
+// The registry is process-wide, so a second copy of this module must not
+// register the built-ins again
+for (const adapter of [
+  createWezTermAdapter(),
+  createAlacrittyAdapter(),
+  createKittyAdapter(),
+  createWindowsTerminalAdapter(),
+  createGhosttyAdapter(),
+]) {
+  if (!getAdapter(adapter.id)) registerAdapter(adapter);
+}
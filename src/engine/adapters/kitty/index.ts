@@ -6,12 +6,22 @@
  */
 
 import type { SkinConfig } from '../../skins.js';
+import { getPresetSkin, listPresetNames } from '../../catalog.js';
+import { paletteToAnsi, resolveExtendedPalette, resolvePalette } from '../../palette.js';
+import type { ExtendedColors } from '../../palette.js';
+import { emitKittyConf, kittyComment } from '../../serializers/index.js';
+import type { ConfigTable } from '../../serializers/index.js';
+import { expandConfigPath, installConfigFile, restoreLatestInstall } from '../../install.js';
+import type { InstallResult } from '../../install.js';
+import type { TerminalAdapter, TerminalCapabilities } from '../registry.js';
 
 export interface KittyConfig {
   /** Kitty configuration directory */
   configDir: string;
   /** Whether to enable live reload */
   liveConfigReload: boolean;
+  /** Whether to keep a timestamped backup of overwritten files */
+  backupEnabled: boolean;
 }
 
 export interface KittyColors {
@@ -21,15 +31,17 @@ export interface KittyColors {
   selection_background: string;
   cursor: string;
   cursor_text_color: string;
+  /** The 16 ANSI colors, color0-color15 */
   ansi: string[];
+  /** color16-color255, when the skin themes them */
+  extended?: ExtendedColors;
 }
 
 /**
  * Convert our skin config to Kitty format
  */
 export function toKittyColors(skin: SkinConfig): KittyColors {
-  const p = skin.colors.palette;
-
+  const extended = resolveExtendedPalette(skin.colors);
   return {
     foreground: skin.colors.foreground,
     background: skin.colors.background,
@@ -37,18 +49,8 @@ export function toKittyColors(skin: SkinConfig): KittyColors {
     selection_background: skin.colors.accent,
     cursor: skin.colors.accent,
     cursor_text_color: skin.colors.background,
-    ansi: p
-      ? [p.black, p.red, p.green, p.yellow, p.blue, p.purple, p.cyan, p.white]
-      : [
-          skin.colors.background, // black
-          '#FF0000', // red
-          '#00FF00', // green
-          '#FFFF00', // yellow
-          '#0000FF', // blue
-          '#FF00FF', // magenta
-          '#00FFFF', // cyan
-          skin.colors.foreground, // white
-        ],
+    ansi: paletteToAnsi(resolvePalette(skin.colors)),
+    ...(extended && { extended }),
   };
 }
 
@@ -62,78 +64,57 @@ export function generateKittyConfig(skin: SkinConfig, options: Partial<KittyConf
     liveConfigReload: options.liveConfigReload ?? true,
   };
 
-  return `# Retro Skin: ${skin.name}
-# Generated by Retro Skins Platform
-
-# Basic colors
-foreground ${colors.foreground}
-background ${colors.background}
-
-# Selection colors
-selection_foreground ${colors.selection_foreground}
-selection_background ${colors.selection_background}
-
-# Cursor styling
-cursor ${colors.cursor}
-cursor_text_color ${colors.cursor_text_color}
-
-# ANSI color palette
-# Black
-color0 ${colors.ansi[0]}
-# Red
-color1 ${colors.ansi[1]}
-# Green
-color2 ${colors.ansi[2]}
-# Yellow
-color3 ${colors.ansi[3]}
-# Blue
-color4 ${colors.ansi[4]}
-# Magenta
-color5 ${colors.ansi[5]}
-# Cyan
-color6 ${colors.ansi[6]}
-# White
-color7 ${colors.ansi[7]}
-
-# Bright ANSI colors
-color8 #404040
-color9 #FF6666
-color10 #66FF66
-color11 #FFFF66
-color12 #6666FF
-color13 #FF66FF
-color14 #66FFFF
-color15 #FFFFFF
-
-# Window settings
-window_padding_width 2
-hide_window_decorations no
-
-# Cursor settings
-cursor_shape block
-cursor_blink interval
-
-# Visual effects (Kitty supports some advanced effects)
-# Note: CRT effects require external compositor like picom
-
-# Performance
-repaint_delay 10
-input_delay 3
-
-# Tab bar
-tab_bar_style fade
-tab_fade 0.5
-
-# Font settings (adjust for your system)
-# font_family JetBrainsMono Nerd Font
-# font_size 12
-`;
+  const ansi: ConfigTable = {};
+  const brights: ConfigTable = {};
+  colors.ansi.forEach((color, i) => { (i < 8 ? ansi : brights)[`color${i}`] = color; });
+  const extended: ConfigTable = {};
+  for (const [index, color] of Object.entries(colors.extended ?? {})) extended[`color${index}`] = color;
+
+  return emitKittyConf({
+    header: [`Retro Skin: ${skin.name}`, 'Generated by Retro Skins Platform'],
+    sections: [
+      { comment: 'Basic colors', path: [], entries: { foreground: colors.foreground, background: colors.background } },
+      {
+        comment: 'Selection colors',
+        path: [],
+        entries: { selection_foreground: colors.selection_foreground, selection_background: colors.selection_background },
+      },
+      { comment: 'Cursor styling', path: [], entries: { cursor: colors.cursor, cursor_text_color: colors.cursor_text_color } },
+      { comment: 'ANSI color palette (black, red, green, yellow, blue, magenta, cyan, white)', path: [], entries: ansi },
+      { comment: 'Bright ANSI colors', path: [], entries: brights },
+      ...(colors.extended ? [{ comment: '256-color palette (color cube and grayscale ramp)', path: [], entries: extended }] : []),
+      { comment: 'Window settings', path: [], entries: { window_padding_width: 2, hide_window_decorations: false } },
+      { comment: 'Cursor settings', path: [], entries: { cursor_shape: 'block', cursor_blink: 'interval' } },
+      {
+        comment: 'Visual effects (Kitty supports some advanced effects)\nNote: CRT effects require external compositor like picom',
+        path: [],
+        entries: {},
+      },
+      { comment: 'Performance', path: [], entries: { repaint_delay: 10, input_delay: 3 } },
+      { comment: 'Tab bar', path: [], entries: { tab_bar_style: 'fade', tab_fade: 0.5 } },
+      {
+        comment: 'Font settings (adjust for your system)\nfont_family JetBrainsMono Nerd Font\nfont_size 12',
+        path: [],
+        entries: {},
+      },
+    ],
+  });
 }
 
 /**
  * Kitty Adapter class
  */
-export class KittyAdapter {
+export class KittyAdapter implements TerminalAdapter<KittyConfig> {
+  readonly id = 'kitty';
+  readonly displayName = 'Kitty';
+  readonly fileExtension = '.conf';
+  readonly capabilities: TerminalCapabilities = {
+    paletteSize: 256,
+    shaders: false,
+    liveReload: false,
+    mergesExistingConfig: false,
+  };
+
   private config: KittyConfig;
   private currentSkin: SkinConfig | null = null;
   
@@ -141,16 +122,27 @@ export class KittyAdapter {
     this.config = {
       configDir: config.configDir || '~/.config/kitty',
       liveConfigReload: config.liveConfigReload ?? true,
+      backupEnabled: config.backupEnabled ?? true,
     };
   }
   
   /** Apply a skin to Kitty */
-  applySkin(skin: SkinConfig): void {
+  applySkin(skin: SkinConfig): InstallResult {
+    return this.install(skin);
+  }
+
+  /** Generate the Kitty config for a skin */
+  generate(skin: SkinConfig, options: Partial<KittyConfig> = {}): string {
+    return generateKittyConfig(skin, { ...this.config, ...options });
+  }
+
+  /** Write the config for a skin, backing up the file it replaces */
+  install(skin: SkinConfig, options: Partial<KittyConfig> = {}): InstallResult {
     this.currentSkin = skin;
-    const configContent = generateKittyConfig(skin, this.config);
+    const configContent = this.generate(skin, options);
     
     // Save to Kitty config file
-    this.saveConfig(configContent);
+    return this.saveConfig(configContent, { ...this.config, ...options });
   }
   
   /** Get current skin */
@@ -159,74 +151,46 @@ export class KittyAdapter {
   }
   
   /** Generate configuration file path */
-  private getConfigPath(): string {
-    return `${this.config.configDir}/retro_skin.conf`;
+  getConfigPath(options: Partial<KittyConfig> = {}): string {
+    return `${options.configDir || this.config.configDir}/retro_skin.conf`;
+  }
+
+  /** Format text as a kitty.conf comment */
+  comment(text: string): string {
+    return kittyComment(text);
+  }
+
+  /** Instructions for installing generated output by hand */
+  describeInstall(options: Partial<KittyConfig> = {}): string {
+    return `copy to ${this.getConfigPath(options)} and add "include retro_skin.conf" to kitty.conf`;
+  }
+  
+  /** Save configuration to file, backing up any file it replaces */
+  private saveConfig(configContent: string, config: KittyConfig): InstallResult {
+    return installConfigFile(expandConfigPath(this.getConfigPath(config)), configContent, {
+      backup: config.backupEnabled,
+    });
   }
   
-  /** Save configuration to file */
-  private saveConfig(configContent: string): void {
-    // This would write to the Kitty config directory
-    // In a real implementation, this would use fs.writeFile
-    console.log(`Would save to: ${this.getConfigPath()}`);
-    console.log('Config generated successfully');
+  /** Roll the config file back to its latest backup; returns it with the backup, or nothing without one */
+  restore(options: Partial<KittyConfig> = {}): InstallResult[] {
+    return restoreLatestInstall([expandConfigPath(this.getConfigPath(options))]);
   }
   
   /** List available skins */
   listSkins(): string[] {
-    return [
-      'phosphor',
-      'amber',
-      'lcd',
-      'cyber',
-      'terminal',
-    ];
+    return listPresetNames();
   }
   
   /** Switch to a preset skin */
   applyPresetSkin(presetName: string): boolean {
-    const skin = this.createPresetSkin(presetName);
+    const skin = getPresetSkin(presetName);
     if (skin) {
       this.applySkin(skin);
       return true;
     }
     return false;
   }
-  
-  /** Create a preset skin by name */
-  private createPresetSkin(presetName: string): SkinConfig | null {
-    const presets: Record<string, () => SkinConfig> = {
-      phosphor: () => ({
-        name: 'Phosphor CRT',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.4, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.6, params: { radius: 3, falloff: 0.5 } },
-        ],
-        colors: {
-          background: '#0D0208',
-          foreground: '#00FF41',
-          accent: '#008F11',
-          glow: '#00FF41',
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-      amber: () => ({
-        name: 'Amber Monochrome',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.3, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.5, params: { radius: 2, falloff: 0.6 } },
-        ],
-        colors: {
-          background: '#1A0F00',
-          foreground: '#FFB000',
-          accent: '#FF8C00',
-          glow: '#FFB000',
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-    };
-    
-    return presets[presetName]?.() || null;
-  }
 }
 
 /**
@@ -0,0 +1,108 @@
+/**
+ * Terminal Adapter Registry
+ *
+ * Common interface for terminal adapters plus the registry the CLI
+ * enumerates. Third-party packages can register adapters at runtime and
+ * they show up everywhere a terminal can be chosen.
+ */
+
+import type { SkinConfig } from '../skins.js';
+import type { InstallResult } from '../install.js';
+
+export interface TerminalCapabilities {
+  /** Number of palette slots the config can theme */
+  paletteSize: 16 | 256;
+  /** Terminal can run custom shaders for CRT effects */
+  shaders: boolean;
+  /** Terminal picks up config changes without a restart */
+  liveReload: boolean;
+  /** generate() can merge the skin into an existing config (see AdapterOptions.existingConfig) */
+  mergesExistingConfig: boolean;
+}
+
+/** Options every adapter understands; adapters add their own on top */
+export interface AdapterOptions {
+  /** Existing config file contents to merge the skin into */
+  existingConfig?: string;
+  /** Path the config loads the skin's shader from (adapters with shaders) */
+  shaderPath?: string;
+}
+
+/**
+ * Interface implemented by every terminal adapter
+ */
+export interface TerminalAdapter<TOptions extends object = object> {
+  /** Identifier used on the command line, e.g. `kitty` */
+  readonly id: string;
+  /** Human-readable terminal name */
+  readonly displayName: string;
+  /** Extension of the generated config file, including the dot */
+  readonly fileExtension: string;
+  /** What the terminal supports */
+  readonly capabilities: TerminalCapabilities;
+  /** Path the config is installed to (may contain `~` or `%VAR%`) */
+  getConfigPath(options?: Partial<TOptions>): string;
+  /** Generate the config for a skin */
+  generate(skin: SkinConfig, options?: Partial<TOptions> & AdapterOptions): string;
+  /** Generate the shader the config loads, or null if the skin needs none (adapters with shaders) */
+  generateShader?(skin: SkinConfig): string | null;
+  /** Write the config to getConfigPath(), backing up the file it replaces */
+  install(skin: SkinConfig, options?: Partial<TOptions>): InstallResult;
+  /** Roll back the files the latest install backed up; returns each restored file with its backup */
+  restore(options?: Partial<TOptions>): InstallResult[];
+  /** Format text as a comment in the config format */
+  comment(text: string): string;
+  /** One-line instructions for installing generated output by hand */
+  describeInstall(options?: Partial<TOptions>): string;
+}
+
+/**
+ * Error raised when an adapter cannot be registered
+ */
+export class AdapterRegistrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdapterRegistrationError';
+  }
+}
+
+// Shared through globalThis so plugins that bundle their own copy of this
+// package still register into the registry the CLI reads.
+const REGISTRY_KEY = Symbol.for('retro-skins-platform.adapters');
+const registry: Map<string, TerminalAdapter> =
+  ((globalThis as Record<symbol, unknown>)[REGISTRY_KEY] as Map<string, TerminalAdapter> | undefined)
+  ?? ((globalThis as Record<symbol, unknown>)[REGISTRY_KEY] = new Map());
+
+/**
+ * Register a terminal adapter. Throws if the id is taken, unless `replace` is set.
+ */
+export function registerAdapter(adapter: TerminalAdapter, options: { replace?: boolean } = {}): void {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(adapter.id)) {
+    throw new AdapterRegistrationError(`Invalid adapter id "${adapter.id}" (use lowercase letters, digits and dashes)`);
+  }
+  if (registry.has(adapter.id) && !options.replace) {
+    throw new AdapterRegistrationError(`An adapter for "${adapter.id}" is already registered`);
+  }
+  registry.set(adapter.id, adapter);
+}
+
+/**
+ * Remove a terminal adapter; returns whether one was registered
+ */
+export function unregisterAdapter(id: string): boolean {
+  return registry.delete(id);
+}
+
+/**
+ * Look up an adapter by id (case-insensitive)
+ */
+export function getAdapter(id: string): TerminalAdapter | undefined {
+  return registry.get(id.toLowerCase());
+}
+
+/**
+ * List registered adapters in registration order
+ */
+export function listAdapters(): TerminalAdapter[] {
+  return [...registry.values()];
+}
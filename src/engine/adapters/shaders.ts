@@ -0,0 +1,90 @@
+/**
+ * Shader Effects
+ *
+ * What the generated terminal shaders (Windows Terminal HLSL, Ghostty GLSL)
+ * take from a skin: which effects are on, the order they run in, and the
+ * constants each one bakes in. The formulas follow the software renderer
+ * (see raster/effects.ts) so a snapshot and the terminal look alike.
+ */
+
+import { findActiveEffect } from '../skins.js';
+import type { EffectType, SkinConfig, VisualEffect } from '../skins.js';
+import { parseHexColor } from '../color.js';
+import type { Rgb } from '../color.js';
+
+/** A constant baked into a shader: a float or an RGB vector */
+export interface ShaderConstant {
+  name: string;
+  value: number | Rgb;
+}
+
+/** Effects a shader can implement, in the order they are applied */
+export const SHADER_EFFECTS: readonly EffectType[] = [
+  'crt-curvature',
+  'color-shift',
+  'phosphor-glow',
+  'crt-scanlines',
+  'noise',
+  'crt-flicker',
+  'vignette',
+];
+
+/**
+ * The skin's switched-on effects among `supported`, in SHADER_EFFECTS order
+ */
+export function shaderEffects(skin: SkinConfig, supported: readonly EffectType[]): VisualEffect[] {
+  return SHADER_EFFECTS
+    .filter(type => supported.includes(type))
+    .map(type => findActiveEffect(skin, type))
+    .filter((effect): effect is VisualEffect => effect !== undefined);
+}
+
+/**
+ * The constants for one effect. Sizes stay in font pixels; the color-shift
+ * `shift` is a fraction of the screen width at full intensity.
+ */
+export function shaderConstants(effect: VisualEffect, skin: SkinConfig): ShaderConstant[] {
+  const intensity = Math.min(1, effect.intensity);
+  switch (effect.type) {
+    case 'crt-curvature':
+      return [{ name: 'CURVATURE', value: intensity * 0.25 / Math.max(0.1, effect.params.radius ?? 1) }];
+    case 'color-shift':
+      return [{ name: 'COLOR_SHIFT', value: (effect.params.shift ?? 0.01) * intensity }];
+    case 'phosphor-glow': {
+      const falloff = Math.min(1, Math.max(0, effect.params.falloff ?? 0.5));
+      return [
+        { name: 'GLOW_RADIUS', value: effect.params.radius ?? 2 },
+        { name: 'GLOW_STRENGTH', value: intensity * (1 - falloff * 0.5) * 0.6 },
+        { name: 'GLOW_COLOR', value: parseHexColor(skin.colors.glow) ?? parseHexColor(skin.colors.foreground) ?? { r: 1, g: 1, b: 1 } },
+      ];
+    }
+    case 'crt-scanlines':
+      return [
+        { name: 'SCANLINE_SPACING', value: effect.params.lineSpacing ?? 2 },
+        { name: 'SCANLINE_SHADE', value: 1 - intensity * 0.6 },
+      ];
+    case 'noise':
+      return [{ name: 'NOISE_AMOUNT', value: effect.params.amount ?? intensity * 0.2 }];
+    case 'crt-flicker':
+      return [
+        { name: 'FLICKER_FREQUENCY', value: effect.params.frequency ?? 1 },
+        { name: 'FLICKER_STRENGTH', value: intensity * 0.1 },
+      ];
+    case 'vignette':
+      return [
+        { name: 'VIGNETTE_START', value: Math.min(0.95, (effect.params.radius ?? 0.8) * (1 - intensity * 0.5)) },
+        { name: 'VIGNETTE_STRENGTH', value: intensity * 0.8 },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * A float literal with at most four decimals, always with a decimal point
+ * (the same in HLSL and GLSL)
+ */
+export function shaderFloat(value: number): string {
+  const text = String(Math.round(value * 10000) / 10000);
+  return text.includes('.') ? text : `${text}.0`;
+}
@@ -6,11 +6,22 @@
  */
 
 import type { SkinConfig } from '../../skins.js';
+import { getPresetSkin, listPresetNames } from '../../catalog.js';
+import { paletteToAnsi, resolveExtendedPalette, resolvePalette } from '../../palette.js';
+import type { ExtendedColors } from '../../palette.js';
+import { skinVariants } from '../../variants.js';
+import { luaComment, luaValue } from '../../serializers/index.js';
+import type { ConfigTable } from '../../serializers/index.js';
+import { expandConfigPath, installConfigFile, restoreLatestInstall } from '../../install.js';
+import type { InstallResult } from '../../install.js';
+import type { TerminalAdapter, TerminalCapabilities } from '../registry.js';
 
 // Define WezTermColors type locally since it's not exported
 type WezTermColors = {
   ansi: string[];
   brights: string[];
+  /** Colors 16-255, when the skin themes them */
+  indexed?: ExtendedColors;
 };
 
 export interface WezTermConfig {
@@ -20,6 +31,8 @@ export interface WezTermConfig {
   enableAnimations: boolean;
   /** Animation FPS */
   animationFps: number;
+  /** Whether to keep a timestamped backup of overwritten files */
+  backupEnabled: boolean;
 }
 
 export interface WezTermSkinData {
@@ -37,34 +50,12 @@ export interface WezTermSkinData {
  * Convert our skin config to WezTerm format
  */
 export function toWezTermColors(skin: SkinConfig): WezTermSkinData {
-  const p = skin.colors.palette;
-
-  // Use palette if available, otherwise use defaults
+  const ansi = paletteToAnsi(resolvePalette(skin.colors));
+  const indexed = resolveExtendedPalette(skin.colors);
   const weztermColors: WezTermColors = {
-    ansi: p
-      ? [p.black, p.red, p.green, p.yellow, p.blue, p.purple, p.cyan, p.white]
-      : [
-          skin.colors.background, // black
-          '#FF0000', // red
-          '#00FF00', // green
-          '#FFFF00', // yellow
-          '#0000FF', // blue
-          '#FF00FF', // magenta
-          '#00FFFF', // cyan
-          skin.colors.foreground, // white
-        ],
-    brights: p
-      ? [p.brightBlack, p.brightRed, p.brightGreen, p.brightYellow, p.brightBlue, p.brightPurple, p.brightCyan, p.brightWhite]
-      : [
-          '#404040',
-          '#FF6666',
-          '#66FF66',
-          '#FFFF66',
-          '#6666FF',
-          '#FF66FF',
-          '#66FFFF',
-          '#FFFFFF',
-        ],
+    ansi: ansi.slice(0, 8),
+    brights: ansi.slice(8),
+    ...(indexed && { indexed }),
   };
   
   return {
@@ -79,49 +70,62 @@ export function toWezTermColors(skin: SkinConfig): WezTermSkinData {
   };
 }
 
+/**
+ * Build the WezTerm `colors` table for a skin
+ */
+function weztermColorTable(skin: SkinConfig): ConfigTable {
+  const wezColors = toWezTermColors(skin);
+  return {
+    ansi: wezColors.colors.ansi,
+    brights: wezColors.colors.brights,
+    indexed: wezColors.colors.indexed,
+    foreground: wezColors.foreground,
+    background: wezColors.background,
+    cursor_bg: wezColors.cursor_bg,
+    cursor_fg: wezColors.cursor_fg,
+    selection_bg: wezColors.selection_bg,
+    selection_fg: wezColors.selection_fg,
+    tab_bar: {
+      background: skin.colors.background,
+      active_tab: {
+        bg_color: skin.colors.accent,
+        fg_color: skin.colors.foreground,
+      },
+      inactive_tab: {
+        bg_color: skin.colors.background,
+        fg_color: skin.colors.foreground,
+      },
+    },
+    scrollbar_thumb: skin.colors.accent,
+  };
+}
+
 /**
  * Generate WezTerm Lua configuration for a skin
  */
 export function generateWezTermLua(skin: SkinConfig, options: Partial<WezTermConfig> = {}): string {
-  const wezColors = toWezTermColors(skin);
   const config = {
     configDir: options.configDir || '~/.config/wezterm',
     enableAnimations: options.enableAnimations ?? true,
     animationFps: options.animationFps || 60,
   };
 
-  return `-- Retro Skin: ${skin.name}
+  const variants = skinVariants(skin);
+  const colorsLua = variants
+    ? `-- Light and dark variants follow the system appearance
+local variants = ${luaValue({ light: weztermColorTable(variants.light), dark: weztermColorTable(variants.dark) })}
+
+local appearance = wezterm.gui and wezterm.gui.get_appearance() or 'Dark'
+local colors = appearance:find('Dark') and variants.dark or variants.light`
+    : `local colors = ${luaValue(weztermColorTable(skin))}`;
+
+  return `${luaComment(`Retro Skin: ${skin.name}`)}
 -- Generated by Retro Skins Platform
 
 local wezterm = require 'wezterm'
 
--- Color scheme
-local colors = {
-  ansi = { ${wezColors.colors.ansi.map(c => `'${c}'`).join(', ')} },
-  brights = { ${wezColors.colors.brights.map(c => `'${c}'`).join(', ')} },
-  foreground = '${wezColors.foreground}',
-  background = '${wezColors.background}',
-  cursor_bg = '${wezColors.cursor_bg}',
-  cursor_fg = '${wezColors.cursor_fg}',
-  selection_bg = '${wezColors.selection_bg}',
-  selection_fg = '${wezColors.selection_fg}',
-  
-  -- Retro glow effect colors
-  tab_bar = {
-    background = '${skin.colors.background}',
-    active_tab = {
-      bg_color = '${skin.colors.accent}',
-      fg_color = '${skin.colors.foreground}',
-    },
-    inactive_tab = {
-      bg_color = '${skin.colors.background}',
-      fg_color = '${skin.colors.foreground}',
-    },
-  },
-  
-  -- Scrollbar styling
-  scrollbar_thumb = '${skin.colors.accent}',
-}
+-- Color scheme (tab bar and scrollbar follow the skin's accent)
+${colorsLua}
 
 -- Apply colors
 wezterm.on('configure-colors', function(window, pane)
@@ -136,7 +140,7 @@ wezterm.on('format-window-title', function(tab, tabs, panes, config)
 end)
 
 -- Enable animations if supported
-if ${config.enableAnimations} then
+if ${luaValue(config.enableAnimations)} then
   wezterm.on('update-status', function(window, pane)
     -- Animation hooks for future animated backgrounds
   end)
@@ -150,7 +154,7 @@ wezterm.on('keybinding-event', function(window, pane, event)
 end)
 
 -- Performance settings
-config.animation_fps = ${config.animationFps}
+config.animation_fps = ${luaValue(config.animationFps)}
 config.enable_tab_bar = true
 config.use_fancy_tab_bar = true
 
@@ -161,7 +165,17 @@ return config
 /**
  * WezTerm Adapter class
  */
-export class WezTermAdapter {
+export class WezTermAdapter implements TerminalAdapter<WezTermConfig> {
+  readonly id = 'wezterm';
+  readonly displayName = 'WezTerm';
+  readonly fileExtension = '.lua';
+  readonly capabilities: TerminalCapabilities = {
+    paletteSize: 256,
+    shaders: false,
+    liveReload: true,
+    mergesExistingConfig: false,
+  };
+
   private config: WezTermConfig;
   private currentSkin: SkinConfig | null = null;
   
@@ -170,16 +184,27 @@ export class WezTermAdapter {
       configDir: config.configDir || '~/.config/wezterm',
       enableAnimations: config.enableAnimations ?? true,
       animationFps: config.animationFps || 60,
+      backupEnabled: config.backupEnabled ?? true,
     };
   }
   
   /** Apply a skin to WezTerm */
-  applySkin(skin: SkinConfig): void {
+  applySkin(skin: SkinConfig): InstallResult {
+    return this.install(skin);
+  }
+
+  /** Generate the WezTerm Lua config for a skin */
+  generate(skin: SkinConfig, options: Partial<WezTermConfig> = {}): string {
+    return generateWezTermLua(skin, { ...this.config, ...options });
+  }
+
+  /** Write the config for a skin, backing up the file it replaces */
+  install(skin: SkinConfig, options: Partial<WezTermConfig> = {}): InstallResult {
     this.currentSkin = skin;
-    const luaConfig = generateWezTermLua(skin, this.config);
+    const luaConfig = this.generate(skin, options);
     
     // Save to WezTerm config file
-    this.saveConfig(luaConfig);
+    return this.saveConfig(luaConfig, { ...this.config, ...options });
   }
   
   /** Get current skin */
@@ -188,74 +213,46 @@ export class WezTermAdapter {
   }
   
   /** Generate configuration file path */
-  private getConfigPath(): string {
-    return `${this.config.configDir}/retro_skin.lua`;
+  getConfigPath(options: Partial<WezTermConfig> = {}): string {
+    return `${options.configDir || this.config.configDir}/retro_skin.lua`;
+  }
+
+  /** Format text as a Lua comment */
+  comment(text: string): string {
+    return luaComment(text);
+  }
+
+  /** Instructions for installing generated output by hand */
+  describeInstall(options: Partial<WezTermConfig> = {}): string {
+    return `copy to ${this.getConfigPath(options)}`;
+  }
+  
+  /** Save configuration to file, backing up any file it replaces */
+  private saveConfig(luaContent: string, config: WezTermConfig): InstallResult {
+    return installConfigFile(expandConfigPath(this.getConfigPath(config)), luaContent, {
+      backup: config.backupEnabled,
+    });
   }
   
-  /** Save configuration to file */
-  private saveConfig(luaContent: string): void {
-    // This would write to the WezTerm config directory
-    // In a real implementation, this would use fs.writeFile
-    console.log(`Would save to: ${this.getConfigPath()}`);
-    console.log('Config generated successfully');
+  /** Roll the config file back to its latest backup; returns it with the backup, or nothing without one */
+  restore(options: Partial<WezTermConfig> = {}): InstallResult[] {
+    return restoreLatestInstall([expandConfigPath(this.getConfigPath(options))]);
   }
   
   /** List available skins */
   listSkins(): string[] {
-    return [
-      'phosphor',
-      'amber',
-      'lcd',
-      'cyber',
-      'terminal',
-    ];
+    return listPresetNames();
   }
   
   /** Switch to a preset skin */
   applyPresetSkin(presetName: string): boolean {
-    const skin = this.createPresetSkin(presetName);
+    const skin = getPresetSkin(presetName);
     if (skin) {
       this.applySkin(skin);
       return true;
     }
     return false;
   }
-  
-  /** Create a preset skin by name */
-  private createPresetSkin(presetName: string): SkinConfig | null {
-    const presets: Record<string, () => SkinConfig> = {
-      phosphor: () => ({
-        name: 'Phosphor CRT',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.4, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.6, params: { radius: 3, falloff: 0.5 } },
-        ],
-        colors: {
-          background: '#0D0208',
-          foreground: '#00FF41',
-          accent: '#008F11',
-          glow: '#00FF41',
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-      amber: () => ({
-        name: 'Amber Monochrome',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.3, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.5, params: { radius: 2, falloff: 0.6 } },
-        ],
-        colors: {
-          background: '#1A0F00',
-          foreground: '#FFB000',
-          accent: '#FF8C00',
-          glow: '#FFB000',
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-    };
-    
-    return presets[presetName]?.() || null;
-  }
 }
 
 /**
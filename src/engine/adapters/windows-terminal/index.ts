@@ -5,13 +5,37 @@
  * Windows Terminal uses JSON configuration files (settings.json).
  */
 
+import fs from 'fs';
+import { applyEdits, modify, parse as parseJsonc } from 'jsonc-parser';
+import type { FormattingOptions, JSONPath, ParseError } from 'jsonc-parser';
 import type { SkinConfig } from '../../skins.js';
+import { getPresetSkin, listPresetNames } from '../../catalog.js';
+import { resolvePalette } from '../../palette.js';
+import { skinVariants } from '../../variants.js';
+import { emitJsonc, jsonComment } from '../../serializers/index.js';
+import { expandConfigPath, installConfigFiles, listBackedUpFiles, restoreLatestInstall } from '../../install.js';
+import type { ConfigFile, InstallResult } from '../../install.js';
+import type { AdapterOptions, TerminalAdapter, TerminalCapabilities } from '../registry.js';
+import { generateWindowsTerminalShader, hasWindowsTerminalShader } from './shader.js';
+
+export * from './shader.js';
+
+const DEFAULT_SETTINGS_PATH = '%LOCALAPPDATA%/Packages/Microsoft.WindowsTerminal_8wekyb9d8bbwe/LocalState/settings.json';
+
+/** Profile setting that loads a custom pixel shader */
+const PIXEL_SHADER_KEY = 'experimental.pixelShaderPath';
 
 export interface WindowsTerminalConfig {
   /** Windows Terminal settings.json path */
   configPath: string;
   /** Whether to auto-save backup */
   backupEnabled: boolean;
+  /** Set the scheme as the default for all profiles when applying */
+  applyToDefaults: boolean;
+  /** Profiles (by name or GUID) that should use the scheme when applying */
+  profiles: string[];
+  /** Where the CRT pixel shader is written and loaded from (default retro-skins/<scheme>.hlsl beside settings.json) */
+  shaderPath?: string;
 }
 
 export interface WindowsTerminalColorScheme {
@@ -42,160 +66,286 @@ export interface WindowsTerminalColorScheme {
  * Convert our skin config to Windows Terminal format
  */
 export function toWindowsTerminalColors(skin: SkinConfig): WindowsTerminalColorScheme {
-  // Use custom palette if provided
-  if (skin.colors.palette) {
-    const p = skin.colors.palette;
-    return {
-      name: skin.name.replace(/\s+/g, ''),
-      background: skin.colors.background,
-      foreground: skin.colors.foreground,
-      selectionBackground: skin.colors.accent,
-      cursorColor: skin.colors.accent,
-      black: p.black,
-      red: p.red,
-      green: p.green,
-      yellow: p.yellow,
-      blue: p.blue,
-      magenta: p.purple,
-      cyan: p.cyan,
-      white: p.white,
-      brightBlack: p.brightBlack,
-      brightRed: p.brightRed,
-      brightGreen: p.brightGreen,
-      brightYellow: p.brightYellow,
-      brightBlue: p.brightBlue,
-      brightMagenta: p.brightPurple,
-      brightCyan: p.brightCyan,
-      brightWhite: p.brightWhite,
-    };
-  }
-
-  // Auto-generate palette from base colors
+  const p = resolvePalette(skin.colors);
   return {
     name: skin.name.replace(/\s+/g, ''),
     background: skin.colors.background,
     foreground: skin.colors.foreground,
-    selectionBackground: skin.colors.accent + '80',
+    selectionBackground: skin.colors.accent,
     cursorColor: skin.colors.accent,
-    black: skin.colors.background,
-    red: '#FF0000',
-    green: '#00FF00',
-    yellow: '#FFFF00',
-    blue: '#0000FF',
-    magenta: '#FF00FF',
-    cyan: '#00FFFF',
-    white: skin.colors.foreground,
-    brightBlack: '#404040',
-    brightRed: '#FF6666',
-    brightGreen: '#66FF66',
-    brightYellow: '#FFFF66',
-    brightBlue: '#6666FF',
-    brightMagenta: '#FF66FF',
-    brightCyan: '#66FFFF',
-    brightWhite: '#FFFFFF',
+    black: p.black,
+    red: p.red,
+    green: p.green,
+    yellow: p.yellow,
+    blue: p.blue,
+    magenta: p.purple,
+    cyan: p.cyan,
+    white: p.white,
+    brightBlack: p.brightBlack,
+    brightRed: p.brightRed,
+    brightGreen: p.brightGreen,
+    brightYellow: p.brightYellow,
+    brightBlue: p.brightBlue,
+    brightMagenta: p.brightPurple,
+    brightCyan: p.brightCyan,
+    brightWhite: p.brightWhite,
   };
 }
 
 /**
- * Generate Windows Terminal JSON configuration for a skin
+ * Generate Windows Terminal JSON configuration for a skin. The pixel
+ * shader is only referenced when options.shaderPath says where it was written.
  */
 export function generateWindowsTerminalJson(skin: SkinConfig, options: Partial<WindowsTerminalConfig> = {}): string {
+  return emitJsonc([`Retro Skin: ${skin.name}`, 'Generated by Retro Skins Platform'], {
+    $schema: 'https://aka.ms/terminal-profiles-schema',
+    schemes: toWindowsTerminalSchemes(skin),
+    profiles: {
+      defaults: {
+        colorScheme: windowsTerminalSchemeRef(skin),
+        [PIXEL_SHADER_KEY]: hasWindowsTerminalShader(skin) ? options.shaderPath : undefined,
+      },
+    },
+  });
+}
+
+/**
+ * Where a skin's pixel shader lives: options.shaderPath, or a
+ * retro-skins folder beside settings.json. Windows Terminal expands
+ * environment variables in the path.
+ */
+export function windowsTerminalShaderPath(skin: SkinConfig, options: Partial<WindowsTerminalConfig> = {}): string {
+  return options.shaderPath || `${shaderDir(options)}/${toWindowsTerminalColors(skin).name}.hlsl`;
+}
+
+/** Directory the pixel shaders are written to */
+function shaderDir(options: Partial<WindowsTerminalConfig>): string {
+  const file = options.shaderPath || options.configPath || DEFAULT_SETTINGS_PATH;
+  const dir = file.replace(/[\\/][^\\/]*$/, '');
+  return options.shaderPath ? dir : `${dir}/retro-skins`;
+}
+
+/**
+ * The `schemes` entries for a skin: one, or a light and a dark one for skins with variants
+ */
+export function toWindowsTerminalSchemes(skin: SkinConfig): Array<Record<string, string>> {
+  const variants = skinVariants(skin);
+  return variants
+    ? [toWindowsTerminalSchemeJson(variants.light), toWindowsTerminalSchemeJson(variants.dark)]
+    : [toWindowsTerminalSchemeJson(skin)];
+}
+
+/**
+ * The value for a profile's `colorScheme`: a scheme name, or per-theme
+ * names that follow the Windows app theme for skins with variants
+ */
+export function windowsTerminalSchemeRef(skin: SkinConfig): string | { light: string; dark: string } {
+  const variants = skinVariants(skin);
+  if (!variants) return toWindowsTerminalColors(skin).name;
+  return { light: toWindowsTerminalColors(variants.light).name, dark: toWindowsTerminalColors(variants.dark).name };
+}
+
+/**
+ * Build the `schemes` entry Windows Terminal expects for a skin
+ */
+export function toWindowsTerminalSchemeJson(skin: SkinConfig): Record<string, string> {
   const colors = toWindowsTerminalColors(skin);
-  const config = {
-    configPath: options.configPath || '%LOCALAPPDATA%/Packages/Microsoft.WindowsTerminal_8wekyb9d8bbwe/LocalState/settings.json',
-    backupEnabled: options.backupEnabled ?? true,
+  return {
+    name: colors.name,
+    background: colors.background,
+    foreground: colors.foreground,
+    selectionBackground: colors.selectionBackground,
+    cursorColor: colors.cursorColor,
+    black: colors.black,
+    red: colors.red,
+    green: colors.green,
+    yellow: colors.yellow,
+    blue: colors.blue,
+    purple: colors.magenta,
+    cyan: colors.cyan,
+    white: colors.white,
+    brightBlack: colors.brightBlack,
+    brightRed: colors.brightRed,
+    brightGreen: colors.brightGreen,
+    brightYellow: colors.brightYellow,
+    brightBlue: colors.brightBlue,
+    brightPurple: colors.brightMagenta,
+    brightCyan: colors.brightCyan,
+    brightWhite: colors.brightWhite,
+  };
+}
+
+export interface WindowsTerminalMergeOptions {
+  /** Set the scheme as `colorScheme` on profiles.defaults */
+  applyToDefaults: boolean;
+  /** Profiles (by name or GUID) that should use the scheme */
+  profiles: string[];
+  /** Pixel shader path for those profiles, where the shader was written (see windowsTerminalShaderPath) */
+  shaderPath: string;
+}
+
+/**
+ * Merge a skin into an existing settings.json (JSONC).
+ *
+ * The skin's schemes (see toWindowsTerminalSchemes) are inserted into
+ * `schemes` or replace existing ones of the same name, and profiles that
+ * get the scheme also get the skin's pixel shader when a shaderPath is
+ * given (or lose one installed for a previous skin). Edits are applied in place so comments, key order
+ * and unrelated settings are preserved.
+ */
+export function mergeWindowsTerminalSettings(
+  settingsSource: string,
+  skin: SkinConfig,
+  options: Partial<WindowsTerminalMergeOptions> = {}
+): string {
+  const source = settingsSource.trim() === '' ? '{}' : settingsSource;
+  const errors: ParseError[] = [];
+  const settings: unknown = parseJsonc(source, errors, { allowTrailingComma: true });
+  if (errors.length > 0 || !isObject(settings)) {
+    const offset = errors[0]?.offset ?? 0;
+    throw new Error(`settings.json is not valid JSONC near offset ${offset}`);
+  }
+
+  const schemeRef = windowsTerminalSchemeRef(skin);
+  const formatting = detectFormatting(source);
+  let text = source;
+  const edit = (path: JSONPath, value: unknown, isArrayInsertion = false) => {
+    text = applyEdits(text, modify(text, path, value, { formattingOptions: formatting, isArrayInsertion }));
   };
 
-  return `// Retro Skin: ${skin.name}
-// Generated by Retro Skins Platform
-
-{
-  "$schema": "https://aka.ms/terminal-profiles-schema",
-  "schemes": [
-    {
-      "name": "${colors.name}",
-      "background": "${colors.background}",
-      "foreground": "${colors.foreground}",
-      "selectionBackground": "${colors.selectionBackground}",
-      "cursorColor": "${colors.cursorColor}",
-      "black": "${colors.black}",
-      "red": "${colors.red}",
-      "green": "${colors.green}",
-      "yellow": "${colors.yellow}",
-      "blue": "${colors.blue}",
-      "purple": "${colors.magenta}",
-      "cyan": "${colors.cyan}",
-      "white": "${colors.white}",
-      "brightBlack": "${colors.brightBlack}",
-      "brightRed": "${colors.brightRed}",
-      "brightGreen": "${colors.brightGreen}",
-      "brightYellow": "${colors.brightYellow}",
-      "brightBlue": "${colors.brightBlue}",
-      "brightPurple": "${colors.brightMagenta}",
-      "brightCyan": "${colors.brightCyan}",
-      "brightWhite": "${colors.brightWhite}"
+  const schemes: unknown[] = Array.isArray(settings.schemes) ? [...settings.schemes] : [];
+  if (!Array.isArray(settings.schemes)) edit(['schemes'], []);
+  for (const scheme of toWindowsTerminalSchemes(skin)) {
+    const index = schemes.findIndex(s => isObject(s) && s.name === scheme.name);
+    if (index >= 0) {
+      edit(['schemes', index], scheme);
+    } else {
+      edit(['schemes', schemes.length], scheme, true);
+      schemes.push(scheme);
     }
-  ],
-  "profiles": {
-    "defaults": {
-      "colorScheme": "${colors.name}"
+  }
+
+  const shaderPath = hasWindowsTerminalShader(skin) ? options.shaderPath : undefined;
+  const applyTo = (path: JSONPath, profile: unknown) => {
+    edit([...path, 'colorScheme'], schemeRef);
+    if (shaderPath !== undefined) {
+      edit([...path, PIXEL_SHADER_KEY], shaderPath);
+    } else if (isObject(profile) && isRetroSkinsShader(profile[PIXEL_SHADER_KEY])) {
+      edit([...path, PIXEL_SHADER_KEY], undefined);
+    }
+  };
+
+  const profiles = settings.profiles;
+  if (options.applyToDefaults ?? true) {
+    if (Array.isArray(profiles)) {
+      throw new Error('settings.json uses the legacy "profiles" array, which has no defaults; select profiles instead');
     }
+    applyTo(['profiles', 'defaults'], isObject(profiles) ? profiles.defaults : undefined);
   }
-}`;
+
+  const list: unknown[] = Array.isArray(profiles) ? profiles
+    : isObject(profiles) && Array.isArray(profiles.list) ? profiles.list
+    : [];
+  const listPath: JSONPath = Array.isArray(profiles) ? ['profiles'] : ['profiles', 'list'];
+  for (const selector of options.profiles ?? []) {
+    const index = list.findIndex(p =>
+      isObject(p) && (p.name === selector || normalizeGuid(p.guid) === normalizeGuid(selector))
+    );
+    if (index < 0) throw new Error(`Profile not found in settings.json: ${selector}`);
+    applyTo([...listPath, index], list[index]);
+  }
+
+  return text;
 }
 
-/**
- * Generate a PowerShell script to apply the skin to Windows Terminal
- */
-export function generatePowerShellApplyScript(skin: SkinConfig, schemeName: string): string {
-  return `@echo off
-REM Retro Skin Application Script for Windows Terminal
-REM Generated by Retro Skins Platform
-REM Run this script as Administrator
-
-echo Applying "${skin.name}" skin to Windows Terminal...
-
-REM Create backup of original settings.json
-if exist "%LOCALAPPDATA%\\Packages\\Microsoft.WindowsTerminal_8wekyb9d8bbwe\\LocalState\\settings.json.bak" (
-    echo Backup already exists, skipping...
-) else (
-    copy "%LOCALAPPDATA%\\Packages\\Microsoft.WindowsTerminal_8wekyb9d8bbwe\\LocalState\\settings.json" "%LOCALAPPDATA%\\Packages\\Microsoft.WindowsTerminal_8wekyb9d8bbwe\\LocalState\\settings.json.bak"
-    echo Backup created at settings.json.bak
-)
-
-REM The color scheme has been added. To apply:
-REM 1. Open Windows Terminal Settings (Ctrl+,)
-REM 2. Go to Profiles > Defaults
-REM 3. Select Color scheme: "${schemeName}"
-REM 4. Or set "colorScheme": "${schemeName}" in your profile
-
-echo.
-echo Skin "${skin.name}" configuration generated!
-echo Apply it in Windows Terminal Settings > Profiles > Color scheme
-`;
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Whether a pixelShaderPath points at a shader generated for a skin */
+function isRetroSkinsShader(value: unknown): boolean {
+  return typeof value === 'string' && /[\\/]retro-skins[\\/][^\\/]+\.hlsl$/i.test(value);
+}
+
+/** Compare GUIDs case-insensitively, with or without braces */
+function normalizeGuid(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.replace(/[{}]/g, '').toLowerCase() : undefined;
+}
+
+/** Match the indentation and line endings already used in the file */
+function detectFormatting(text: string): FormattingOptions {
+  const indent = /^([ \t]+)\S/m.exec(text)?.[1] ?? '    ';
+  return {
+    insertSpaces: !indent.startsWith('\t'),
+    tabSize: indent.startsWith('\t') ? 1 : indent.length,
+    eol: text.includes('\r\n') ? '\r\n' : '\n',
+  };
 }
 
 /**
  * Windows Terminal Adapter class
  */
-export class WindowsTerminalAdapter {
+export class WindowsTerminalAdapter implements TerminalAdapter<WindowsTerminalConfig> {
+  readonly id = 'windows-terminal';
+  readonly displayName = 'Windows Terminal';
+  readonly fileExtension = '.json';
+  readonly capabilities: TerminalCapabilities = {
+    paletteSize: 16,
+    shaders: true,
+    liveReload: true,
+    mergesExistingConfig: true,
+  };
+
   private config: WindowsTerminalConfig;
   private currentSkin: SkinConfig | null = null;
   
   constructor(config: Partial<WindowsTerminalConfig> = {}) {
     this.config = {
-      configPath: config.configPath || '%LOCALAPPDATA%/Packages/Microsoft.WindowsTerminal_8wekyb9d8bbwe/LocalState/settings.json',
+      configPath: config.configPath || DEFAULT_SETTINGS_PATH,
       backupEnabled: config.backupEnabled ?? true,
+      applyToDefaults: config.applyToDefaults ?? true,
+      profiles: config.profiles ?? [],
     };
   }
   
-  /** Apply a skin to Windows Terminal */
-  applySkin(skin: SkinConfig): void {
+  /** Apply a skin to Windows Terminal by merging it into the existing settings.json */
+  applySkin(skin: SkinConfig): InstallResult {
+    return this.install(skin);
+  }
+
+  /**
+   * Generate settings for a skin: merged into existingConfig when given,
+   * otherwise a standalone settings document. Profiles load the pixel
+   * shader only when shaderPath says where it was written.
+   */
+  generate(skin: SkinConfig, options: Partial<WindowsTerminalConfig> & AdapterOptions = {}): string {
+    const config = { ...this.config, ...options };
+    return options.existingConfig !== undefined
+      ? mergeWindowsTerminalSettings(options.existingConfig, skin, config)
+      : generateWindowsTerminalJson(skin, config);
+  }
+
+  /** Generate the HLSL pixel shader for a skin's CRT effects */
+  generateShader(skin: SkinConfig): string | null {
+    return generateWindowsTerminalShader(skin);
+  }
+
+  /** Merge a skin into the installed settings.json and write its pixel shader, backing up each file it replaces */
+  install(skin: SkinConfig, options: Partial<WindowsTerminalConfig> = {}): InstallResult {
     this.currentSkin = skin;
-    const jsonConfig = generateWindowsTerminalJson(skin, this.config);
-    
-    // Save config
-    this.saveConfig(jsonConfig);
+    const config = { ...this.config, ...options };
+    const settingsPath = expandConfigPath(this.getConfigPath(config));
+    const existing = fs.existsSync(settingsPath) ? fs.readFileSync(settingsPath, 'utf-8') : '';
+    const shaderPath = windowsTerminalShaderPath(skin, config);
+    const jsonConfig = mergeWindowsTerminalSettings(existing, skin, { ...config, shaderPath });
+
+    // The shader goes first, so settings.json never points at a file that is not written yet
+    const files: ConfigFile[] = [];
+    const shader = generateWindowsTerminalShader(skin);
+    if (shader !== null) files.push({ path: expandConfigPath(shaderPath), content: shader });
+    files.push({ path: settingsPath, content: jsonConfig });
+    const results = installConfigFiles(files, { backup: config.backupEnabled });
+    return results[results.length - 1];
   }
   
   /** Get current skin */
@@ -204,235 +354,43 @@ export class WindowsTerminalAdapter {
   }
   
   /** Generate configuration file path */
-  getConfigPath(): string {
-    return this.config.configPath;
+  getConfigPath(options: Partial<WindowsTerminalConfig> = {}): string {
+    return options.configPath || this.config.configPath;
+  }
+
+  /** Format text as a JSONC comment */
+  comment(text: string): string {
+    return jsonComment(text);
+  }
+
+  /** Instructions for installing generated output by hand */
+  describeInstall(): string {
+    return 'add the scheme to "schemes" in settings.json and save the pixel shader from --shader (or use --install to do both)';
   }
   
-  /** Save configuration to file */
-  private saveConfig(jsonContent: string): void {
-    console.log(`Would save to: ${this.getConfigPath()}`);
-    console.log('Config generated successfully');
+  /** Roll settings.json and the pixel shaders back to before the latest install; returns the restored files */
+  restore(options: Partial<WindowsTerminalConfig> = {}): InstallResult[] {
+    const config = { ...this.config, ...options };
+    return restoreLatestInstall([
+      expandConfigPath(this.getConfigPath(config)),
+      ...listBackedUpFiles(expandConfigPath(shaderDir(config))),
+    ]);
   }
   
   /** List available skins */
   listSkins(): string[] {
-    return [
-      'phosphor',
-      'amber',
-      'lcd',
-      'cyber',
-      'terminal',
-      'puncore',
-    ];
+    return listPresetNames();
   }
   
   /** Switch to a preset skin */
   applyPresetSkin(presetName: string): boolean {
-    const skin = this.createPresetSkin(presetName);
+    const skin = getPresetSkin(presetName);
     if (skin) {
       this.applySkin(skin);
       return true;
     }
     return false;
   }
-  
-  /** Create a preset skin by name */
-  private createPresetSkin(presetName: string): SkinConfig | null {
-    const presets: Record<string, () => SkinConfig> = {
-      phosphor: () => ({
-        name: 'Phosphor CRT',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.4, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.6, params: { radius: 3, falloff: 0.5 } },
-        ],
-        colors: {
-          background: '#0D0208',
-          foreground: '#00FF41',
-          accent: '#008F11',
-          glow: '#00FF41',
-          palette: {
-            black: '#0D0208',
-            red: '#FF3333',
-            green: '#00FF41',
-            yellow: '#CCFF00',
-            blue: '#008F11',
-            purple: '#FF00FF',
-            cyan: '#00FFFF',
-            white: '#00FF41',
-            brightBlack: '#1A1A1A',
-            brightRed: '#FF6666',
-            brightGreen: '#66FF66',
-            brightYellow: '#FFFF66',
-            brightBlue: '#66FF66',
-            brightPurple: '#FF66FF',
-            brightCyan: '#66FFFF',
-            brightWhite: '#66FF66',
-          },
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-      amber: () => ({
-        name: 'Amber Monochrome',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.3, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.5, params: { radius: 2, falloff: 0.6 } },
-        ],
-        colors: {
-          background: '#1A0F00',
-          foreground: '#FFB000',
-          accent: '#FF8C00',
-          glow: '#FFC000',
-          palette: {
-            black: '#1A0F00',
-            red: '#FF6600',
-            green: '#FFB000',
-            yellow: '#FFCC00',
-            blue: '#994400',
-            purple: '#FF8800',
-            cyan: '#FFAA00',
-            white: '#FFB000',
-            brightBlack: '#332200',
-            brightRed: '#FF8800',
-            brightGreen: '#FFCD00',
-            brightYellow: '#FFDD66',
-            brightBlue: '#AA6600',
-            brightPurple: '#FF9900',
-            brightCyan: '#FFDD88',
-            brightWhite: '#FFEE99',
-          },
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-      lcd: () => ({
-        name: 'LCD Display',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.1, params: { lineSpacing: 1 } },
-        ],
-        colors: {
-          background: '#0A0A0A',
-          foreground: '#E8E8E8',
-          accent: '#0077CC',
-          glow: '#00DDAA',
-          palette: {
-            black: '#0A0A0A',
-            red: '#FF4444',
-            green: '#44FF44',
-            yellow: '#FFFF44',
-            blue: '#4444FF',
-            purple: '#FF44FF',
-            cyan: '#44FFFF',
-            white: '#E8E8E8',
-            brightBlack: '#333333',
-            brightRed: '#FF8888',
-            brightGreen: '#88FF88',
-            brightYellow: '#FFFF88',
-            brightBlue: '#8888FF',
-            brightPurple: '#FF88FF',
-            brightCyan: '#88FFFF',
-            brightWhite: '#FFFFFF',
-          },
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-      cyber: () => ({
-        name: 'Cyber Purple',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.35, params: { lineSpacing: 2 } },
-          { type: 'phosphor-glow', intensity: 0.55, params: { radius: 2.5, falloff: 0.5 } },
-        ],
-        colors: {
-          background: '#0D0D1A',
-          foreground: '#B388FF',
-          accent: '#7C4DFF',
-          glow: '#B388FF',
-          palette: {
-            black: '#0D0D1A',
-            red: '#FF0055',
-            green: '#00FF66',
-            yellow: '#FFFF00',
-            blue: '#0085FF',
-            purple: '#B388FF',
-            cyan: '#00FFFF',
-            white: '#E0E0FF',
-            brightBlack: '#2A2A3A',
-            brightRed: '#FF4488',
-            brightGreen: '#66FF99',
-            brightYellow: '#FFFF66',
-            brightBlue: '#6699FF',
-            brightPurple: '#D199FF',
-            brightCyan: '#99FFFF',
-            brightWhite: '#FFFFFF',
-          },
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-      terminal: () => ({
-        name: 'Classic Terminal',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.25, params: { lineSpacing: 2 } },
-        ],
-        colors: {
-          background: '#0C0C14',
-          foreground: '#4AF626',
-          accent: '#00AA00',
-          glow: '#00FF00',
-          palette: {
-            black: '#0C0C14',
-            red: '#CC3333',
-            green: '#4AF626',
-            yellow: '#CCFF00',
-            blue: '#0066CC',
-            purple: '#FF00FF',
-            cyan: '#00CCFF',
-            white: '#4AF626',
-            brightBlack: '#1A1A2A',
-            brightRed: '#FF6666',
-            brightGreen: '#88FF88',
-            brightYellow: '#FFFF66',
-            brightBlue: '#6699FF',
-            brightPurple: '#FF66FF',
-            brightCyan: '#66FFFF',
-            brightWhite: '#99FF99',
-          },
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-      puncore: () => ({
-        name: 'Puncore Neon',
-        effects: [
-          { type: 'crt-scanlines', intensity: 0.1, params: { lineSpacing: 1 } },
-          { type: 'phosphor-glow', intensity: 0.5, params: { radius: 3, falloff: 0.4 } },
-        ],
-        colors: {
-          background: '#575757',
-          foreground: '#858585',
-          accent: '#FF5700',
-          glow: '#8500FF',
-          palette: {
-            black: '#575757',
-            red: '#FF0085',
-            green: '#00FF00',
-            yellow: '#FF5700',
-            blue: '#0085FF',
-            purple: '#8500FF',
-            cyan: '#0085FF',
-            white: '#858585',
-            brightBlack: '#313131',
-            brightRed: '#FF0085',
-            brightGreen: '#00FF00',
-            brightYellow: '#FF8500',
-            brightBlue: '#0085FF',
-            brightPurple: '#8500FF',
-            brightCyan: '#00FFFF',
-            brightWhite: '#FFFFFF',
-          },
-        },
-        performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' },
-      }),
-    };
-    
-    return presets[presetName]?.() || null;
-  }
 }
 
 /**
@@ -0,0 +1,152 @@
+/**
+ * Windows Terminal Pixel Shader
+ *
+ * Composes a skin's static CRT effects into one HLSL pixel shader for
+ * `experimental.pixelShaderPath`: curvature, color shift, glow, scanlines,
+ * noise, then vignette, with the constants from adapters/shaders.ts.
+ */
+
+import type { EffectType, SkinConfig } from '../../skins.js';
+import { shaderConstants, shaderEffects, shaderFloat } from '../shaders.js';
+
+/** Effects the shader implements */
+export const WINDOWS_TERMINAL_SHADER_EFFECTS: readonly EffectType[] = [
+  'crt-curvature',
+  'color-shift',
+  'phosphor-glow',
+  'crt-scanlines',
+  'noise',
+  'vignette',
+];
+
+/**
+ * Whether a skin has any effect the pixel shader implements
+ */
+export function hasWindowsTerminalShader(skin: SkinConfig): boolean {
+  return shaderEffects(skin, WINDOWS_TERMINAL_SHADER_EFFECTS).length > 0;
+}
+
+/**
+ * Generate the HLSL pixel shader for a skin, or null when it has none of
+ * the shader effects. Sizes in effect params are in font pixels and follow
+ * the display scale.
+ */
+export function generateWindowsTerminalShader(skin: SkinConfig): string | null {
+  const effects = shaderEffects(skin, WINDOWS_TERMINAL_SHADER_EFFECTS);
+  if (effects.length === 0) return null;
+
+  const constants: string[] = [];
+  const warp: string[] = [];
+  const body: string[] = [];
+  const helpers: string[] = [];
+  for (const effect of effects) {
+    for (const { name, value } of shaderConstants(effect, skin)) {
+      constants.push(typeof value === 'number'
+        ? `static const float ${name} = ${shaderFloat(value)};`
+        : `static const float3 ${name} = float3(${[value.r, value.g, value.b].map(shaderFloat).join(', ')});`);
+    }
+    switch (effect.type) {
+      case 'crt-curvature':
+        warp.push(
+          '    // crt-curvature: barrel distortion, black outside the bent screen',
+          '    float2 centered = uv * 2.0 - 1.0;',
+          '    uv = (centered * (1.0 + CURVATURE * dot(centered, centered)) + 1.0) * 0.5;',
+          '    if (any(uv < 0.0) || any(uv > 1.0)) return float4(0.0, 0.0, 0.0, 1.0);',
+          '',
+        );
+        break;
+      case 'color-shift':
+        body.push(
+          '    // color-shift: red and blue sampled apart horizontally',
+          '    color.r = shaderTexture.Sample(samplerState, uv + float2(COLOR_SHIFT, 0.0)).r;',
+          '    color.b = shaderTexture.Sample(samplerState, uv - float2(COLOR_SHIFT, 0.0)).b;',
+          '',
+        );
+        break;
+      case 'phosphor-glow':
+        helpers.push(
+          '// Light above the background, as one channel',
+          'float Emission(float2 uv)',
+          '{',
+          '    float3 lit = max(shaderTexture.Sample(samplerState, uv).rgb - Background.rgb, 0.0);',
+          '    return max(lit.r, max(lit.g, lit.b));',
+          '}',
+          '',
+        );
+        body.push(
+          '    // phosphor-glow: gaussian-weighted bloom of the text in the glow color',
+          '    float2 glowStep = GLOW_RADIUS * Scale / Resolution * 0.5;',
+          '    float bloom = 0.0;',
+          '    float weights = 0.0;',
+          '    [unroll] for (int gy = -2; gy <= 2; gy++)',
+          '    {',
+          '        [unroll] for (int gx = -2; gx <= 2; gx++)',
+          '        {',
+          '            float weight = exp(-0.5 * (gx * gx + gy * gy));',
+          '            bloom += Emission(uv + float2(gx, gy) * glowStep) * weight;',
+          '            weights += weight;',
+          '        }',
+          '    }',
+          '    color.rgb += GLOW_COLOR * (bloom / weights) * GLOW_STRENGTH;',
+          '',
+        );
+        break;
+      case 'crt-scanlines':
+        body.push(
+          '    // crt-scanlines: every other band of rows darkened',
+          '    float period = max(2.0, round(SCANLINE_SPACING * Scale));',
+          '    if (fmod(pos.y, period) >= period * 0.5) color.rgb *= SCANLINE_SHADE;',
+          '',
+        );
+        break;
+      case 'noise':
+        body.push(
+          '    // noise: monochrome grain that changes every frame',
+          '    float grain = frac(sin(dot(pos.xy + frac(Time) * 61.0, float2(12.9898, 78.233))) * 43758.5453);',
+          '    color.rgb += (grain - 0.5) * 2.0 * NOISE_AMOUNT;',
+          '',
+        );
+        break;
+      case 'vignette':
+        body.push(
+          '    // vignette: corners darkened',
+          '    float edge = length(tex * 2.0 - 1.0) / sqrt(2.0);',
+          '    color.rgb *= 1.0 - VIGNETTE_STRENGTH * smoothstep(VIGNETTE_START, 1.0, edge);',
+          '',
+        );
+        break;
+    }
+  }
+
+  return [
+    `// Retro Skin: ${skin.name.replace(/[\r\n]+/g, ' ')}`,
+    '// Generated by Retro Skins Platform',
+    `// Effects: ${effects.map(e => e.type).join(', ')}`,
+    '',
+    'Texture2D shaderTexture;',
+    'SamplerState samplerState;',
+    '',
+    'cbuffer PixelShaderSettings',
+    '{',
+    '    float  Time;',
+    '    float  Scale;',
+    '    float2 Resolution;',
+    '    float4 Background;',
+    '};',
+    '',
+    ...constants,
+    '',
+    ...helpers,
+    'float4 main(float4 pos : SV_POSITION, float2 tex : TEXCOORD) : SV_TARGET',
+    '{',
+    '    float2 uv = tex;',
+    '',
+    ...warp,
+    '    float4 color = shaderTexture.Sample(samplerState, uv);',
+    '',
+    ...body,
+    '    return float4(saturate(color.rgb), color.a);',
+    '}',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,223 @@
+/**
+ * Contrast Audit
+ *
+ * Checks the legibility of a skin's terminal colors with both WCAG 2
+ * contrast ratios and APCA lightness contrast, and can nudge colors'
+ * OKLCH lightness (keeping their hue) until they reach a target.
+ */
+
+import type { SkinConfig } from './skins.js';
+import type { DiagnosticSeverity } from './validation.js';
+import { skinAppearance } from './catalog.js';
+import { ANSI_SLOTS, resolvePalette } from './palette.js';
+import type { ColorPalette } from './palette.js';
+import { apcaContrast, contrastRatio, hexToOklch, oklchToHex, parseHexColor } from './color.js';
+
+/**
+ * Body text must be comfortable to read, ANSI palette colors mostly mark up
+ * highlights, and ui elements (the cursor block) only need to be seen
+ */
+export type ContrastRole = 'text' | 'palette' | 'ui';
+
+export interface ContrastTarget {
+  /** Minimum WCAG 2 contrast ratio */
+  wcag: number;
+  /** Minimum absolute APCA Lc */
+  apca: number;
+}
+
+export interface AuditOptions {
+  /** Contrast body text should reach (default WCAG 4.5:1 and APCA Lc 60) */
+  text?: Partial<ContrastTarget>;
+  /** Contrast palette colors should reach (default WCAG 4.5:1 and APCA Lc 45) */
+  palette?: Partial<ContrastTarget>;
+  /** Contrast the cursor should reach against the background (default 3:1 and Lc 30) */
+  ui?: Partial<ContrastTarget>;
+}
+
+export interface ContrastCheck {
+  /** What was checked, e.g. `foreground`, `palette.blue`, `selection` */
+  name: string;
+  role: ContrastRole;
+  /** Color in front */
+  color: string;
+  /** Color behind it */
+  background: string;
+  /** WCAG 2 contrast ratio */
+  wcag: number;
+  /** APCA Lc (negative for light-on-dark) */
+  apca: number;
+  /** Missing the target is a warning; missing two thirds of it is an error */
+  severity?: DiagnosticSeverity;
+  /** Why the check failed */
+  message?: string;
+}
+
+export interface AuditResult {
+  /** True when no check is an error */
+  passed: boolean;
+  checks: ContrastCheck[];
+}
+
+export interface ContrastFix {
+  /** Skin path of the adjusted color */
+  path: string;
+  from: string;
+  to: string;
+}
+
+export interface FixResult {
+  /** The skin with adjusted colors */
+  skin: SkinConfig;
+  /** Colors that were changed */
+  fixes: ContrastFix[];
+}
+
+const DEFAULT_TARGETS: Record<ContrastRole, ContrastTarget> = {
+  text: { wcag: 4.5, apca: 60 },
+  palette: { wcag: 4.5, apca: 45 },
+  ui: { wcag: 3, apca: 30 },
+};
+
+interface PlannedCheck {
+  name: string;
+  role: ContrastRole;
+  color: string;
+  background: string;
+}
+
+/**
+ * Audit the contrast of a skin's foreground, palette, cursor and selection colors
+ */
+export function auditSkin(skin: SkinConfig, options: AuditOptions = {}): AuditResult {
+  const checks: ContrastCheck[] = [];
+  for (const planned of planChecks(skin)) {
+    const check = measure(planned, targetFor(planned.role, options));
+    if (check) checks.push(check);
+  }
+  return { passed: !checks.some(c => c.severity === 'error'), checks };
+}
+
+/**
+ * Adjust the foreground, palette and cursor colors so they reach their
+ * targets against the background. Only OKLCH lightness changes; hue is kept.
+ * Selection and cursor text depend on two skin colors at once and are only reported.
+ */
+export function fixSkinContrast(skin: SkinConfig, options: AuditOptions = {}): FixResult {
+  const fixes: ContrastFix[] = [];
+  const background = skin.colors.background;
+  const fix = (path: string, color: string, role: ContrastRole): string => {
+    const fixed = adjustLightness(color, background, targetFor(role, options));
+    if (fixed !== color) fixes.push({ path, from: color, to: fixed });
+    return fixed;
+  };
+
+  const foreground = fix('colors.foreground', skin.colors.foreground, 'text');
+  const accent = fix('colors.accent', skin.colors.accent, 'ui');
+
+  const palette = { ...resolvePalette(skin.colors) };
+  for (const slot of auditedSlots(skin)) {
+    palette[slot] = fix(`colors.palette.${slot}`, palette[slot], 'palette');
+  }
+  const paletteChanged = fixes.some(f => f.path.startsWith('colors.palette.'));
+
+  return {
+    skin: {
+      ...skin,
+      colors: {
+        ...skin.colors,
+        foreground,
+        accent,
+        ...(skin.colors.palette || paletteChanged ? { palette } : {}),
+      },
+    },
+    fixes,
+  };
+}
+
+/**
+ * Move a color's lightness the smallest distance that reaches a target
+ * against a background. Returns the color unchanged if it already passes,
+ * and the most contrasting lightness if the target is out of reach.
+ */
+export function adjustLightness(color: string, background: string, target: ContrastTarget): string {
+  const lch = hexToOklch(color);
+  const bg = parseHexColor(background);
+  if (!lch || !bg) return color;
+
+  const passes = (hex: string) => {
+    const rgb = parseHexColor(hex)!;
+    return contrastRatio(rgb, bg) >= target.wcag && Math.abs(apcaContrast(rgb, bg)) >= target.apca;
+  };
+  if (passes(color)) return color;
+
+  let best: { hex: string; delta: number } | null = null;
+  for (const end of [0, 1]) {
+    const extreme = oklchToHex({ ...lch, l: end });
+    if (!passes(extreme)) continue;
+
+    // Binary search for the smallest lightness change that passes
+    let near = lch.l;
+    let far = end;
+    for (let i = 0; i < 24; i++) {
+      const mid = (near + far) / 2;
+      if (passes(oklchToHex({ ...lch, l: mid }))) far = mid;
+      else near = mid;
+    }
+    const delta = Math.abs(far - lch.l);
+    if (!best || delta < best.delta) best = { hex: oklchToHex({ ...lch, l: far }), delta };
+  }
+  if (best) return best.hex;
+
+  const [dark, light] = [oklchToHex({ ...lch, l: 0 }), oklchToHex({ ...lch, l: 1 })];
+  return contrastRatio(parseHexColor(dark)!, bg) > contrastRatio(parseHexColor(light)!, bg) ? dark : light;
+}
+
+function targetFor(role: ContrastRole, options: AuditOptions): ContrastTarget {
+  return { ...DEFAULT_TARGETS[role], ...options[role] };
+}
+
+/**
+ * Palette slots that carry text. Slots that double as the background are
+ * skipped: black on dark skins, white and bright white on light ones.
+ */
+function auditedSlots(skin: SkinConfig): Array<keyof ColorPalette> {
+  const light = skinAppearance(skin) === 'light';
+  return ANSI_SLOTS.flatMap(slot => {
+    const bright = `bright${slot[0].toUpperCase()}${slot.slice(1)}` as keyof ColorPalette;
+    if (slot === 'white' && light) return [];
+    return slot === 'black' && !light ? [bright] : [slot, bright];
+  });
+}
+
+function planChecks(skin: SkinConfig): PlannedCheck[] {
+  const { background, foreground, accent } = skin.colors;
+  const palette = resolvePalette(skin.colors);
+  return [
+    { name: 'foreground', role: 'text', color: foreground, background },
+    ...auditedSlots(skin).map((slot): PlannedCheck => ({ name: `palette.${slot}`, role: 'palette', color: palette[slot], background })),
+    { name: 'cursor', role: 'ui', color: accent, background },
+    { name: 'cursor text', role: 'text', color: background, background: accent },
+    { name: 'selection', role: 'text', color: foreground, background: accent },
+  ];
+}
+
+function measure(planned: PlannedCheck, target: ContrastTarget): ContrastCheck | null {
+  const color = parseHexColor(planned.color);
+  const background = parseHexColor(planned.background);
+  if (!color || !background) return null;
+
+  const wcag = contrastRatio(color, background);
+  const apca = apcaContrast(color, background);
+  const check: ContrastCheck = { ...planned, wcag, apca };
+
+  if (wcag < target.wcag * 2 / 3 || Math.abs(apca) < target.apca * 2 / 3) {
+    check.severity = 'error';
+  } else if (wcag < target.wcag || Math.abs(apca) < target.apca) {
+    check.severity = 'warning';
+  }
+  if (check.severity) {
+    check.message = `${wcag.toFixed(2)}:1 / Lc ${Math.abs(apca).toFixed(1)} is below ${target.wcag}:1 / Lc ${target.apca}`;
+  }
+  return check;
+}
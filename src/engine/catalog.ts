@@ -0,0 +1,69 @@
+/**
+ * Preset Catalog
+ *
+ * The single lookup point for preset skins: adapters, the loader and the CLI
+ * resolve preset names through here. Also matches skins against tag and
+ * free-text queries using their metadata.
+ */
+
+import { PRESET_SKINS } from './skins.js';
+import { parseHexColor, relativeLuminance } from './color.js';
+import type { SkinConfig, SkinMetadata } from './skins.js';
+
+export interface SkinQuery {
+  /** Only skins carrying this tag (case-insensitive); `dark`/`light` match the appearance */
+  tag?: string;
+  /** Case-insensitive text matched against key, name, description, author, era and tags */
+  search?: string;
+}
+
+/**
+ * Names of all preset skins
+ */
+export function listPresetNames(): string[] {
+  return Object.keys(PRESET_SKINS);
+}
+
+/**
+ * Create a preset skin by name, or null if there is no such preset
+ */
+export function getPresetSkin(name: string): SkinConfig | null {
+  return Object.prototype.hasOwnProperty.call(PRESET_SKINS, name) ? PRESET_SKINS[name]() : null;
+}
+
+/**
+ * Whether a skin is dark or light: its metadata if set, otherwise the background luminance
+ */
+export function skinAppearance(skin: SkinConfig): SkinMetadata['appearance'] {
+  if (skin.metadata?.appearance) return skin.metadata.appearance;
+  const background = parseHexColor(skin.colors.background);
+  return background && relativeLuminance(background) > 0.4 ? 'light' : 'dark';
+}
+
+/**
+ * Tags of a skin in lower case, including its appearance and those of its variants
+ */
+export function skinTags(skin: SkinConfig): string[] {
+  // Metadata from skin files is not type-checked, so skip anything that is not a string
+  const raw: unknown[] = Array.isArray(skin.metadata?.tags) ? skin.metadata!.tags : [];
+  const tags = raw.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.toLowerCase());
+  const variants = (['dark', 'light'] as const).filter(appearance => skin.variants?.[appearance]);
+  return [...new Set([...tags, skinAppearance(skin), ...variants])];
+}
+
+/**
+ * Check a skin against a query; `key` is the name the skin is listed under
+ */
+export function matchesSkinQuery(skin: SkinConfig, query: SkinQuery, key = ''): boolean {
+  const tags = skinTags(skin);
+  if (query.tag && !tags.includes(query.tag.toLowerCase())) return false;
+
+  if (query.search) {
+    const needle = query.search.toLowerCase();
+    const meta = skin.metadata ?? {};
+    const haystack = [key, skin.name, meta.description, meta.author, meta.era, ...tags];
+    if (!haystack.some(field => typeof field === 'string' && field.toLowerCase().includes(needle))) return false;
+  }
+
+  return true;
+}
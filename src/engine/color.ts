@@ -0,0 +1,188 @@
+/**
+ * Color Math
+ *
+ * Hex parsing, conversions between sRGB and OKLCH (the perceptual space
+ * used for palette generation) and WCAG 2 / APCA contrast metrics.
+ */
+
+export interface Rgb {
+  /** Red, 0-1 (gamma-encoded sRGB) */
+  r: number;
+  /** Green, 0-1 */
+  g: number;
+  /** Blue, 0-1 */
+  b: number;
+}
+
+export interface Oklch {
+  /** Perceptual lightness, 0-1 */
+  l: number;
+  /** Chroma, 0 to about 0.37 inside sRGB */
+  c: number;
+  /** Hue angle in degrees, 0-360 */
+  h: number;
+}
+
+/**
+ * Parse a #RGB or #RRGGBB color; returns null for anything else
+ */
+export function parseHexColor(color: string): Rgb | null {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)?.[1];
+  if (!hex) return null;
+  const full = hex.length === 3 ? [...hex].map(c => c + c).join('') : hex;
+  return {
+    r: parseInt(full.slice(0, 2), 16) / 255,
+    g: parseInt(full.slice(2, 4), 16) / 255,
+    b: parseInt(full.slice(4, 6), 16) / 255,
+  };
+}
+
+/**
+ * Format an sRGB color as #RRGGBB, clamping out-of-range channels
+ */
+export function formatHexColor(rgb: Rgb): string {
+  const channel = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255).toString(16).padStart(2, '0');
+  return `#${channel(rgb.r)}${channel(rgb.g)}${channel(rgb.b)}`.toUpperCase();
+}
+
+/** sRGB transfer function: encoded channel to linear light */
+export function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+/** Inverse sRGB transfer function: linear light to encoded channel */
+export function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? 12.92 * c : 1.055 * Math.sign(c) * Math.abs(c) ** (1 / 2.4) - 0.055;
+}
+
+/**
+ * Convert sRGB to OKLCH
+ */
+export function rgbToOklch(rgb: Rgb): Oklch {
+  const r = srgbToLinear(rgb.r);
+  const g = srgbToLinear(rgb.g);
+  const b = srgbToLinear(rgb.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const L = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+
+  const c = Math.hypot(A, B);
+  const h = c < 1e-6 ? 0 : (Math.atan2(B, A) * 180 / Math.PI + 360) % 360;
+  return { l: L, c, h };
+}
+
+/**
+ * Convert OKLCH to sRGB (channels may fall outside 0-1 for out-of-gamut colors)
+ */
+export function oklchToRgb(color: Oklch): Rgb {
+  const hue = color.h * Math.PI / 180;
+  const A = color.c * Math.cos(hue);
+  const B = color.c * Math.sin(hue);
+
+  const l = (color.l + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (color.l - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (color.l - 0.0894841775 * A - 1.2914855480 * B) ** 3;
+
+  return {
+    r: linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s),
+  };
+}
+
+/**
+ * Check whether an OKLCH color can be shown in sRGB
+ */
+export function inSrgbGamut(color: Oklch): boolean {
+  const { r, g, b } = oklchToRgb(color);
+  const eps = 1e-4;
+  return [r, g, b].every(v => v >= -eps && v <= 1 + eps);
+}
+
+/**
+ * Parse a hex color into OKLCH; returns null for invalid colors
+ */
+export function hexToOklch(color: string): Oklch | null {
+  const rgb = parseHexColor(color);
+  return rgb ? rgbToOklch(rgb) : null;
+}
+
+/**
+ * Format an OKLCH color as hex, reducing chroma until it fits in sRGB
+ * so lightness and hue are kept
+ */
+export function oklchToHex(color: Oklch): string {
+  const l = Math.min(1, Math.max(0, color.l));
+  if (inSrgbGamut({ ...color, l })) return formatHexColor(oklchToRgb({ ...color, l }));
+
+  let low = 0;
+  let high = color.c;
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (inSrgbGamut({ l, c: mid, h: color.h })) low = mid;
+    else high = mid;
+  }
+  return formatHexColor(oklchToRgb({ l, c: low, h: color.h }));
+}
+
+/**
+ * Signed shortest angle from one hue to another, in degrees (-180 to 180)
+ */
+export function hueDelta(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
+
+/**
+ * WCAG 2 relative luminance of an sRGB color
+ */
+export function relativeLuminance(rgb: Rgb): number {
+  return 0.2126 * srgbToLinear(rgb.r) + 0.7152 * srgbToLinear(rgb.g) + 0.0722 * srgbToLinear(rgb.b);
+}
+
+/**
+ * WCAG 2 contrast ratio between two colors (1 to 21)
+ */
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/**
+ * APCA lightness contrast (Lc) of text on a background, per APCA-W3 0.0.98G.
+ * Positive for dark text on light backgrounds, negative for light text on dark.
+ */
+export function apcaContrast(text: Rgb, background: Rgb): number {
+  const screenY = ({ r, g, b }: Rgb) => 0.2126729 * r ** 2.4 + 0.7151522 * g ** 2.4 + 0.0721750 * b ** 2.4;
+  const softClamp = (y: number) => (y > 0.022 ? y : y + (0.022 - y) ** 1.414);
+
+  const textY = softClamp(screenY(text));
+  const backgroundY = softClamp(screenY(background));
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0;
+
+  if (backgroundY > textY) {
+    const sapc = (backgroundY ** 0.56 - textY ** 0.57) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (backgroundY ** 0.65 - textY ** 0.62) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+/**
+ * Perceptual distance between two colors (Euclidean distance in OKLab).
+ * About 0.02 is just noticeable; below 0.05 colors are easily confused.
+ */
+export function colorDistance(a: Rgb, b: Rgb): number {
+  const toLab = (rgb: Rgb) => {
+    const { l, c, h } = rgbToOklch(rgb);
+    return [l, c * Math.cos(h * Math.PI / 180), c * Math.sin(h * Math.PI / 180)];
+  };
+  const [la, aa, ba] = toLab(a);
+  const [lb, ab, bb] = toLab(b);
+  return Math.hypot(la - lb, aa - ab, ba - bb);
+}
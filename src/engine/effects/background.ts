@@ -0,0 +1,196 @@
+/**
+ * Animated Backgrounds
+ *
+ * The `animated-bg` effect: a canvas layer behind the text (and behind the
+ * afterglow) animating one of several scenes, picked with the numeric
+ * `mode` param since effect params are numbers. `speed` scales the motion
+ * and frames come from the engine loop, so they follow
+ * performance.targetFps.
+ */
+
+import type { SkinConfig } from '../skins.js';
+import { parseHexColor } from '../color.js';
+import type { Rgb } from '../color.js';
+import type { EffectPlugin } from './plugin.js';
+import { createOverlay, OVERLAY_LAYERS, removeOverlay } from './overlays.js';
+
+/** Background scenes, by `mode` param value */
+export const ANIMATED_BG_MODES = ['gradient', 'starfield', 'matrix', 'raster-bars'] as const;
+
+export type AnimatedBgMode = typeof ANIMATED_BG_MODES[number];
+
+/** Class of the background canvas */
+export const ANIMATED_BG_LAYER_CLASS = 'retro-animated-bg';
+
+/** Characters the matrix rain is made of */
+const RAIN_GLYPHS = 'ｱｲｳｴｵｶｷｸｹｺｻｼｽｾｿﾀﾁﾂﾃﾄﾅﾆﾇﾈﾉﾊﾋﾌﾍﾎﾏﾐﾑﾒﾓﾔﾕﾖﾗﾘﾙﾚﾛﾜﾝ0123456789';
+const RAIN_CELL = 14;
+
+/**
+ * The scene for a `mode` param; out-of-range values are clamped and
+ * fractions rounded down
+ */
+export function animatedBgMode(mode: number | undefined): AnimatedBgMode {
+  const index = Math.floor(mode ?? 0);
+  return ANIMATED_BG_MODES[Math.min(ANIMATED_BG_MODES.length - 1, Math.max(0, Number.isFinite(index) ? index : 0))];
+}
+
+interface Star {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface BackgroundState {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D | null;
+  mode: AnimatedBgMode;
+  accent: Rgb;
+  glow: Rgb;
+  stars: Star[];
+  /** Row each matrix column's leading glyph is on */
+  drops: number[];
+}
+
+export const animatedBackgroundEffect: EffectPlugin<BackgroundState> = {
+  type: 'animated-bg',
+  order: 300,
+  params: {
+    speed: { default: 0.5, min: 0, description: 'Motion speed; gradient bands or raster bar swings per second' },
+    mode: { default: 0, min: 0, max: ANIMATED_BG_MODES.length - 1, description: `Scene: ${ANIMATED_BG_MODES.map((mode, i) => `${i} ${mode}`).join(', ')}` },
+  },
+  setup({ element, config, params }) {
+    const canvas = createOverlay(element, {
+      className: ANIMATED_BG_LAYER_CLASS,
+      layer: OVERLAY_LAYERS.background,
+      tagName: 'canvas',
+      css: 'width: 100%; height: 100%;',
+    }) as HTMLCanvasElement;
+    return {
+      canvas,
+      ctx: canvas.getContext('2d'),
+      mode: animatedBgMode(params.mode),
+      ...sceneColors(config),
+      stars: [],
+      drops: [],
+    };
+  },
+  update({ element, effect, params }, frame, state) {
+    const { canvas, ctx } = state;
+    if (!ctx) return;
+
+    const width = element.clientWidth;
+    const height = element.clientHeight;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+      state.stars = [];
+      state.drops = [];
+    }
+    if (!width || !height) return;
+
+    const strength = Math.min(1, effect.intensity);
+    const seconds = frame.time / 1000;
+    const step = (frame.delta / 1000) * params.speed;
+    switch (state.mode) {
+      case 'gradient': return drawGradient(ctx, state, width, height, seconds * params.speed, strength);
+      case 'starfield': return drawStarfield(ctx, state, width, height, step, strength);
+      case 'matrix': return drawMatrixRain(ctx, state, width, height, step, strength);
+      case 'raster-bars': return drawRasterBars(ctx, state, width, height, seconds * params.speed, strength);
+    }
+  },
+  teardown({ element }, state) {
+    removeOverlay(element, state.canvas);
+  },
+};
+
+/** Diagonal bands drifting between the accent and glow colors, like the software renderer */
+function drawGradient(ctx: CanvasRenderingContext2D, state: BackgroundState, width: number, height: number, phase: number, strength: number): void {
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  const stops = 12;
+  for (let i = 0; i <= stops; i++) {
+    const position = i / stops;
+    const band = 0.5 + 0.5 * Math.sin(2 * Math.PI * (position - phase));
+    gradient.addColorStop(position, rgba(mix(state.accent, state.glow, band), strength * 0.35 * band));
+  }
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+}
+
+/** Stars flying towards the viewer; `speed` is the share of the depth crossed per second */
+function drawStarfield(ctx: CanvasRenderingContext2D, state: BackgroundState, width: number, height: number, step: number, strength: number): void {
+  if (state.stars.length === 0) {
+    const count = Math.min(300, Math.round((width * height) / 2000));
+    state.stars = Array.from({ length: count }, () => ({ x: Math.random() * 2 - 1, y: Math.random() * 2 - 1, z: Math.random() }));
+  }
+
+  ctx.clearRect(0, 0, width, height);
+  for (const star of state.stars) {
+    star.z -= step;
+    if (star.z <= 0.01) Object.assign(star, { x: Math.random() * 2 - 1, y: Math.random() * 2 - 1, z: 1 });
+    const x = width / 2 + (star.x / star.z) * (width / 2);
+    const y = height / 2 + (star.y / star.z) * (height / 2);
+    if (x < 0 || y < 0 || x >= width || y >= height) continue;
+    const size = (1 - star.z) * 2 + 0.5;
+    ctx.fillStyle = rgba(state.glow, strength * (1 - star.z));
+    ctx.fillRect(x, y, size, size);
+  }
+}
+
+/** Falling glyph columns leaving fading trails; `speed` of 1 is 20 rows per second */
+function drawMatrixRain(ctx: CanvasRenderingContext2D, state: BackgroundState, width: number, height: number, step: number, strength: number): void {
+  const rows = Math.ceil(height / RAIN_CELL);
+  if (state.drops.length === 0) {
+    state.drops = Array.from({ length: Math.ceil(width / RAIN_CELL) }, () => Math.random() * -rows);
+  }
+
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.1)';
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.font = `${RAIN_CELL}px monospace`;
+  ctx.fillStyle = rgba(state.glow, strength);
+  state.drops.forEach((row, column) => {
+    if (row >= 0) {
+      const glyph = RAIN_GLYPHS[Math.floor(Math.random() * RAIN_GLYPHS.length)];
+      ctx.fillText(glyph, column * RAIN_CELL, Math.floor(row) * RAIN_CELL + RAIN_CELL);
+    }
+    const next = row + step * 20;
+    state.drops[column] = next > rows ? Math.random() * -rows * 0.5 : next;
+  });
+}
+
+/** Horizontal copper bars swinging up and down */
+function drawRasterBars(ctx: CanvasRenderingContext2D, state: BackgroundState, width: number, height: number, phase: number, strength: number): void {
+  const bars = 5;
+  const barHeight = Math.max(4, height / 12);
+  ctx.clearRect(0, 0, width, height);
+  for (let i = 0; i < bars; i++) {
+    const center = height / 2 + Math.sin(2 * Math.PI * phase + i * 0.6) * (height / 2 - barHeight);
+    const color = i % 2 === 0 ? state.accent : state.glow;
+    const gradient = ctx.createLinearGradient(0, center - barHeight / 2, 0, center + barHeight / 2);
+    gradient.addColorStop(0, rgba(color, 0));
+    gradient.addColorStop(0.5, rgba(color, strength * 0.6));
+    gradient.addColorStop(1, rgba(color, 0));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, center - barHeight / 2, width, barHeight);
+  }
+}
+
+function sceneColors(config: SkinConfig): { accent: Rgb; glow: Rgb } {
+  const foreground = parseHexColor(config.colors.foreground) ?? { r: 1, g: 1, b: 1 };
+  return {
+    accent: parseHexColor(config.colors.accent) ?? foreground,
+    glow: parseHexColor(config.colors.glow) ?? foreground,
+  };
+}
+
+function mix(a: Rgb, b: Rgb, amount: number): Rgb {
+  return { r: a.r + (b.r - a.r) * amount, g: a.g + (b.g - a.g) * amount, b: a.b + (b.b - a.b) * amount };
+}
+
+function rgba(color: Rgb, alpha: number): string {
+  const channel = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 255);
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${Math.round(alpha * 1000) / 1000})`;
+}
@@ -0,0 +1,241 @@
+/**
+ * Built-in Effects
+ *
+ * The render engine's own effects as plugins. Orders are spaced by 100 so
+ * third-party effects can slot in between: each frame adds the glow,
+ * moves the element (shake), draws the background scene and the afterglow
+ * (see background.ts and persistence.ts), and builds the filter chain
+ * (flicker brightness, the noise filter, then the color shift filter of
+ * color-shift.ts). SVG filters are added to the page at setup (see svg.ts).
+ * Scanlines, vignette and curvature are static overlay layers; their
+ * formulas follow the software renderer (see raster/effects.ts).
+ */
+
+import type { EffectPlugin } from './plugin.js';
+import { createOverlay, OVERLAY_LAYERS, removeOverlay } from './overlays.js';
+import { animatedBackgroundEffect } from './background.js';
+import { phosphorPersistenceEffect } from './persistence.js';
+import { colorShiftEffect } from './color-shift.js';
+import { createSvgFilter, svgElement } from './svg.js';
+
+/** Class of the overlay the noise effect adds */
+export const NOISE_OVERLAY_CLASS = 'retro-noise';
+
+/** Prefix of the ids of the SVG grain filters the noise effect adds to the page */
+export const NOISE_FILTER_PREFIX = 'retro-noise-filter-';
+
+/** How long one shake lasts, in milliseconds */
+const SHAKE_DURATION = 100;
+
+/** Class of the scanline layer */
+export const SCANLINES_OVERLAY_CLASS = 'retro-scanlines';
+
+/** Class of the vignette layer */
+export const VIGNETTE_OVERLAY_CLASS = 'retro-vignette';
+
+/** Class of the curvature (screen bezel) layer */
+export const CURVATURE_OVERLAY_CLASS = 'retro-curvature';
+
+export const phosphorGlowEffect: EffectPlugin = {
+  type: 'phosphor-glow',
+  order: 100,
+  params: {
+    radius: { default: 2, min: 0, description: 'Glow radius in pixels' },
+    falloff: { default: 0.5, min: 0, max: 1, description: 'How quickly the glow fades' },
+  },
+  update({ config, effect, params }, frame) {
+    // Same strength as the shaders: a higher falloff gives a fainter glow
+    const strength = Math.round((1 - params.falloff * 0.5) * 100);
+    const color = strength < 100 ? `color-mix(in srgb, ${config.colors.glow} ${strength}%, transparent)` : config.colors.glow;
+    frame.shadows.push(`0 0 ${params.radius * 2 * effect.intensity}px ${color}`);
+  },
+};
+
+/** When the current shake started and when the next one is due */
+interface ShakeState {
+  start: number;
+  next: number;
+}
+
+export const shakeEffect: EffectPlugin<ShakeState> = {
+  type: 'shake',
+  order: 200,
+  params: {
+    frequency: { default: 1, min: 0, description: 'Shakes per second' },
+  },
+  setup() {
+    return { start: -Infinity, next: 0 };
+  },
+  update({ effect, params }, frame, state) {
+    if (params.frequency > 0 && frame.time >= state.next) {
+      state.start = frame.time;
+      state.next = frame.time + 1000 / params.frequency;
+    }
+    // Jitter for the length of a shake, then hold still until the next one
+    if (frame.time - state.start >= SHAKE_DURATION) return;
+    const amount = effect.intensity * 3;
+    const x = (Math.random() - 0.5) * amount;
+    const y = (Math.random() - 0.5) * amount;
+    frame.transforms.push(`translate(${x}px, ${y}px)`);
+  },
+};
+
+export const crtFlickerEffect: EffectPlugin = {
+  type: 'crt-flicker',
+  order: 400,
+  params: {
+    frequency: { default: 1, min: 0, description: 'Flicker rate' },
+  },
+  update({ effect, params }, frame) {
+    const amount = Math.sin(frame.time * 0.01 * params.frequency) * effect.intensity * 0.1;
+    frame.filters.push(`brightness(${1 + amount})`);
+  },
+};
+
+let noiseFilterCount = 0;
+
+/** What noise added to the page and the element */
+interface NoiseState {
+  filterId: string;
+  svg: SVGSVGElement;
+  overlay: HTMLElement | null;
+}
+
+export const noiseEffect: EffectPlugin<NoiseState> = {
+  type: 'noise',
+  order: 500,
+  params: {
+    amount: { min: 0, max: 1, description: 'Grain strength (default: from intensity)' },
+  },
+  setup({ element, effect, params }) {
+    const filterId = `${NOISE_FILTER_PREFIX}${++noiseFilterCount}`;
+    const { svg, filter } = createSvgFilter(filterId);
+    svgElement(filter, 'feTurbulence', { type: 'fractalNoise', baseFrequency: '0.8', numOctaves: '2', result: 'noise' });
+    svgElement(filter, 'feColorMatrix', { in: 'noise', type: 'saturate', values: '0', result: 'grain' });
+    svgElement(filter, 'feBlend', { in: 'SourceGraphic', in2: 'grain', mode: 'overlay' });
+
+    const overlay = effect.intensity <= 0.05 ? null : createOverlay(element, {
+      className: NOISE_OVERLAY_CLASS,
+      layer: OVERLAY_LAYERS.noise,
+      css: `opacity: ${(params.amount ?? effect.intensity * 0.2) * 0.5}; background: url(${noiseDataUrl(effect.intensity)}); mix-blend-mode: overlay;`,
+    });
+    return { filterId, svg, overlay };
+  },
+  update(_context, frame, { filterId }) {
+    frame.filters.push(`url('#${filterId}')`);
+  },
+  teardown({ element }, { svg, overlay }) {
+    svg.remove();
+    if (overlay) removeOverlay(element, overlay);
+  },
+};
+
+export const crtScanlinesEffect: EffectPlugin<HTMLElement> = {
+  type: 'crt-scanlines',
+  order: 600,
+  params: {
+    lineSpacing: { default: 2, min: 1, description: 'Pixels per pair of lit and dark rows' },
+  },
+  setup({ element, effect, params }) {
+    const period = Math.max(2, Math.round(params.lineSpacing));
+    const shade = `rgba(0, 0, 0, ${Math.min(1, effect.intensity) * 0.6})`;
+    return createOverlay(element, {
+      className: SCANLINES_OVERLAY_CLASS,
+      layer: OVERLAY_LAYERS.scanlines,
+      css: `background: repeating-linear-gradient(180deg, transparent 0 ${period / 2}px, ${shade} ${period / 2}px ${period}px);`,
+    });
+  },
+  teardown({ element }, overlay) {
+    removeOverlay(element, overlay);
+  },
+};
+
+export const vignetteEffect: EffectPlugin<HTMLElement> = {
+  type: 'vignette',
+  order: 700,
+  params: {
+    radius: { default: 0.8, min: 0, max: 1, description: 'Where the darkening starts, as a fraction of the way to the corners' },
+  },
+  setup({ element, effect, params }) {
+    const intensity = Math.min(1, effect.intensity);
+    const start = Math.min(0.95, params.radius * (1 - intensity * 0.5));
+    return createOverlay(element, {
+      className: VIGNETTE_OVERLAY_CLASS,
+      layer: OVERLAY_LAYERS.vignette,
+      css: `background: radial-gradient(ellipse farthest-corner at center, transparent ${Math.round(start * 1000) / 10}%, rgba(0, 0, 0, ${intensity * 0.8}) 100%);`,
+    });
+  },
+  teardown({ element }, overlay) {
+    removeOverlay(element, overlay);
+  },
+};
+
+/** What curvature changed on the element, to put back on teardown */
+interface CurvatureState {
+  overlay: HTMLElement;
+  borderRadius: string;
+  overflow: string;
+}
+
+export const crtCurvatureEffect: EffectPlugin<CurvatureState> = {
+  type: 'crt-curvature',
+  order: 800,
+  params: {
+    radius: { default: 1, min: 0.1, description: 'Screen radius; larger is flatter' },
+  },
+  setup({ element, effect, params }) {
+    // Same bend as the shaders; CSS cannot warp the content, so the bend
+    // shows as rounded corners and shading towards the edges
+    const bend = Math.min(1, effect.intensity) * 0.25 / params.radius;
+    const state = { borderRadius: element.style.borderRadius, overflow: element.style.overflow };
+    element.style.borderRadius = `${Math.round(bend * 160)}px`;
+    element.style.overflow = 'hidden';
+    const overlay = createOverlay(element, {
+      className: CURVATURE_OVERLAY_CLASS,
+      layer: OVERLAY_LAYERS.curvature,
+      css: `border-radius: inherit; box-shadow: inset 0 0 ${Math.round(bend * 400)}px rgba(0, 0, 0, ${Math.min(1, bend * 4) * 0.6});`,
+    });
+    return { ...state, overlay };
+  },
+  teardown({ element }, { overlay, borderRadius, overflow }) {
+    removeOverlay(element, overlay);
+    element.style.borderRadius = borderRadius;
+    element.style.overflow = overflow;
+  },
+};
+
+/** The built-in effects, in registration order */
+export const BUILTIN_EFFECTS: readonly EffectPlugin[] = [
+  phosphorGlowEffect,
+  shakeEffect,
+  animatedBackgroundEffect,
+  phosphorPersistenceEffect,
+  crtFlickerEffect,
+  noiseEffect,
+  colorShiftEffect,
+  crtScanlinesEffect,
+  vignetteEffect,
+  crtCurvatureEffect,
+];
+
+/** A tile of random grey pixels as a PNG data URL */
+function noiseDataUrl(intensity: number): string {
+  const size = 128;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  const imageData = ctx.createImageData(size, size);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = Math.random() * 255 * intensity;
+    data[i] = value;
+    data[i + 1] = value;
+    data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL();
+}
@@ -0,0 +1,106 @@
+/**
+ * Color Shift
+ *
+ * Chromatic aberration for the `color-shift` effect: the red and blue
+ * channels are pulled apart, red one way and blue the other. The offset is
+ * `offsetX`/`offsetY` pixels, or by default `shift` of the element's width
+ * scaled by intensity (the same amount as the terminal shaders). `wobble`
+ * makes the offset drift over time.
+ *
+ * On `low` quality the channels are faked with a red and a blue text
+ * shadow, which costs next to nothing; otherwise an SVG filter built at
+ * setup splits the element into channels with feColorMatrix, moves them
+ * with feOffset and screens them back together.
+ */
+
+import type { EffectPlugin } from './plugin.js';
+import { createSvgFilter, svgElement } from './svg.js';
+
+/** Prefix of the ids of the SVG filters color shift adds to the page */
+export const COLOR_SHIFT_FILTER_PREFIX = 'retro-color-shift-';
+
+/** Rows of an feColorMatrix keeping one channel (and alpha) */
+const CHANNEL_MATRICES = {
+  red: '1 0 0 0 0  0 0 0 0 0  0 0 0 0 0  0 0 0 1 0',
+  green: '0 0 0 0 0  0 1 0 0 0  0 0 0 0 0  0 0 0 1 0',
+  blue: '0 0 0 0 0  0 0 0 0 0  0 0 1 0 0  0 0 0 1 0',
+};
+
+let filterCount = 0;
+
+interface ColorShiftState {
+  /** Offset of the red channel in pixels; blue moves the opposite way */
+  x: number;
+  y: number;
+  /** SVG holding the filter, or null when text shadows are used */
+  svg: SVGSVGElement | null;
+  filterId: string;
+  offsets: SVGElement[];
+}
+
+export const colorShiftEffect: EffectPlugin<ColorShiftState> = {
+  type: 'color-shift',
+  order: 550,
+  params: {
+    shift: { default: 0.01, min: 0, description: 'Offset as a fraction of the element width at full intensity' },
+    offsetX: { description: 'Horizontal offset in pixels (overrides shift)' },
+    offsetY: { default: 0, description: 'Vertical offset in pixels' },
+    wobble: { default: 0, min: 0, max: 1, description: 'How far the offset drifts over time, as a fraction of it' },
+  },
+  setup({ element, config, effect, params }) {
+    const state: ColorShiftState = {
+      x: -(params.offsetX ?? params.shift * Math.min(1, effect.intensity) * element.clientWidth),
+      y: -params.offsetY,
+      svg: null,
+      filterId: `${COLOR_SHIFT_FILTER_PREFIX}${++filterCount}`,
+      offsets: [],
+    };
+    if (config.performance.quality === 'low') return state;
+
+    const { svg, filter } = createSvgFilter(state.filterId, { 'color-interpolation-filters': 'sRGB' });
+    for (const channel of ['red', 'green', 'blue'] as const) {
+      svgElement(filter, 'feColorMatrix', { in: 'SourceGraphic', type: 'matrix', values: CHANNEL_MATRICES[channel], result: channel });
+    }
+    state.offsets = [
+      svgElement(filter, 'feOffset', { in: 'red', result: 'red-shifted' }),
+      svgElement(filter, 'feOffset', { in: 'blue', result: 'blue-shifted' }),
+    ];
+    svgElement(filter, 'feBlend', { in: 'red-shifted', in2: 'green', mode: 'screen', result: 'red-green' });
+    svgElement(filter, 'feBlend', { in: 'red-green', in2: 'blue-shifted', mode: 'screen' });
+    state.svg = svg;
+    moveChannels(state, state.x, state.y);
+    return state;
+  },
+  update({ params }, frame, state) {
+    let { x, y } = state;
+    if (params.wobble > 0) {
+      // Two unrelated rates so the drift does not look like a loop
+      const seconds = frame.time / 1000;
+      x *= 1 + params.wobble * Math.sin(2 * Math.PI * 0.7 * seconds);
+      y += Math.hypot(state.x, state.y) * params.wobble * 0.5 * Math.sin(2 * Math.PI * 1.3 * seconds);
+    }
+
+    if (state.svg) {
+      if (params.wobble > 0) moveChannels(state, x, y);
+      frame.filters.push(`url('#${state.filterId}')`);
+    } else {
+      frame.shadows.push(`${px(x)} ${px(y)} 0 rgba(255, 0, 0, 0.5)`, `${px(-x)} ${px(-y)} 0 rgba(0, 0, 255, 0.5)`);
+    }
+  },
+  teardown(_context, state) {
+    state.svg?.remove();
+  },
+};
+
+function moveChannels(state: ColorShiftState, x: number, y: number): void {
+  const [red, blue] = state.offsets;
+  red.setAttribute('dx', px(x, ''));
+  red.setAttribute('dy', px(y, ''));
+  blue.setAttribute('dx', px(-x, ''));
+  blue.setAttribute('dy', px(-y, ''));
+}
+
+/** A length rounded to hundredths of a pixel */
+function px(value: number, unit = 'px'): string {
+  return `${Math.round(value * 100) / 100 || 0}${unit}`;
+}
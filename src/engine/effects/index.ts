@@ -0,0 +1,22 @@
+/**
+ * Render Engine Effects
+ *
+ * Registers the built-in effects and re-exports the plugin API.
+ */
+
+import { getEffect, registerEffect } from './registry.js';
+import { BUILTIN_EFFECTS } from './builtin.js';
+
+export * from './plugin.js';
+export * from './registry.js';
+export * from './overlays.js';
+export * from './builtin.js';
+export * from './background.js';
+export * from './persistence.js';
+export * from './color-shift.js';
+
+// The registry is process-wide, so a second copy of this module must not
+// register the built-ins again
+for (const plugin of BUILTIN_EFFECTS) {
+  if (!getEffect(plugin.type)) registerEffect(plugin);
+}
@@ -0,0 +1,75 @@
+/**
+ * Overlay Layers
+ *
+ * Effects that draw over (or under) the element's content add absolutely
+ * positioned layers to it. The first layer makes the element a positioned
+ * stacking context so layer z-indices stay local to it; removing the last
+ * one puts the element's own position and isolation back.
+ */
+
+export interface OverlayOptions {
+  /** Class name of the layer, e.g. `retro-scanlines` */
+  className: string;
+  /** z-index within the element: positive layers cover the text, negative ones sit behind it */
+  layer: number;
+  /** Extra CSS declarations for the layer */
+  css?: string;
+  /** Tag of the layer element (default `div`) */
+  tagName?: 'div' | 'canvas';
+}
+
+/** Stacking order of the built-in layers */
+export const OVERLAY_LAYERS = {
+  background: -2,
+  persistence: -1,
+  scanlines: 1,
+  noise: 2,
+  vignette: 3,
+  curvature: 4,
+} as const;
+
+interface HostState {
+  layers: number;
+  position: string;
+  isolation: string;
+}
+
+const hosts = new WeakMap<HTMLElement, HostState>();
+
+/**
+ * Add a layer covering the element
+ */
+export function createOverlay(element: HTMLElement, options: OverlayOptions): HTMLElement {
+  let host = hosts.get(element);
+  if (!host) {
+    host = { layers: 0, position: element.style.position, isolation: element.style.isolation };
+    hosts.set(element, host);
+    if (isStatic(element)) element.style.position = 'relative';
+    element.style.isolation = 'isolate';
+  }
+  host.layers++;
+
+  const overlay = document.createElement(options.tagName ?? 'div');
+  overlay.className = options.className;
+  overlay.setAttribute('aria-hidden', 'true');
+  overlay.style.cssText = `position: absolute; inset: 0; pointer-events: none; z-index: ${options.layer}; ${options.css ?? ''}`;
+  element.appendChild(overlay);
+  return overlay;
+}
+
+/**
+ * Remove a layer added with createOverlay
+ */
+export function removeOverlay(element: HTMLElement, overlay: HTMLElement): void {
+  overlay.remove();
+  const host = hosts.get(element);
+  if (!host || --host.layers > 0) return;
+  element.style.position = host.position;
+  element.style.isolation = host.isolation;
+  hosts.delete(element);
+}
+
+function isStatic(element: HTMLElement): boolean {
+  const position = typeof getComputedStyle === 'function' ? getComputedStyle(element).position : element.style.position;
+  return !position || position === 'static';
+}
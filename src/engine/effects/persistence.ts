@@ -0,0 +1,129 @@
+/**
+ * Phosphor Persistence
+ *
+ * Afterglow trails: a canvas layer behind the text keeps the glyphs of the
+ * previous frames and fades them out, so text that scrolls or is cleared
+ * lingers in the glow color. Each frame the buffer is dimmed by
+ * `intensity * (1 - decay)` per frame at the skin's target rate (like the
+ * software renderer, see raster/effects.ts) and the current glyphs are
+ * drawn on top. The buffer resolution follows performance.quality, and
+ * nothing is drawn while the element is off screen or the page is hidden.
+ */
+
+import type { PerformanceConfig } from '../skins.js';
+import type { EffectPlugin } from './plugin.js';
+import { createOverlay, OVERLAY_LAYERS, removeOverlay } from './overlays.js';
+
+/** Class of the persistence canvas */
+export const PERSISTENCE_LAYER_CLASS = 'retro-persistence';
+
+/** Buffer pixels per CSS pixel for each quality level (`high` follows the display, up to 2) */
+export function persistenceScale(quality: PerformanceConfig['quality']): number {
+  if (quality === 'low') return 0.5;
+  if (quality === 'medium') return 1;
+  return Math.min(2, Math.max(1, globalThis.devicePixelRatio || 1));
+}
+
+interface PersistenceState {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D | null;
+  scale: number;
+  /** Whether the element is on screen; true until an observer says otherwise */
+  visible: boolean;
+  observer: IntersectionObserver | null;
+}
+
+export const phosphorPersistenceEffect: EffectPlugin<PersistenceState> = {
+  type: 'phosphor-persistence',
+  order: 350,
+  params: {
+    decay: { default: 0.1, min: 0, max: 1, description: 'Share of the afterglow lost each frame' },
+  },
+  setup({ element, config }) {
+    const canvas = createOverlay(element, {
+      className: PERSISTENCE_LAYER_CLASS,
+      layer: OVERLAY_LAYERS.persistence,
+      tagName: 'canvas',
+      css: 'width: 100%; height: 100%;',
+    }) as HTMLCanvasElement;
+    const state: PersistenceState = {
+      canvas,
+      ctx: canvas.getContext('2d'),
+      scale: persistenceScale(config.performance.quality),
+      visible: true,
+      observer: null,
+    };
+    if (typeof IntersectionObserver === 'function') {
+      state.observer = new IntersectionObserver(entries => {
+        state.visible = entries[entries.length - 1].isIntersecting;
+      });
+      state.observer.observe(element);
+    }
+    return state;
+  },
+  update({ element, config, effect, params }, frame, state) {
+    const { canvas, ctx, scale } = state;
+    if (!ctx) return;
+
+    const hidden = !state.visible || (typeof document.hidden === 'boolean' && document.hidden);
+    if (hidden) {
+      // Off: drop the trails rather than show stale ones when it comes back
+      if (canvas.width) canvas.width = 0;
+      return;
+    }
+
+    const width = Math.round(element.clientWidth * scale);
+    const height = Math.round(element.clientHeight * scale);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+
+    // Exponential decay, independent of how often frames actually run
+    const keepPerFrame = Math.min(1, effect.intensity) * (1 - params.decay);
+    const frames = frame.delta / (1000 / config.performance.targetFps);
+    const keep = frame.delta > 0 ? Math.pow(keepPerFrame, frames) : keepPerFrame;
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fillStyle = `rgba(0, 0, 0, ${1 - keep})`;
+    ctx.fillRect(0, 0, element.clientWidth, element.clientHeight);
+
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = config.colors.glow;
+    drawGlyphs(ctx, element);
+  },
+  teardown({ element }, state) {
+    state.observer?.disconnect();
+    removeOverlay(element, state.canvas);
+  },
+};
+
+/**
+ * Draw the element's text where it is laid out, one line of each text node
+ * at a time. Lines are positioned from the text itself, so this suits
+ * preformatted terminal content; text that wraps is drawn unwrapped.
+ */
+function drawGlyphs(ctx: CanvasRenderingContext2D, element: HTMLElement): void {
+  const origin = element.getBoundingClientRect();
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  ctx.textBaseline = 'top';
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const style = node.parentElement && getComputedStyle(node.parentElement);
+    if (!style || style.visibility === 'hidden') continue;
+    ctx.font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+
+    const text = node.textContent ?? '';
+    let offset = 0;
+    for (const line of text.split('\n')) {
+      if (line.trim()) {
+        range.setStart(node, offset);
+        range.setEnd(node, offset + line.length);
+        const rect = range.getBoundingClientRect();
+        ctx.fillText(line, rect.left - origin.left, rect.top - origin.top);
+      }
+      offset += line.length + 1;
+    }
+  }
+}
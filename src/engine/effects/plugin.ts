@@ -0,0 +1,91 @@
+/**
+ * Effect Plugins
+ *
+ * The interface every render engine effect implements. An effect sets
+ * itself up on the element, contributes to each animation frame, and
+ * removes everything it added on teardown. Effects never write `filter`,
+ * `transform` or `text-shadow` themselves: they push onto the frame, and
+ * the engine joins the contributions of all effects in order.
+ */
+
+import type { SkinConfig, VisualEffect } from '../skins.js';
+
+/** One declared effect param */
+export interface EffectParamSpec {
+  /** Value used when the skin leaves the param out */
+  default?: number;
+  /** Smallest meaningful value; lower ones are clamped */
+  min?: number;
+  /** Largest meaningful value; higher ones are clamped */
+  max?: number;
+  /** What the param controls */
+  description?: string;
+}
+
+/** The params an effect understands, by name */
+export type EffectParamsSchema = Record<string, EffectParamSpec>;
+
+/** What an effect sees of the element it runs on */
+export interface EffectContext {
+  /** Element the engine was initialized for */
+  element: HTMLElement;
+  /** The whole skin */
+  config: SkinConfig;
+  /** The skin's entry for this effect */
+  effect: VisualEffect;
+  /** Effect params with the schema's defaults filled in and ranges clamped */
+  params: Record<string, number>;
+}
+
+/** One animation frame, collected across effects */
+export interface EffectFrame {
+  /** Frame timestamp in milliseconds */
+  time: number;
+  /** Milliseconds since the previous frame (0 on the first) */
+  delta: number;
+  /** CSS filter functions, applied in the order pushed */
+  filters: string[];
+  /** CSS transform functions, applied in the order pushed */
+  transforms: string[];
+  /** CSS text-shadow layers; the first pushed is drawn on top */
+  shadows: string[];
+}
+
+/**
+ * Interface implemented by every effect
+ */
+export interface EffectPlugin<State = unknown> {
+  /** Effect type skins refer to, e.g. `crt-flicker` */
+  readonly type: string;
+  /** Position in the pipeline; lower runs first (default 1000) */
+  readonly order?: number;
+  /** Params the effect reads from `VisualEffect.params` */
+  readonly params: EffectParamsSchema;
+  /** Add what the effect needs to the element; the result is passed back as `state` */
+  setup?(context: EffectContext): State;
+  /** Contribute to a frame */
+  update?(context: EffectContext, frame: EffectFrame, state: State): void;
+  /** Remove everything setup added */
+  teardown?(context: EffectContext, state: State): void;
+}
+
+/** Pipeline position of plugins that declare none */
+export const DEFAULT_EFFECT_ORDER = 1000;
+
+/**
+ * An effect's params with the plugin's defaults filled in and values
+ * clamped to the declared ranges. Params the schema does not declare are
+ * passed through.
+ */
+export function resolveEffectParams(plugin: EffectPlugin, effect: VisualEffect): Record<string, number> {
+  const params: Record<string, number> = {};
+  for (const [key, value] of Object.entries(effect.params ?? {})) {
+    if (typeof value === 'number' && Number.isFinite(value)) params[key] = value;
+  }
+  for (const [key, spec] of Object.entries(plugin.params)) {
+    const value = params[key] ?? spec.default;
+    if (value === undefined) continue;
+    params[key] = Math.min(spec.max ?? Infinity, Math.max(spec.min ?? -Infinity, value));
+  }
+  return params;
+}
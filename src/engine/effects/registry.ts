@@ -0,0 +1,70 @@
+/**
+ * Effect Registry
+ *
+ * The effects the render engine can run, keyed by type. The built-ins are
+ * registered by effects/index.ts; third-party code can add its own and
+ * skins can then use them like any other effect type.
+ */
+
+import { DEFAULT_EFFECT_ORDER } from './plugin.js';
+import type { EffectPlugin } from './plugin.js';
+
+/**
+ * Error raised when an effect cannot be registered
+ */
+export class EffectRegistrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EffectRegistrationError';
+  }
+}
+
+// Shared through globalThis like the adapter registry, so a page that loads
+// the engine bundle and a plugin's own copy see the same effects.
+const REGISTRY_KEY = Symbol.for('retro-skins-platform.effects');
+const registry: Map<string, EffectPlugin> =
+  ((globalThis as Record<symbol, unknown>)[REGISTRY_KEY] as Map<string, EffectPlugin> | undefined)
+  ?? ((globalThis as Record<symbol, unknown>)[REGISTRY_KEY] = new Map());
+
+/**
+ * Register an effect. Throws if the type is taken, unless `replace` is set.
+ */
+export function registerEffect(plugin: EffectPlugin, options: { replace?: boolean } = {}): void {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(plugin.type)) {
+    throw new EffectRegistrationError(`Invalid effect type "${plugin.type}" (use lowercase letters, digits and dashes)`);
+  }
+  if (registry.has(plugin.type) && !options.replace) {
+    throw new EffectRegistrationError(`An effect of type "${plugin.type}" is already registered`);
+  }
+  registry.set(plugin.type, plugin);
+}
+
+/**
+ * Remove an effect; returns whether one was registered
+ */
+export function unregisterEffect(type: string): boolean {
+  return registry.delete(type);
+}
+
+/**
+ * Look up an effect by type
+ */
+export function getEffect(type: string): EffectPlugin | undefined {
+  return registry.get(type);
+}
+
+/**
+ * List registered effects in pipeline order: by `order`, then by type so
+ * ties do not depend on registration order
+ */
+export function listEffects(): EffectPlugin[] {
+  return [...registry.values()].sort((a, b) =>
+    effectOrder(a) - effectOrder(b) || (a.type < b.type ? -1 : a.type > b.type ? 1 : 0));
+}
+
+/**
+ * Position of an effect in the pipeline
+ */
+export function effectOrder(plugin: EffectPlugin): number {
+  return plugin.order ?? DEFAULT_EFFECT_ORDER;
+}
@@ -0,0 +1,32 @@
+/**
+ * SVG Filters
+ *
+ * Effects that need more than the CSS filter functions build an SVG filter
+ * at setup, add it to the page in a hidden SVG, and push `url('#id')` onto
+ * the frame. The page does not have to define anything up front.
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Add a hidden SVG with an empty filter to the page. Fill the returned
+ * filter with primitives and remove the SVG on teardown.
+ */
+export function createSvgFilter(id: string, attributes: Record<string, string> = {}): { svg: SVGSVGElement; filter: SVGElement } {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('width', '0');
+  svg.setAttribute('height', '0');
+  svg.setAttribute('aria-hidden', 'true');
+  svg.style.position = 'absolute';
+  const filter = svgElement(svg, 'filter', { id, ...attributes });
+  document.body.appendChild(svg);
+  return { svg, filter };
+}
+
+/** Append an SVG element with the given attributes */
+export function svgElement(parent: Element, name: string, attributes: Record<string, string>): SVGElement {
+  const element = document.createElementNS(SVG_NS, name) as SVGElement;
+  for (const [key, value] of Object.entries(attributes)) element.setAttribute(key, value);
+  parent.appendChild(element);
+  return element;
+}
@@ -2,40 +2,71 @@
  * Retro Skins Render Engine
  *
  * Browser-based render engine for applying visual effects to terminal content.
- * Uses CSS and canvas for real-time animation and effects.
+ * Uses CSS and canvas for real-time animation and effects. Every effect is
+ * a plugin from the effect registry (see effects/): set up when the skin is
+ * applied, run in pipeline order every frame, and torn down on destroy.
  *
  * NOTE: This module is designed for browser environments (preview tools, web UIs).
  * For Node.js CLI usage, use the terminal adapters directly.
  */
 
-import type { SkinConfig, VisualEffect, EffectType, RenderContext } from './skins.js';
+import { activeEffects, createSkin } from './skins.js';
+import type { SkinConfig, RenderContext, VisualEffect } from './skins.js';
+import { getEffect, listEffects, resolveEffectParams } from './effects/index.js';
+import type { EffectContext, EffectFrame, EffectPlugin } from './effects/index.js';
 export { PRESET_SKINS } from './skins.js';
+export { registerEffect, unregisterEffect, getEffect, listEffects } from './effects/index.js';
+
+/** Custom properties applyBaseStyles sets */
+const COLOR_PROPERTIES = ['--retro-bg', '--retro-fg', '--retro-accent', '--retro-glow'];
+
+/** The element's own styles, from before the engine touched it */
+interface SavedStyles {
+  properties: Record<string, string>;
+  backgroundColor: string;
+  color: string;
+}
+
+/** An effect running on the engine's element */
+interface ActiveEffect {
+  plugin: EffectPlugin;
+  context: EffectContext;
+  state: unknown;
+}
 
 export class RetroRenderEngine {
   private context: RenderContext | null = null;
-  private effects: Map<EffectType, VisualEffect> = new Map();
-  private shakeOffset = { x: 0, y: 0 };
+  private active: ActiveEffect[] = [];
+  private baseFilter = '';
+  private baseTransform = '';
+  private baseTextShadow = '';
+  private savedStyles: SavedStyles | null = null;
   private animationFrame = 0;
   private lastTime = 0;
   
   /** Initialize the render engine for an element */
   initialize(element: HTMLElement, config: SkinConfig): RenderContext {
+    if (this.context) this.destroy();
+    
     this.context = {
       element,
       config,
       animationId: null,
       lastRender: 0,
     };
-    
-    // Parse effects from config
-    this.effects.clear();
-    config.effects.forEach(effect => {
-      this.effects.set(effect.type, effect);
-    });
+    this.lastTime = 0;
+    this.savedStyles = {
+      properties: Object.fromEntries(COLOR_PROPERTIES.map(name => [name, element.style.getPropertyValue(name)])),
+      backgroundColor: element.style.backgroundColor,
+      color: element.style.color,
+    };
     
     // Apply CSS base styles
     this.applyBaseStyles(element, config);
     
+    // Set up the skin's effects
+    this.setupEffects();
+    
     // Start animation loop
     this.startAnimation();
     
@@ -47,19 +78,46 @@ export class RetroRenderEngine {
     const styles = element.style;
     
     // Colors
-    styles.setProperty('--retro-bg', config.colors.background);
-    styles.setProperty('--retro-fg', config.colors.foreground);
-    styles.setProperty('--retro-accent', config.colors.accent);
-    styles.setProperty('--retro-glow', config.colors.glow);
+    const colors = [config.colors.background, config.colors.foreground, config.colors.accent, config.colors.glow];
+    COLOR_PROPERTIES.forEach((name, i) => styles.setProperty(name, colors[i]));
     
     // Base appearance
     styles.backgroundColor = config.colors.background;
     styles.color = config.colors.foreground;
+  }
+  
+  /**
+   * Set up the registered effects the skin switches on, in pipeline order.
+   * Unknown types are skipped; of duplicate entries the last one wins.
+   */
+  private setupEffects(): void {
+    if (!this.context) return;
+    const { element, config } = this.context;
+    
+    this.baseFilter = element.style.filter;
+    this.baseTransform = element.style.transform;
+    this.baseTextShadow = element.style.textShadow;
+    
+    const effects = new Map(activeEffects(config).map(effect => [effect.type, effect]));
+    for (const plugin of listEffects()) {
+      const effect = effects.get(plugin.type);
+      if (!effect) continue;
+      const context: EffectContext = { element, config, effect, params: resolveEffectParams(plugin, effect) };
+      this.active.push({ plugin, context, state: plugin.setup?.(context) });
+    }
+  }
+  
+  /** Tear the effects down in reverse order and restore the element's own filter and transform */
+  private teardownEffects(): void {
+    for (const { plugin, context, state } of [...this.active].reverse()) {
+      plugin.teardown?.(context, state);
+    }
+    this.active = [];
     
-    // Text shadow for glow effect
-    const glowIntensity = this.effects.get('phosphor-glow')?.intensity || 0;
-    if (glowIntensity > 0) {
-      styles.textShadow = `0 0 ${glowIntensity * 4}px ${config.colors.glow}`;
+    if (this.context) {
+      this.context.element.style.filter = this.baseFilter;
+      this.context.element.style.transform = this.baseTransform;
+      this.context.element.style.textShadow = this.baseTextShadow;
     }
   }
   
@@ -78,161 +136,81 @@ export class RetroRenderEngine {
         return;
       }
       
+      const delta = this.lastTime ? timestamp - this.lastTime : 0;
       this.lastTime = timestamp;
       
       // Apply animated effects
-      this.applyAnimatedEffects(timestamp);
+      this.renderFrame(timestamp, delta);
       
-      this.context!.animationId = requestAnimationFrame(animate);
+      this.animationFrame = requestAnimationFrame(animate);
+      this.context!.animationId = this.animationFrame;
+      this.context!.lastRender = timestamp;
     };
     
     this.animationFrame = requestAnimationFrame(animate);
   }
   
-  /** Apply effects that change over time */
-  private applyAnimatedEffects(timestamp: number): void {
+  /**
+   * Run every effect's update and write the combined result: filter and
+   * transform functions and text shadows are appended to the element's
+   * own, in pipeline order, so effects never overwrite each other
+   */
+  private renderFrame(timestamp: number, delta: number): void {
     const element = this.context?.element;
     if (!element) return;
     
-    const shake = this.effects.get('shake');
-    const flicker = this.effects.get('crt-flicker');
-    const animatedBg = this.effects.get('animated-bg');
-    const noise = this.effects.get('noise');
-    
-    // Apply shake effect
-    if (shake && shake.intensity > 0) {
-      const shakeIntensity = shake.intensity * 3;
-      const shakeX = (Math.random() - 0.5) * shakeIntensity;
-      const shakeY = (Math.random() - 0.5) * shakeIntensity;
-      this.shakeOffset = { x: shakeX, y: shakeY };
-      element.style.transform = `translate(${shakeX}px, ${shakeY}px)`;
-    }
-    
-    // Apply CRT flicker
-    if (flicker && flicker.intensity > 0) {
-      const flickerAmount = Math.sin(timestamp * 0.01 * (flicker.params?.frequency || 1)) * flicker.intensity * 0.1;
-      element.style.filter = `brightness(${1 + flickerAmount})`;
-    }
-    
-    // Apply animated background
-    if (animatedBg && animatedBg.intensity > 0) {
-      const speed = animatedBg.params?.speed || 0.5;
-      const gradientShift = (timestamp * 0.001 * speed) % 1;
-      // Background animation would go here
+    const frame: EffectFrame = { time: timestamp, delta, filters: [], transforms: [], shadows: [] };
+    for (const { plugin, context, state } of this.active) {
+      plugin.update?.(context, frame, state);
     }
     
-    // Apply noise
-    if (noise && noise.intensity > 0) {
-      // CSS noise effect via pseudo-element
-      this.applyNoiseEffect(element, noise.intensity);
-    }
+    element.style.filter = compose(this.baseFilter, frame.filters, ' ');
+    element.style.transform = compose(this.baseTransform, frame.transforms, ' ');
+    element.style.textShadow = compose(this.baseTextShadow, frame.shadows, ', ');
   }
   
-  /** Apply CRT scanline effect */
+  /** @deprecated Add a `crt-scanlines` effect to the skin instead */
   applyScanlines(element: HTMLElement, intensity: number): void {
-    const scanlineStyle = `
-      background: repeating-linear-gradient(
-        0deg,
-        transparent,
-        transparent 2px,
-        rgba(0, 0, 0, ${intensity * 0.3}) 2px,
-        rgba(0, 0, 0, ${intensity * 0.3}) 4px
-      );
-    `;
-    element.style.setProperty('--scanlines', scanlineStyle);
+    this.applyEffect(element, { type: 'crt-scanlines', intensity, params: {} });
   }
   
-  /** Apply vignette effect */
+  /** @deprecated Add a `vignette` effect to the skin instead */
   applyVignette(element: HTMLElement, intensity: number): void {
-    const vignette = `
-      radial-gradient(
-        ellipse at center,
-        transparent 0%,
-        transparent ${(1 - intensity) * 80}%,
-        rgba(0, 0, 0, ${intensity * 0.8}) 100%
-      )
-    `;
-    element.style.setProperty('--vignette', `mask-image: ${vignette}`);
-    element.style.webkitMaskImage = vignette as any;
-    element.style.maskImage = vignette as any;
+    this.applyEffect(element, { type: 'vignette', intensity, params: {} });
   }
   
-  /** Apply noise effect via pseudo-element */
-  private applyNoiseEffect(element: HTMLElement, intensity: number): void {
-    // Create noise pattern using SVG filter (valid CSS)
-    const noiseValue = Math.random() * intensity * 0.1;
-    element.style.filter = `url('#retro-noise-filter')`;
-    
-    // Add noise via data URI if needed
-    if (intensity > 0.05) {
-      const noiseDataUrl = this.generateNoiseDataUrl(intensity);
-      if (!element.querySelector('.retro-noise')) {
-        const noiseDiv = document.createElement('div');
-        noiseDiv.className = 'retro-noise';
-        noiseDiv.style.cssText = `
-          position: absolute;
-          inset: 0;
-          pointer-events: none;
-          opacity: ${intensity * 0.1};
-          background: url(${noiseDataUrl});
-          mix-blend-mode: overlay;
-        `;
-        element.appendChild(noiseDiv);
-      }
-    }
+  /** @deprecated Add a `crt-curvature` effect to the skin instead */
+  applyCurvature(element: HTMLElement, intensity: number): void {
+    this.applyEffect(element, { type: 'crt-curvature', intensity, params: {} });
   }
   
-  /** Generate noise pattern data URL */
-  private generateNoiseDataUrl(intensity: number): string {
-    const size = 128;
-    const canvas = document.createElement('canvas');
-    canvas.width = size;
-    canvas.height = size;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) return '';
+  /**
+   * Set up one effect outside the skin, replacing the engine's own run of
+   * it. On the engine's element it is torn down with the skin's effects.
+   */
+  private applyEffect(element: HTMLElement, effect: VisualEffect): void {
+    const plugin = getEffect(effect.type);
+    if (!plugin) return;
+    const ours = this.context?.element === element;
     
-    const imageData = ctx.createImageData(size, size);
-    const data = imageData.data;
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const value = Math.random() * 255 * intensity;
-      data[i] = value;
-      data[i + 1] = value;
-      data[i + 2] = value;
-      data[i + 3] = 255;
-    }
+    const index = ours ? this.active.findIndex(active => active.plugin === plugin) : -1;
+    if (index >= 0) plugin.teardown?.(this.active[index].context, this.active[index].state);
     
-    ctx.putImageData(imageData, 0, 0);
-    return canvas.toDataURL();
-  }
-  
-  /** Apply curvature effect (CRT bend) */
-  applyCurvature(element: HTMLElement, intensity: number): void {
-    const curvature = `radial-gradient(
-      circle at 50% 50%,
-      transparent 50%,
-      rgba(0, 0, 0, ${intensity * 0.5}) 100%
-    )`;
-    element.style.setProperty('--curvature', `box-shadow: inset 0 0 ${intensity * 100}px rgba(0,0,0,${intensity * 0.5})`);
-    
-    // Apply border radius for curved corners
-    const radius = intensity * 20;
-    element.style.borderRadius = `${radius}px`;
-    element.style.boxShadow = `inset 0 0 ${radius}px rgba(0,0,0,${intensity * 0.3})`;
+    const config = ours ? this.context!.config : createSkin({ effects: [effect] });
+    const context: EffectContext = { element, config, effect, params: resolveEffectParams(plugin, effect) };
+    const active = { plugin, context, state: plugin.setup?.(context) };
+    if (index >= 0) this.active[index] = active;
+    else if (ours) this.active.push(active);
   }
   
   /** Update skin configuration at runtime */
   updateConfig(config: SkinConfig): void {
     if (!this.context) return;
     
+    this.teardownEffects();
     this.context.config = config;
-    this.effects.clear();
-    config.effects.forEach(effect => {
-      this.effects.set(effect.type, effect);
-    });
-    
     this.applyBaseStyles(this.context.element, config);
+    this.setupEffects();
   }
   
   /** Get current configuration */
@@ -255,29 +233,31 @@ export class RetroRenderEngine {
     }
   }
   
-  /** Destroy the engine and cleanup */
+  /** Destroy the engine and put the element's own styles back */
   destroy(): void {
     this.pause();
+    this.teardownEffects();
     
-    // Cleanup noise elements
-    const noiseEl = this.context?.element.querySelector('.retro-noise');
-    noiseEl?.remove();
-    
-    // Reset styles
-    if (this.context) {
-      const element = this.context.element;
-      element.style.transform = '';
-      element.style.filter = '';
-      element.style.textShadow = '';
-      element.style.backgroundColor = '';
-      element.style.color = '';
+    if (this.context && this.savedStyles) {
+      const styles = this.context.element.style;
+      for (const [name, value] of Object.entries(this.savedStyles.properties)) {
+        if (value) styles.setProperty(name, value);
+        else styles.removeProperty(name);
+      }
+      styles.backgroundColor = this.savedStyles.backgroundColor;
+      styles.color = this.savedStyles.color;
     }
     
     this.context = null;
-    this.effects.clear();
+    this.savedStyles = null;
   }
 }
 
+/** An element's own value of a list-valued style followed by the effects' entries */
+function compose(base: string, entries: string[], separator: string): string {
+  return [base === 'none' ? '' : base, ...entries].filter(Boolean).join(separator);
+}
+
 /**
  * Create a new render engine instance
  */
@@ -0,0 +1,144 @@
+/**
+ * HTML Preview
+ *
+ * Builds a single self-contained HTML page that runs the browser render
+ * engine on sample terminal screens, one skin or a gallery of them, with
+ * toggles to switch effects on and off. The engine is inlined from its
+ * browser bundle, so the page works offline and can be attached to a PR.
+ */
+
+import { activeEffects } from './skins.js';
+import type { SkinConfig, VisualEffect } from './skins.js';
+import { previewScreen } from './preview.js';
+import type { PreviewSegment } from './preview.js';
+
+export interface HtmlPreviewOptions {
+  /** Browser bundle of the render engine exposing the `RetroSkins` global (dist/engine/engine.browser.js) */
+  engineScript: string;
+  /** Page title (default: the skin's name, or "Retro Skins Gallery") */
+  title?: string;
+}
+
+/** Global name the engine's browser bundle is built with */
+export const ENGINE_GLOBAL = 'RetroSkins';
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 1.5rem; background: #111; color: #ddd; font: 14px/1.4 system-ui, sans-serif; }
+  header { display: flex; flex-wrap: wrap; align-items: baseline; gap: 1rem 2rem; margin-bottom: 1.5rem; }
+  h1 { margin: 0; font-size: 1.25rem; }
+  .toggles { display: flex; flex-wrap: wrap; gap: 0.25rem 1rem; }
+  .toggles label { cursor: pointer; white-space: nowrap; }
+  main { display: grid; gap: 1.5rem; }
+  main.gallery { grid-template-columns: repeat(auto-fill, minmax(30rem, 1fr)); }
+  main.single { max-width: 48rem; }
+  figure { margin: 0; }
+  figcaption { margin-top: 0.5rem; color: #999; }
+  .screen { position: relative; overflow: hidden; padding: 1rem; }
+  .screen pre { margin: 0; font: 15px/1.3 ui-monospace, 'Cascadia Mono', Menlo, monospace; }
+`;
+
+/** Starts one engine per screen and updates their configs when an effect is toggled */
+const PAGE_SCRIPT = `
+(function () {
+  var skins = JSON.parse(document.getElementById('retro-skins-data').textContent);
+  var screens = document.querySelectorAll('.screen');
+  var toggles = document.querySelectorAll('.toggles input');
+  var engines = [];
+
+  function enabledTypes() {
+    var types = {};
+    toggles.forEach(function (toggle) { if (toggle.checked) types[toggle.value] = true; });
+    return types;
+  }
+
+  function start(index) {
+    var element = screens[index];
+    var types = enabledTypes();
+    var config = Object.assign({}, skins[index], {
+      effects: skins[index].effects.filter(function (effect) { return types[effect.type]; }),
+    });
+
+    if (!engines[index]) {
+      engines[index] = ${ENGINE_GLOBAL}.createRenderEngine();
+      engines[index].initialize(element, config);
+    } else {
+      engines[index].updateConfig(config);
+    }
+  }
+
+  function startAll() {
+    for (var i = 0; i < screens.length; i++) start(i);
+  }
+
+  toggles.forEach(function (toggle) { toggle.addEventListener('change', startAll); });
+  startAll();
+})();
+`;
+
+/**
+ * Render a self-contained HTML page previewing one skin, or a gallery when
+ * given several
+ */
+export function renderHtmlPreview(skins: SkinConfig[], options: HtmlPreviewOptions): string {
+  const gallery = skins.length !== 1;
+  const title = options.title ?? (gallery ? 'Retro Skins Gallery' : skins[0].name);
+  const effectTypes = [...new Set(skins.flatMap(skin => activeEffects(skin).map(effect => effect.type)))];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<form class="toggles">
+${effectTypes.map(effectToggle).join('\n')}
+</form>
+</header>
+<main class="${gallery ? 'gallery' : 'single'}">
+${skins.map(skinFigure).join('\n')}
+</main>
+<script id="retro-skins-data" type="application/json">${JSON.stringify(skins).replace(/</g, '\\u003c')}</script>
+<script>${scriptSafe(options.engineScript)}</script>
+<script>${PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function effectToggle(type: VisualEffect['type']): string {
+  return `<label><input type="checkbox" value="${escapeHtml(type)}" checked> ${escapeHtml(type)}</label>`;
+}
+
+function skinFigure(skin: SkinConfig): string {
+  const lines = previewScreen(skin).map(line => line.map(segmentHtml).join(''));
+  const effects = activeEffects(skin).map(effect => effect.type).join(', ') || 'no effects';
+  return `<figure>
+<div class="screen"><pre>${lines.join('\n')}</pre></div>
+<figcaption><strong>${escapeHtml(skin.name)}</strong> · ${escapeHtml(effects)}</figcaption>
+</figure>`;
+}
+
+function segmentHtml(segment: PreviewSegment): string {
+  const style = [
+    segment.fg && `color: ${segment.fg}`,
+    segment.bg && `background: ${segment.bg}`,
+    segment.bold && 'font-weight: bold',
+  ].filter(Boolean).join('; ');
+  const text = escapeHtml(segment.text);
+  return style ? `<span style="${escapeHtml(style)}">${text}</span>` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Keep an inlined script from closing its <script> element early */
+function scriptSafe(source: string): string {
+  return source.replace(/<\/(script)/gi, '<\\/$1');
+}
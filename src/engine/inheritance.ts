@@ -0,0 +1,77 @@
+/**
+ * Skin Inheritance
+ *
+ * Layers a partial skin over a base skin. Objects (colors, palette,
+ * performance, metadata, effect params) merge key by key, arrays and
+ * values replace, and effects merge by type so an override can tweak or
+ * remove a single inherited effect. Resolving `extends` references to
+ * base skins is up to the loader.
+ */
+
+import type { ColorScheme, PerformanceConfig, SkinConfig, SkinMetadata, VisualEffect } from './skins.js';
+
+type DeepPartial<T> = T extends Array<unknown> ? T : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+/** An effect in an override; only `type` is required */
+export interface EffectOverride extends Partial<Omit<VisualEffect, 'type'>> {
+  type: VisualEffect['type'];
+}
+
+/** The parts of a skin an override may change */
+export interface SkinOverride {
+  name?: string;
+  effects?: EffectOverride[];
+  colors?: DeepPartial<ColorScheme>;
+  performance?: Partial<PerformanceConfig>;
+  metadata?: Partial<SkinMetadata>;
+}
+
+/**
+ * Layer an override over a base skin
+ */
+export function mergeSkins(base: SkinConfig, override: SkinOverride): SkinConfig {
+  const { effects, ...rest } = override;
+  const merged = deepMerge(base, rest);
+  return { ...merged, effects: mergeEffects(base.effects, effects ?? []) };
+}
+
+/**
+ * Merge effects by type: a matching effect is deep-merged, `enabled: false`
+ * removes it and `enabled: true` switches an inherited one back on. Effects
+ * the base does not have are appended and must give their intensity.
+ */
+export function mergeEffects(base: VisualEffect[], overrides: EffectOverride[]): VisualEffect[] {
+  const result = [...base];
+  for (const override of overrides) {
+    const { enabled, ...fields } = override;
+    const index = result.findIndex(effect => effect.type === override.type);
+    if (enabled === false) {
+      if (index >= 0) result.splice(index, 1);
+    } else if (index >= 0) {
+      const { enabled: _switchedOff, ...switchedOn } = result[index];
+      result[index] = deepMerge(enabled === true ? switchedOn : result[index], fields);
+    } else {
+      const { intensity, params = {}, ...rest } = fields;
+      if (intensity === undefined) {
+        throw new Error(`Effect "${override.type}" is not in the base skin, so it needs an intensity`);
+      }
+      result.push({ ...rest, intensity, params });
+    }
+  }
+  return result;
+}
+
+function deepMerge<T>(base: T, override: unknown): T {
+  if (override === undefined) return base;
+  if (!isPlainObject(base) || !isPlainObject(override)) return override as T;
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) merged[key] = deepMerge(merged[key], value);
+  }
+  return merged as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
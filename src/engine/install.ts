@@ -0,0 +1,195 @@
+/**
+ * Config Installation
+ *
+ * Filesystem helpers shared by the terminal adapters: path expansion,
+ * atomic writes, timestamped backups and rollback to the latest backup.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface InstallOptions {
+  /** Keep a timestamped backup of any file that gets overwritten */
+  backup: boolean;
+}
+
+export interface ConfigFile {
+  /** Absolute path to write */
+  path: string;
+  /** File content */
+  content: string;
+}
+
+export interface InstallResult {
+  /** Absolute path that was written */
+  path: string;
+  /** Backup of the previous file, if one was made */
+  backupPath?: string;
+}
+
+const BACKUP_SUFFIX = '.bak';
+const BACKUP_INFIX = '.retro-skins-';
+
+/**
+ * Expand `~`, `%VAR%` and `$VAR` in a config path
+ */
+export function expandConfigPath(configPath: string, env: NodeJS.ProcessEnv = process.env): string {
+  let expanded = configPath;
+  if (expanded === '~' || expanded.startsWith('~/') || expanded.startsWith('~\\')) {
+    expanded = path.join(os.homedir(), expanded.slice(1));
+  }
+
+  const lookup = (name: string): string => {
+    const value = env[name];
+    if (value === undefined || value === '') {
+      throw new Error(`Cannot expand ${configPath}: environment variable ${name} is not set`);
+    }
+    return value;
+  };
+
+  expanded = expanded
+    .replace(/%([A-Za-z_][A-Za-z0-9_]*)%/g, (_, name: string) => lookup(name))
+    .replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g, (_, braced: string, bare: string) => lookup(braced ?? bare));
+
+  return path.resolve(expanded);
+}
+
+/**
+ * Write a file atomically: write a sibling temp file, then rename it into place
+ */
+export function writeFileAtomic(filePath: string, content: string | Uint8Array): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeFileSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Create a timestamped backup of a file and return its path
+ */
+export function backupFile(filePath: string): string {
+  const backupPath = backupName(filePath, backupStamp([filePath]));
+  fs.copyFileSync(filePath, backupPath);
+  return backupPath;
+}
+
+/**
+ * List backups of a file, newest first
+ */
+export function listBackups(filePath: string): string[] {
+  const dir = path.dirname(filePath);
+  const prefix = `${path.basename(filePath)}${BACKUP_INFIX}`;
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(file => file.startsWith(prefix) && file.endsWith(BACKUP_SUFFIX))
+    .sort(compareBackups)
+    .reverse()
+    .map(file => path.join(dir, file));
+}
+
+/**
+ * Write a config file, backing up whatever it replaces
+ */
+export function installConfigFile(filePath: string, content: string, options: InstallOptions): InstallResult {
+  const backupPath = options.backup && fs.existsSync(filePath) ? backupFile(filePath) : undefined;
+  writeFileAtomic(filePath, content);
+  return backupPath ? { path: filePath, backupPath } : { path: filePath };
+}
+
+/**
+ * Write several files as one install. Their backups share a timestamp, so
+ * restoreLatestInstall rolls them back together.
+ */
+export function installConfigFiles(files: ConfigFile[], options: InstallOptions): InstallResult[] {
+  const stamp = backupStamp(files.map(file => file.path));
+  return files.map(file => {
+    let backupPath: string | undefined;
+    if (options.backup && fs.existsSync(file.path)) {
+      backupPath = backupName(file.path, stamp);
+      fs.copyFileSync(file.path, backupPath);
+    }
+    writeFileAtomic(file.path, file.content);
+    return backupPath ? { path: file.path, backupPath } : { path: file.path };
+  });
+}
+
+/**
+ * Files in a directory that have backups
+ */
+export function listBackedUpFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const files = fs.readdirSync(dir)
+    .filter(file => file.includes(BACKUP_INFIX) && file.endsWith(BACKUP_SUFFIX))
+    .map(file => path.join(dir, file.slice(0, file.lastIndexOf(BACKUP_INFIX))));
+  return [...new Set(files)];
+}
+
+/**
+ * Roll back the latest install among some files: every file whose latest
+ * backup has the newest timestamp is restored from it, the rest are left.
+ * Returns the restored files with their backups, empty if there are none.
+ */
+export function restoreLatestInstall(filePaths: string[]): InstallResult[] {
+  const latest = [...new Set(filePaths)]
+    .map(filePath => ({ path: filePath, backupPath: listBackups(filePath)[0] }))
+    .filter((file): file is Required<InstallResult> => file.backupPath !== undefined);
+  if (latest.length === 0) return [];
+
+  const newest = latest.map(file => file.backupPath).sort(compareBackups).pop()!;
+  const restored = latest.filter(file => compareBackups(file.backupPath, newest) === 0);
+  for (const file of restored) restoreLatestBackup(file.path);
+  return restored;
+}
+
+/**
+ * Roll a file back to its latest backup. The backup is consumed, so calling
+ * this repeatedly walks further back in history.
+ * Returns the backup that was restored, or null if there is none.
+ */
+export function restoreLatestBackup(filePath: string): string | null {
+  const [latest] = listBackups(filePath);
+  if (!latest) return null;
+
+  writeFileAtomic(filePath, fs.readFileSync(latest));
+  fs.unlinkSync(latest);
+  return latest;
+}
+
+/** A timestamp no backup of the files uses yet */
+function backupStamp(filePaths: string[]): string {
+  const now = new Date().toISOString().replace(/[-:.]/g, '');
+  let stamp = now;
+  for (let n = 1; filePaths.some(filePath => fs.existsSync(backupName(filePath, stamp))); n++) {
+    stamp = `${now}-${n}`;
+  }
+  return stamp;
+}
+
+function backupName(filePath: string, stamp: string): string {
+  return `${filePath}${BACKUP_INFIX}${stamp}${BACKUP_SUFFIX}`;
+}
+
+/** Order backups by timestamp, then by collision counter */
+function compareBackups(a: string, b: string): number {
+  const parse = (file: string): [string, number] => {
+    const match = /^(.*?)(?:-(\d+))?\.bak$/.exec(file.slice(file.lastIndexOf(BACKUP_INFIX) + BACKUP_INFIX.length));
+    return [match?.[1] ?? file, Number(match?.[2] ?? 0)];
+  };
+  const [stampA, counterA] = parse(a);
+  const [stampB, counterB] = parse(b);
+  return stampA < stampB ? -1 : stampA > stampB ? 1 : counterA - counterB;
+}
@@ -0,0 +1,229 @@
+/**
+ * Skin Loader
+ *
+ * Loads custom skins from JSON, YAML or TOML files so teams can ship their
+ * own skins without touching PRESET_SKINS. Skins are resolved by preset name,
+ * by file path, or by name from the user skins directory
+ * (~/.config/retro-skins/skins/ by default). A skin file can `extends`
+ * another skin and only list what it changes.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
+import { createSkin } from './skins.js';
+import { getPresetSkin, listPresetNames } from './catalog.js';
+import { mergeSkins } from './inheritance.js';
+import type { SkinOverride } from './inheritance.js';
+import type { SkinConfig } from './skins.js';
+
+export type SkinFileFormat = 'json' | 'yaml' | 'toml';
+
+/** A skin that can be resolved by key, with where it came from */
+export interface SkinEntry {
+  /** Key used on the command line (preset name or file name without extension) */
+  key: string;
+  /** 'preset' for built-in skins, otherwise the absolute file path */
+  source: string;
+  /** Load the skin configuration */
+  load: () => SkinConfig;
+}
+
+export interface SkinLoaderOptions {
+  /** Directory holding user skins (defaults to getUserSkinsDir()) */
+  skinsDir?: string;
+}
+
+/**
+ * Error raised when a skin file cannot be read or parsed
+ */
+export class SkinLoadError extends Error {
+  constructor(message: string, public readonly filePath?: string) {
+    super(filePath ? `${message} (${filePath})` : message);
+    this.name = 'SkinLoadError';
+  }
+}
+
+const FORMAT_BY_EXTENSION: Record<string, SkinFileFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+};
+
+/**
+ * Detect the skin file format from its extension
+ */
+export function detectSkinFormat(filePath: string): SkinFileFormat | null {
+  return FORMAT_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * Get the user skins directory, honouring XDG_CONFIG_HOME
+ */
+export function getUserSkinsDir(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'retro-skins', 'skins');
+}
+
+/**
+ * Parse skin source text into a partial skin configuration
+ */
+export function parseSkinSource(source: string, format: SkinFileFormat): Partial<SkinConfig> {
+  let data: unknown;
+  try {
+    if (format === 'json') data = JSON.parse(source);
+    else if (format === 'yaml') data = parseYaml(source);
+    else data = parseToml(source);
+  } catch (error) {
+    throw new SkinLoadError(`Invalid ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new SkinLoadError('Skin file must contain an object');
+  }
+
+  return data as Partial<SkinConfig>;
+}
+
+/**
+ * Serialize a skin in one of the skin file formats
+ */
+export function serializeSkin(skin: SkinConfig, format: SkinFileFormat): string {
+  // Round-trip through JSON to drop undefined values, which TOML cannot represent
+  const data = JSON.parse(JSON.stringify(skin));
+  if (format === 'json') return JSON.stringify(data, null, 2) + '\n';
+  if (format === 'yaml') return stringifyYaml(data);
+  return stringifyToml(data) + '\n';
+}
+
+/**
+ * Read a skin file without applying defaults
+ */
+export function readSkinFile(filePath: string): Partial<SkinConfig> {
+  const resolved = path.resolve(expandHome(filePath));
+  const format = detectSkinFormat(resolved);
+  if (!format) {
+    throw new SkinLoadError('Unsupported skin file extension (use .json, .yaml, .yml or .toml)', resolved);
+  }
+
+  let source: string;
+  try {
+    source = fs.readFileSync(resolved, 'utf-8');
+  } catch (error) {
+    throw new SkinLoadError(`Cannot read skin file: ${(error as NodeJS.ErrnoException).code ?? (error as Error).message}`, resolved);
+  }
+
+  try {
+    return parseSkinSource(source, format);
+  } catch (error) {
+    if (error instanceof SkinLoadError) throw new SkinLoadError(error.message, resolved);
+    throw error;
+  }
+}
+
+/**
+ * Load a skin from a .json, .yaml/.yml or .toml file, resolving `extends`
+ */
+export function loadSkinFile(filePath: string, options: SkinLoaderOptions = {}): SkinConfig {
+  const resolved = path.resolve(expandHome(filePath));
+  return resolveSkinData(readSkinFile(resolved), resolved, options);
+}
+
+/**
+ * Turn skin data into a full skin, layering it over the skin it `extends`.
+ * Relative file paths in `extends` are resolved against the directory of
+ * `filePath` (or the working directory when the data has no file).
+ */
+export function resolveSkinData(data: Partial<SkinConfig>, filePath?: string, options: SkinLoaderOptions = {}): SkinConfig {
+  return resolveChain(data, filePath, options, filePath ? [filePath] : []);
+}
+
+function resolveChain(data: Partial<SkinConfig>, filePath: string | undefined, options: SkinLoaderOptions, chain: string[]): SkinConfig {
+  const { extends: ref, ...override } = data;
+  if (ref === undefined) return createSkin(data);
+  if (typeof ref !== 'string' || ref.trim() === '') {
+    throw new SkinLoadError('"extends" must be a skin name or file path', filePath);
+  }
+
+  const preset = getPresetSkin(ref);
+  if (preset) return layerSkin(preset, override as SkinOverride, filePath);
+
+  const baseDir = filePath ? path.dirname(filePath) : process.cwd();
+  const baseFile = detectSkinFormat(ref)
+    ? path.resolve(baseDir, expandHome(ref))
+    : listUserSkins(options).find(entry => entry.key === ref)?.source;
+  if (!baseFile) throw new SkinLoadError(`Unknown skin in extends: ${ref}`, filePath);
+  if (chain.includes(baseFile)) {
+    throw new SkinLoadError(`Circular extends: ${[...chain, baseFile].map(file => path.basename(file)).join(' → ')}`);
+  }
+
+  const base = resolveChain(readSkinFile(baseFile), baseFile, options, [...chain, baseFile]);
+  return layerSkin(base, override as SkinOverride, filePath);
+}
+
+/** mergeSkins, reporting overrides that cannot be applied as load errors */
+function layerSkin(base: SkinConfig, override: SkinOverride, filePath: string | undefined): SkinConfig {
+  try {
+    return mergeSkins(base, override);
+  } catch (error) {
+    throw new SkinLoadError((error as Error).message, filePath);
+  }
+}
+
+/**
+ * List skins found in the user skins directory
+ */
+export function listUserSkins(options: SkinLoaderOptions = {}): SkinEntry[] {
+  const dir = options.skinsDir ?? getUserSkinsDir();
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(file => detectSkinFormat(file) !== null)
+    .sort()
+    .map(file => {
+      const filePath = path.join(dir, file);
+      return {
+        key: path.basename(file, path.extname(file)),
+        source: filePath,
+        load: () => loadSkinFile(filePath, options),
+      };
+    });
+}
+
+/**
+ * List all skins: presets first, then user skins.
+ * User skins whose key clashes with a preset are shadowed by the preset.
+ */
+export function listSkinEntries(options: SkinLoaderOptions = {}): SkinEntry[] {
+  const presets: SkinEntry[] = listPresetNames().map(key => ({
+    key,
+    source: 'preset',
+    load: () => getPresetSkin(key)!,
+  }));
+
+  return [...presets, ...listUserSkins(options)];
+}
+
+/**
+ * Resolve a skin by preset name, user skin name or file path
+ */
+export function resolveSkin(nameOrPath: string, options: SkinLoaderOptions = {}): SkinConfig {
+  const entry = listSkinEntries(options).find(e => e.key === nameOrPath);
+  if (entry) return entry.load();
+
+  if (detectSkinFormat(nameOrPath) && fs.existsSync(expandHome(nameOrPath))) {
+    return loadSkinFile(nameOrPath, options);
+  }
+
+  throw new SkinLoadError(`Unknown skin: ${nameOrPath}`);
+}
+
+/** Expand a leading ~ to the home directory */
+function expandHome(filePath: string): string {
+  if (filePath === '~') return os.homedir();
+  if (filePath.startsWith('~/')) return path.join(os.homedir(), filePath.slice(2));
+  return filePath;
+}
@@ -0,0 +1,216 @@
+/**
+ * Palette Resolution
+ *
+ * Derives the 16-color ANSI palette from a skin's base colors when it does
+ * not define one. Hues are picked in OKLCH so every slot has an even
+ * perceived lightness, and are bent towards the skin's accent according to
+ * the chosen strategy. All adapters go through resolvePalette, so a skin
+ * gets the same palette in every terminal. Also resolves the dim colors and
+ * the 256-color extension (colors 16-255).
+ */
+
+import type { ColorScheme, PaletteStrategy } from './skins.js';
+import { hexToOklch, hueDelta, oklchToHex } from './color.js';
+import type { Oklch } from './color.js';
+
+export type ColorPalette = NonNullable<ColorScheme['palette']>;
+
+export type DimPalette = NonNullable<ColorScheme['dim']>;
+
+/** Colors 16-255 by index; indexes without a color are left to the terminal */
+export type ExtendedColors = Record<number, string>;
+
+export interface ExtendedPaletteOptions {
+  /** How far colors lean towards the skin's glow hue, 0-1 (default 0.5) */
+  tint?: number;
+}
+
+export interface PaletteOptions {
+  /** Overrides the skin's paletteStrategy (default 'tinted') */
+  strategy?: PaletteStrategy;
+}
+
+export const PALETTE_STRATEGIES: readonly PaletteStrategy[] = ['tinted', 'analogous', 'complementary'];
+
+/** Palette slots in ANSI order (colors 0-7; the bright variants are 8-15) */
+export const ANSI_SLOTS = ['black', 'red', 'green', 'yellow', 'blue', 'purple', 'cyan', 'white'] as const;
+
+type ChromaticSlot = 'red' | 'green' | 'yellow' | 'blue' | 'purple' | 'cyan';
+
+/** OKLCH hue of each chromatic slot's canonical color */
+const SLOT_HUES: Record<ChromaticSlot, number> = {
+  red: 29,
+  yellow: 105,
+  green: 142,
+  cyan: 195,
+  blue: 264,
+  purple: 328,
+};
+
+/** Lightness nudges that keep yellow from turning olive and blue from glowing */
+const SLOT_LIGHTNESS: Record<ChromaticSlot, number> = {
+  red: 0,
+  yellow: 0.08,
+  green: 0.02,
+  cyan: 0.02,
+  blue: -0.04,
+  purple: 0,
+};
+
+/**
+ * The skin's own palette, or one generated from its base colors
+ */
+export function resolvePalette(colors: ColorScheme, options: PaletteOptions = {}): ColorPalette {
+  return colors.palette ?? generatePalette(colors, options);
+}
+
+/**
+ * The palette as the 16 ANSI colors in terminal order
+ */
+export function paletteToAnsi(palette: ColorPalette): string[] {
+  return [
+    ...ANSI_SLOTS.map(slot => palette[slot]),
+    ...ANSI_SLOTS.map(slot => palette[`bright${slot[0].toUpperCase()}${slot.slice(1)}` as keyof ColorPalette]),
+  ];
+}
+
+/**
+ * The skin's dim colors in ANSI order, or null when it does not define them
+ */
+export function resolveDimPalette(colors: ColorScheme): string[] | null {
+  return colors.dim ? ANSI_SLOTS.map(slot => colors.dim![slot]) : null;
+}
+
+/**
+ * Colors 16-255 of a skin: the generated cube and ramp when enabled, with
+ * explicit colors on top. Null when the skin does not theme them.
+ */
+export function resolveExtendedPalette(colors: ColorScheme): ExtendedColors | null {
+  const extended = colors.extended;
+  if (!extended) return null;
+
+  const result: ExtendedColors = extended.generate ? generateExtendedPalette(colors, { tint: extended.tint }) : {};
+  for (const [index, color] of Object.entries(extended.colors ?? {})) {
+    const i = Number(index);
+    if (Number.isInteger(i) && i >= 16 && i <= 255) result[i] = color;
+  }
+  return Object.keys(result).length ? result : null;
+}
+
+/**
+ * Generate colors 16-255: the xterm 6x6x6 cube and 24-step grayscale ramp,
+ * with hues pulled towards the skin's glow color. At tint 1 every color
+ * takes the glow hue, like a monochrome phosphor screen.
+ */
+export function generateExtendedPalette(colors: ColorScheme, options: ExtendedPaletteOptions = {}): ExtendedColors {
+  const tint = Math.min(1, Math.max(0, options.tint ?? 0.5));
+  const anchor = [colors.glow, colors.accent, colors.foreground]
+    .map(hexToOklch)
+    .find((c): c is Oklch => c !== null && c.c > 0.03);
+
+  const shade = (r: number, g: number, b: number): string => {
+    const hex = `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+    if (!anchor || tint === 0) return hex;
+    const color = hexToOklch(hex)!;
+    if (color.c < 0.01) {
+      // Grays get a faint cast of the glow hue
+      return oklchToHex({ l: color.l, c: Math.min(anchor.c, 0.1) * tint * 0.25, h: anchor.h });
+    }
+    return oklchToHex({
+      l: color.l,
+      c: color.c + (Math.min(color.c, anchor.c) - color.c) * tint,
+      h: color.h + hueDelta(color.h, anchor.h) * tint,
+    });
+  };
+
+  const result: ExtendedColors = {};
+  const levels = [0, 95, 135, 175, 215, 255];
+  for (let i = 0; i < 216; i++) {
+    result[16 + i] = shade(levels[Math.floor(i / 36)], levels[Math.floor(i / 6) % 6], levels[i % 6]);
+  }
+  for (let i = 0; i < 24; i++) {
+    const v = 8 + i * 10;
+    result[232 + i] = shade(v, v, v);
+  }
+  return result;
+}
+
+/**
+ * Generate a 16-color palette from background, foreground, accent and glow
+ */
+export function generatePalette(colors: ColorScheme, options: PaletteOptions = {}): ColorPalette {
+  const strategy = options.strategy ?? colors.paletteStrategy ?? 'tinted';
+  const background = hexToOklch(colors.background) ?? { l: 0, c: 0, h: 0 };
+  const foreground = hexToOklch(colors.foreground) ?? { l: 1, c: 0, h: 0 };
+  const dark = background.l < 0.6;
+
+  // The accent decides the direction hues lean in; fall back to glow, then foreground
+  const anchor = [colors.accent, colors.glow, colors.foreground]
+    .map(hexToOklch)
+    .find((c): c is Oklch => c !== null && c.c > 0.03);
+
+  const hues = slotHues(strategy, anchor?.h);
+  const chromatic = (slot: ChromaticSlot, bright: boolean): string => {
+    const base = dark ? (bright ? 0.82 : 0.74) : (bright ? 0.45 : 0.53);
+    return oklchToHex({ l: base + SLOT_LIGHTNESS[slot] * (dark ? 1 : 0.5), c: bright ? 0.13 : 0.15, h: hues[slot] });
+  };
+
+  // Neutrals carry a hint of the foreground (or background) hue
+  const tint = foreground.c > 0.02 ? foreground : background;
+  const neutral = (l: number, c = Math.min(tint.c, 0.03)) => oklchToHex({ l, c, h: tint.h });
+  const backgroundTone = (l: number) => oklchToHex({ l, c: Math.min(background.c, 0.04), h: background.h });
+
+  return {
+    black: dark ? backgroundTone(Math.min(background.l + 0.06, 0.35)) : neutral(0.25),
+    red: chromatic('red', false),
+    green: chromatic('green', false),
+    yellow: chromatic('yellow', false),
+    blue: chromatic('blue', false),
+    purple: chromatic('purple', false),
+    cyan: chromatic('cyan', false),
+    white: dark ? neutral(0.84) : backgroundTone(background.l - 0.12),
+    brightBlack: dark ? neutral(0.68) : neutral(0.42),
+    brightRed: chromatic('red', true),
+    brightGreen: chromatic('green', true),
+    brightYellow: chromatic('yellow', true),
+    brightBlue: chromatic('blue', true),
+    brightPurple: chromatic('purple', true),
+    brightCyan: chromatic('cyan', true),
+    brightWhite: dark ? neutral(0.96, Math.min(tint.c, 0.02)) : backgroundTone(background.l - 0.04),
+  };
+}
+
+/**
+ * Hue of each chromatic slot for a strategy:
+ * - tinted: canonical hues leaning slightly towards the accent
+ * - analogous: hues pulled into a band around the accent
+ * - complementary: hues pulled towards the accent or its complement, whichever is nearer
+ * In tinted and complementary palettes the slot nearest the accent takes its exact hue.
+ */
+function slotHues(strategy: PaletteStrategy, anchorHue: number | undefined): Record<ChromaticSlot, number> {
+  const hues = { ...SLOT_HUES };
+  if (anchorHue === undefined) return hues;
+
+  const slots = Object.keys(hues) as ChromaticSlot[];
+  for (const slot of slots) {
+    const hue = SLOT_HUES[slot];
+    if (strategy === 'analogous') {
+      hues[slot] = anchorHue + hueDelta(anchorHue, hue) * 0.45;
+    } else if (strategy === 'complementary') {
+      const toAnchor = hueDelta(hue, anchorHue);
+      const toComplement = hueDelta(hue, anchorHue + 180);
+      hues[slot] = hue + (Math.abs(toAnchor) <= Math.abs(toComplement) ? toAnchor : toComplement) * 0.35;
+    } else {
+      hues[slot] = hue + hueDelta(hue, anchorHue) * 0.15;
+    }
+  }
+
+  if (strategy !== 'analogous') {
+    const nearest = slots.reduce((a, b) =>
+      Math.abs(hueDelta(SLOT_HUES[a], anchorHue)) <= Math.abs(hueDelta(SLOT_HUES[b], anchorHue)) ? a : b);
+    hues[nearest] = anchorHue;
+  }
+
+  for (const slot of slots) hues[slot] = (hues[slot] + 360) % 360;
+  return hues;
+}
@@ -0,0 +1,222 @@
+/**
+ * Terminal Preview
+ *
+ * Renders a sample screen for a skin with ANSI escapes: palette swatches,
+ * `ls`, `git diff` and prompt output, cursor and selection, all drawn in the
+ * skin's colors on its background. Colors are written as 24-bit escapes or
+ * mapped to the nearest of the 256 or 16 colors the terminal supports.
+ */
+
+import type { SkinConfig } from './skins.js';
+import { ANSI_SLOTS, resolvePalette } from './palette.js';
+import type { ColorPalette } from './palette.js';
+import { colorDistance, formatHexColor, parseHexColor } from './color.js';
+import type { Rgb } from './color.js';
+
+/** How many colors the terminal can show; `none` writes plain text */
+export type ColorDepth = 'truecolor' | '256' | '16' | 'none';
+
+export interface PreviewOptions {
+  /** Color depth to render with (default truecolor) */
+  depth?: ColorDepth;
+  /** Width of the sample screen in columns (default 48) */
+  width?: number;
+}
+
+/** A run of text drawn in one style; colors default to the skin's foreground and background */
+export interface PreviewSegment {
+  text: string;
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+}
+
+const ESC = '\x1b[';
+const RESET = `${ESC}0m`;
+
+/** xterm's default colors 0-15, used to pick the nearest color in 16-color mode */
+const XTERM_16 = [
+  '#000000', '#CD0000', '#00CD00', '#CDCD00', '#0000EE', '#CD00CD', '#00CDCD', '#E5E5E5',
+  '#7F7F7F', '#FF0000', '#00FF00', '#FFFF00', '#5C5CFF', '#FF00FF', '#00FFFF', '#FFFFFF',
+].map(hex => parseHexColor(hex)!);
+
+/** Colors 16-255 of the xterm palette (the 0-15 are themed and unreliable) */
+const XTERM_256 = (() => {
+  const levels = [0, 95, 135, 175, 215, 255];
+  const colors: Rgb[] = [];
+  for (let i = 0; i < 216; i++) {
+    colors.push({ r: levels[Math.floor(i / 36)] / 255, g: levels[Math.floor(i / 6) % 6] / 255, b: levels[i % 6] / 255 });
+  }
+  for (let i = 0; i < 24; i++) {
+    const v = (8 + i * 10) / 255;
+    colors.push({ r: v, g: v, b: v });
+  }
+  return colors;
+})();
+
+/**
+ * Work out the color depth from the environment: NO_COLOR and FORCE_COLOR
+ * win, output that is not a terminal gets no color, then COLORTERM and TERM
+ */
+export function detectColorDepth(env: NodeJS.ProcessEnv = process.env, isTTY = Boolean(process.stdout.isTTY)): ColorDepth {
+  if (env.NO_COLOR !== undefined && env.NO_COLOR !== '') return 'none';
+
+  const forced = env.FORCE_COLOR;
+  if (forced !== undefined) {
+    const level = forced === '' || forced === 'true' ? 1 : Number(forced);
+    if (level === 0 || forced === 'false') return 'none';
+    if (level >= 3) return 'truecolor';
+    if (level === 2) return '256';
+    if (level === 1) return '16';
+  }
+
+  if (!isTTY) return 'none';
+  const colorTerm = (env.COLORTERM ?? '').toLowerCase();
+  if (colorTerm === 'truecolor' || colorTerm === '24bit') return 'truecolor';
+  const term = (env.TERM ?? '').toLowerCase();
+  if (term === 'dumb') return 'none';
+  if (term.includes('truecolor') || term.includes('direct')) return 'truecolor';
+  if (term.includes('256')) return '256';
+  return '16';
+}
+
+/**
+ * The escape sequence that sets a foreground or background color, or ''
+ * for invalid colors and depth `none`
+ */
+export function ansiColor(color: string, depth: ColorDepth, layer: 'fg' | 'bg' = 'fg'): string {
+  const rgb = parseHexColor(color);
+  if (!rgb || depth === 'none') return '';
+
+  if (depth === 'truecolor') {
+    const [r, g, b] = [rgb.r, rgb.g, rgb.b].map(v => Math.round(v * 255));
+    return `${ESC}${layer === 'fg' ? 38 : 48};2;${r};${g};${b}m`;
+  }
+  if (depth === '256') {
+    return `${ESC}${layer === 'fg' ? 38 : 48};5;${16 + nearest(rgb, XTERM_256)}m`;
+  }
+
+  const index = nearest(rgb, XTERM_16);
+  const base = (layer === 'fg' ? 30 : 40) + (index >= 8 ? 60 : 0);
+  return `${ESC}${base + (index % 8)}m`;
+}
+
+/**
+ * The color an escape from ansiColor actually shows, as hex
+ */
+export function quantizeColor(color: string, depth: ColorDepth): string {
+  const rgb = parseHexColor(color);
+  if (!rgb || depth === 'truecolor' || depth === 'none') return color;
+  const table = depth === '256' ? XTERM_256 : XTERM_16;
+  return formatHexColor(table[nearest(rgb, table)]);
+}
+
+/**
+ * Render a sample screen for a skin. Every line is exactly `width` columns
+ * wide, so two previews can be placed side by side.
+ */
+export function renderSkinPreview(skin: SkinConfig, options: PreviewOptions = {}): string[] {
+  const depth = options.depth ?? 'truecolor';
+  const width = Math.max(options.width ?? 48, 32);
+  const base = { fg: skin.colors.foreground, bg: skin.colors.background };
+  return previewScreen(skin, depth === 'none' ? 'hex' : 'blocks')
+    .map(segments => renderLine(segments, width, base, depth));
+}
+
+/**
+ * The lines of the sample screen: a title, the palette as color blocks (or
+ * hex values), a prompt, `ls` and `git diff` output, a selection and the cursor
+ */
+export function previewScreen(skin: SkinConfig, swatches: 'blocks' | 'hex' = 'blocks'): PreviewSegment[][] {
+  const { background, foreground, accent } = skin.colors;
+  const p = resolvePalette(skin.colors);
+  const prompt = (command: string): PreviewSegment[] => [
+    { text: 'user@retro', fg: p.green, bold: true },
+    { text: ':' },
+    { text: '~/project', fg: p.blue, bold: true },
+    { text: `$ ${command}` },
+  ];
+
+  return [
+    [{ text: ` ${skin.name}`, bold: true }],
+    [],
+    ...swatchRows(p, swatches).map(row => [{ text: ' ' }, ...row]),
+    [],
+    prompt('ls'),
+    [
+      { text: 'README.md  ' },
+      { text: 'src', fg: p.blue, bold: true },
+      { text: '  ' },
+      { text: 'build.sh', fg: p.green, bold: true },
+      { text: '  ' },
+      { text: 'retro.tar.gz', fg: p.red, bold: true },
+    ],
+    prompt('git diff'),
+    [{ text: 'diff --git a/src/main.c b/src/main.c', bold: true }],
+    [{ text: '@@ -4,3 +4,3 @@', fg: p.cyan }, { text: ' int main(void)', fg: p.brightBlack }],
+    [{ text: '-  puts("hello");', fg: p.red }],
+    [{ text: '+  puts("hello, world");', fg: p.green }],
+    [{ text: '   return 0; ' }, { text: '// done', fg: p.brightBlack }],
+    [{ text: 'warning: ', fg: p.yellow, bold: true }, { text: 'unused variable ' }, { text: "'argc'", fg: p.purple }],
+    [{ text: 'Selected text', fg: foreground, bg: accent }, { text: ' normal text' }],
+    [...prompt(''), { text: ' ', fg: background, bg: accent }],
+  ];
+}
+
+/**
+ * Place rendered previews next to each other; shorter ones are padded with blank lines
+ */
+export function sideBySide(previews: string[][], gap = 2): string[] {
+  const widths = previews.map(lines => visibleLength(lines[0] ?? ''));
+  const height = Math.max(...previews.map(lines => lines.length));
+  return Array.from({ length: height }, (_, row) =>
+    previews.map((lines, i) => lines[row] ?? ' '.repeat(widths[i])).join(' '.repeat(gap)).trimEnd());
+}
+
+/** Swatch rows for the normal and bright colors, as blocks or hex values */
+function swatchRows(p: ColorPalette, swatches: 'blocks' | 'hex'): PreviewSegment[][] {
+  const normal = ANSI_SLOTS.map(slot => p[slot]);
+  const bright = ANSI_SLOTS.map(slot => p[`bright${slot[0].toUpperCase()}${slot.slice(1)}` as keyof ColorPalette]);
+  if (swatches === 'hex') {
+    return [normal.slice(0, 4), normal.slice(4), bright.slice(0, 4), bright.slice(4)]
+      .map(row => row.map(color => ({ text: `${color.padEnd(8)}` })));
+  }
+  return [normal, bright].map(row => row.map(color => ({ text: '    ', bg: color })));
+}
+
+/** Draw segments on the base colors, cut or padded to exactly `width` columns */
+function renderLine(segments: PreviewSegment[], width: number, base: { fg: string; bg: string }, depth: ColorDepth): string {
+  let out = '';
+  let used = 0;
+  for (const segment of [...segments, { text: ' '.repeat(width) }]) {
+    if (used >= width) break;
+    const text = segment.text.slice(0, width - used);
+    used += text.length;
+    out += depth === 'none'
+      ? text
+      : `${ansiColor(segment.bg ?? base.bg, depth, 'bg')}${ansiColor(segment.fg ?? base.fg, depth, 'fg')}${segment.bold ? `${ESC}1m` : ''}${text}${RESET}`;
+  }
+  return out;
+}
+
+/** SGR escape sequences, as emitted by ansiColor */
+const SGR_PATTERN = new RegExp('\u001b\\[[0-9;]*m', 'g');
+
+/** Columns a string takes up once escape sequences are removed */
+function visibleLength(text: string): number {
+  return text.replace(SGR_PATTERN, '').length;
+}
+
+/** Index of the perceptually nearest color in a table */
+function nearest(color: Rgb, table: Rgb[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  table.forEach((candidate, i) => {
+    const distance = colorDistance(color, candidate);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
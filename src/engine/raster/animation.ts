@@ -0,0 +1,93 @@
+/**
+ * Skin Animations
+ *
+ * Renders the time-based effects (crt-flicker, shake, animated-bg and
+ * phosphor-persistence) on top of the thumbnail renderer, stepping time at
+ * a fixed rate, and encodes the frames as a looping GIF or APNG. Like
+ * thumbnails, the same seed always gives the same bytes.
+ */
+
+import { findActiveEffect } from '../skins.js';
+import type { EffectType, SkinConfig } from '../skins.js';
+import { parseHexColor } from '../color.js';
+import type { Rgb } from '../color.js';
+import { cloneRaster, createRandom } from './image.js';
+import type { Raster } from './image.js';
+import { animatedBackgroundPass, flickerPass, persistencePass, shakePass } from './effects.js';
+import { applyStaticEffects, drawScreen } from './thumbnail.js';
+import type { ThumbnailOptions } from './thumbnail.js';
+import { encodeGif } from './gif.js';
+import { encodeApng } from './png.js';
+
+export type AnimationFormat = 'gif' | 'apng';
+
+export const ANIMATION_FORMATS: readonly AnimationFormat[] = ['gif', 'apng'];
+
+export interface AnimationOptions extends ThumbnailOptions {
+  /** Length in seconds (default 3) */
+  duration?: number;
+  /** Frames per second (default the skin's performance.targetFps; at most 50 for GIF) */
+  fps?: number;
+}
+
+/** Effects that change from frame to frame, in the order they are applied */
+export const ANIMATED_EFFECTS: readonly EffectType[] = ['animated-bg', 'shake', 'crt-flicker', 'phosphor-persistence'];
+
+/** GIF delays under 2/100 s are slowed down by browsers */
+const GIF_MAX_FPS = 50;
+
+/**
+ * Render an animation of a skin as GIF or APNG
+ */
+export function renderSkinAnimation(skin: SkinConfig, format: AnimationFormat, options: AnimationOptions = {}): Buffer {
+  const fps = animationFps(skin, format, options);
+  const frames = skinFrames(skin, { ...options, fps });
+  return format === 'gif' ? encodeGif(frames, fps) : encodeApng(frames, fps);
+}
+
+/**
+ * The frame rate an animation is rendered at
+ */
+export function animationFps(skin: SkinConfig, format: AnimationFormat, options: AnimationOptions = {}): number {
+  const fps = Math.max(1, options.fps ?? skin.performance.targetFps);
+  return format === 'gif' ? Math.min(fps, GIF_MAX_FPS) : fps;
+}
+
+/**
+ * Generate the frames of an animation one at a time. The screen is drawn
+ * once; each frame runs the animated effects (shake and animated-bg before
+ * the static effects, flicker and persistence after) at its time.
+ */
+export function* skinFrames(skin: SkinConfig, options: AnimationOptions = {}): Generator<Raster> {
+  const fps = Math.max(1, options.fps ?? skin.performance.targetFps);
+  const frameCount = Math.max(1, Math.round((options.duration ?? 3) * fps));
+  const scale = Math.max(1, Math.round(options.scale ?? 2));
+  const random = createRandom(options.seed ?? 0);
+  const effectsOn = options.effects !== false;
+  const effect = (type: EffectType) => effectsOn ? findActiveEffect(skin, type) : undefined;
+
+  const background = toRgb(skin.colors.background, { r: 0, g: 0, b: 0 });
+  const accent = toRgb(skin.colors.accent, toRgb(skin.colors.foreground, { r: 1, g: 1, b: 1 }));
+  const screen = drawScreen(skin, options);
+  const animatedBg = effect('animated-bg');
+  const shake = effect('shake');
+  const flicker = effect('crt-flicker');
+  const persistence = effect('phosphor-persistence');
+
+  let previous: Raster | null = null;
+  for (let i = 0; i < frameCount; i++) {
+    const time = i / fps;
+    let frame = cloneRaster(screen);
+    if (animatedBg) frame = animatedBackgroundPass(frame, animatedBg, time, accent, background);
+    if (shake) frame = shakePass(frame, shake, random, background, { scale });
+    if (effectsOn) frame = applyStaticEffects(frame, skin, { scale, random });
+    if (flicker) frame = flickerPass(frame, flicker, time, random);
+    if (persistence) frame = persistencePass(frame, previous, persistence);
+    previous = frame;
+    yield frame;
+  }
+}
+
+function toRgb(color: string, fallback: Rgb): Rgb {
+  return parseHexColor(color) ?? fallback;
+}
@@ -0,0 +1,228 @@
+/**
+ * Image-Space Effects
+ *
+ * Software versions of the CRT effects, applied to a rendered screen one
+ * pass at a time. Time-based passes take the frame's time in seconds.
+ * Sizes given in effect params (glow radius, scanline spacing) are in font
+ * pixels and scaled with the image.
+ */
+
+import type { VisualEffect } from '../skins.js';
+import type { Rgb } from '../color.js';
+import type { Raster } from './image.js';
+import { cloneRaster, createRaster, translateRaster } from './image.js';
+
+export interface PassOptions {
+  /** Image pixels per font pixel (default 1) */
+  scale?: number;
+}
+
+/**
+ * Darken every other band of rows, `lineSpacing` font pixels per band pair
+ */
+export function scanlinesPass(raster: Raster, effect: VisualEffect, options: PassOptions = {}): Raster {
+  const out = cloneRaster(raster);
+  const period = Math.max(2, Math.round((effect.params.lineSpacing ?? 2) * (options.scale ?? 1)));
+  const shade = 1 - Math.min(1, effect.intensity) * 0.6;
+  for (let y = 0; y < out.height; y++) {
+    if (y % period < period / 2) continue;
+    for (let i = y * out.width * 3; i < (y + 1) * out.width * 3; i++) out.data[i] *= shade;
+  }
+  return out;
+}
+
+/**
+ * Bloom everything brighter than the background in the glow color; `radius`
+ * sets the spread and a higher `falloff` keeps it closer to the text
+ */
+export function glowPass(raster: Raster, effect: VisualEffect, glow: Rgb, background: Rgb, options: PassOptions = {}): Raster {
+  const { width, height } = raster;
+  const radius = Math.max(1, Math.round((effect.params.radius ?? 2) * (options.scale ?? 1)));
+  const falloff = Math.min(1, Math.max(0, effect.params.falloff ?? 0.5));
+
+  // Light emitted above the background, as one channel
+  const emission = new Float32Array(width * height);
+  for (let p = 0; p < emission.length; p++) {
+    const i = p * 3;
+    emission[p] = Math.max(0, raster.data[i] - background.r, raster.data[i + 1] - background.g, raster.data[i + 2] - background.b);
+  }
+  // Three box blurs approximate a gaussian
+  let blurred: Float32Array = emission;
+  for (let pass = 0; pass < 3; pass++) blurred = boxBlur(blurred, width, height, radius);
+
+  const out = cloneRaster(raster);
+  const strength = Math.min(1, effect.intensity) * (1 - falloff * 0.5) * 0.6;
+  for (let p = 0; p < blurred.length; p++) {
+    const amount = blurred[p] * strength;
+    out.data[p * 3] += glow.r * amount;
+    out.data[p * 3 + 1] += glow.g * amount;
+    out.data[p * 3 + 2] += glow.b * amount;
+  }
+  return out;
+}
+
+/**
+ * Darken the corners; the darkening starts further out for a larger `radius`
+ */
+export function vignettePass(raster: Raster, effect: VisualEffect): Raster {
+  const out = cloneRaster(raster);
+  const intensity = Math.min(1, effect.intensity);
+  const start = Math.min(0.95, (effect.params.radius ?? 0.8) * (1 - intensity * 0.5));
+  for (let y = 0; y < out.height; y++) {
+    for (let x = 0; x < out.width; x++) {
+      const nx = (x + 0.5) / out.width * 2 - 1;
+      const ny = (y + 0.5) / out.height * 2 - 1;
+      const d = Math.hypot(nx, ny) / Math.SQRT2;
+      const shade = 1 - intensity * 0.8 * smoothstep(start, 1, d);
+      const i = (y * out.width + x) * 3;
+      out.data[i] *= shade;
+      out.data[i + 1] *= shade;
+      out.data[i + 2] *= shade;
+    }
+  }
+  return out;
+}
+
+/**
+ * Bulge the picture like a curved CRT face (barrel distortion); the area
+ * pulled in from outside the image is black. A larger `radius` is flatter.
+ */
+export function curvaturePass(raster: Raster, effect: VisualEffect): Raster {
+  const { width, height } = raster;
+  const out = createRaster(width, height);
+  const k = Math.min(1, effect.intensity) * 0.25 / Math.max(0.1, effect.params.radius ?? 1);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const nx = (x + 0.5) / width * 2 - 1;
+      const ny = (y + 0.5) / height * 2 - 1;
+      const bend = 1 + k * (nx * nx + ny * ny);
+      const sx = ((nx * bend + 1) / 2) * width - 0.5;
+      const sy = ((ny * bend + 1) / 2) * height - 0.5;
+      if (sx < -0.5 || sy < -0.5 || sx > width - 0.5 || sy > height - 0.5) continue;
+      sampleBilinear(raster, sx, sy, out.data, (y * width + x) * 3);
+    }
+  }
+  return out;
+}
+
+/**
+ * Add monochrome grain; `amount` is the grain strength (default a fifth of
+ * the intensity)
+ */
+export function noisePass(raster: Raster, effect: VisualEffect, random: () => number): Raster {
+  const out = cloneRaster(raster);
+  const amount = effect.params.amount ?? Math.min(1, effect.intensity) * 0.2;
+  for (let p = 0; p < out.width * out.height; p++) {
+    const grain = (random() - 0.5) * 2 * amount;
+    out.data[p * 3] += grain;
+    out.data[p * 3 + 1] += grain;
+    out.data[p * 3 + 2] += grain;
+  }
+  return out;
+}
+
+/**
+ * Vary the brightness: a slow sine at `frequency` (as in the render
+ * engine) plus irregular jitter
+ */
+export function flickerPass(raster: Raster, effect: VisualEffect, time: number, random: () => number): Raster {
+  const out = cloneRaster(raster);
+  const wave = Math.sin(time * 10 * (effect.params.frequency ?? 1)) * 0.1 + (random() - 0.5) * 0.1;
+  const brightness = 1 + wave * Math.min(1, effect.intensity);
+  for (let i = 0; i < out.data.length; i++) out.data[i] *= brightness;
+  return out;
+}
+
+/**
+ * Move the picture by a random offset of up to 1.5 font pixels per unit of intensity
+ */
+export function shakePass(raster: Raster, effect: VisualEffect, random: () => number, background: Rgb, options: PassOptions = {}): Raster {
+  const reach = Math.min(1, effect.intensity) * 3 * (options.scale ?? 1);
+  return translateRaster(raster, (random() - 0.5) * reach, (random() - 0.5) * reach, background);
+}
+
+/**
+ * Drift a diagonal band of the accent color across the background; text is
+ * left alone. `speed` is in bands per second.
+ */
+export function animatedBackgroundPass(raster: Raster, effect: VisualEffect, time: number, accent: Rgb, background: Rgb): Raster {
+  const out = cloneRaster(raster);
+  const phase = time * (effect.params.speed ?? 0.5);
+  const strength = Math.min(1, effect.intensity) * 0.35;
+  for (let y = 0; y < out.height; y++) {
+    for (let x = 0; x < out.width; x++) {
+      const i = (y * out.width + x) * 3;
+      const textAmount = Math.max(
+        Math.abs(out.data[i] - background.r),
+        Math.abs(out.data[i + 1] - background.g),
+        Math.abs(out.data[i + 2] - background.b),
+      );
+      const band = 0.5 + 0.5 * Math.sin(2 * Math.PI * ((x / out.width) * 0.7 + (y / out.height) * 0.3 - phase));
+      const amount = strength * band * Math.max(0, 1 - textAmount * 4);
+      out.data[i] += (accent.r - out.data[i]) * amount;
+      out.data[i + 1] += (accent.g - out.data[i + 1]) * amount;
+      out.data[i + 2] += (accent.b - out.data[i + 2]) * amount;
+    }
+  }
+  return out;
+}
+
+/**
+ * Let the previous frame fade out instead of vanishing: each pixel keeps
+ * the brighter of its new value and the previous one dimmed by `decay`
+ */
+export function persistencePass(raster: Raster, previous: Raster | null, effect: VisualEffect): Raster {
+  if (!previous) return raster;
+  const out = cloneRaster(raster);
+  const keep = Math.min(1, effect.intensity) * (1 - Math.min(1, Math.max(0, effect.params.decay ?? 0.1)));
+  for (let i = 0; i < out.data.length; i++) out.data[i] = Math.max(out.data[i], previous.data[i] * keep);
+  return out;
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/** Separable box blur of a single-channel image; edges are clamped */
+function boxBlur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const size = radius * 2 + 1;
+  const horizontal = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) sum += values[row + clamp(x, width)];
+    for (let x = 0; x < width; x++) {
+      horizontal[row + x] = sum / size;
+      sum += values[row + clamp(x + radius + 1, width)] - values[row + clamp(x - radius, width)];
+    }
+  }
+
+  const out = new Float32Array(values.length);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) sum += horizontal[clamp(y, height) * width + x];
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = sum / size;
+      sum += horizontal[clamp(y + radius + 1, height) * width + x] - horizontal[clamp(y - radius, height) * width + x];
+    }
+  }
+  return out;
+}
+
+function clamp(i: number, size: number): number {
+  return Math.min(size - 1, Math.max(0, i));
+}
+
+function sampleBilinear(raster: Raster, x: number, y: number, target: Float32Array, offset: number): void {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+  for (let c = 0; c < 3; c++) {
+    const at = (px: number, py: number) => raster.data[(clamp(py, raster.height) * raster.width + clamp(px, raster.width)) * 3 + c];
+    const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+    const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+    target[offset + c] = top * (1 - fy) + bottom * fy;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * GIF Encoder
+ *
+ * Writes looping animated GIFs. Every frame gets its own 256-color palette
+ * from a median cut, so glow gradients keep their detail, and frames are
+ * encoded as they arrive so long animations are never all in memory.
+ */
+
+import type { Raster } from './image.js';
+import { rasterToRgb8 } from './png.js';
+
+/** Quantized frame: palette (RGB triples) and one palette index per pixel */
+interface IndexedFrame {
+  palette: Uint8Array;
+  indices: Uint8Array;
+}
+
+/**
+ * Encode frames as a looping GIF. GIF delays count in hundredths of a
+ * second, so at rates that do not divide 100 they alternate to keep the
+ * total length exact; browsers slow down delays under 2/100 s, so keep
+ * `fps` at 50 or less.
+ */
+export function encodeGif(frames: Iterable<Raster>, fps: number): Buffer {
+  const delay = 1000 / fps;
+  const parts: Buffer[] = [];
+  let width = 0;
+  let height = 0;
+  let elapsed = 0;
+  let frameCount = 0;
+
+  for (const frame of frames) {
+    if (frameCount === 0) {
+      width = frame.width;
+      height = frame.height;
+    } else if (frame.width !== width || frame.height !== height) {
+      throw new RangeError('All frames of a GIF must have the same size');
+    }
+    const centiseconds = Math.round((elapsed + delay) / 10) - Math.round(elapsed / 10);
+    elapsed += delay;
+    parts.push(gifFrame(quantizeFrame(frame), width, height, centiseconds));
+    frameCount++;
+  }
+  if (frameCount === 0) throw new RangeError('A GIF needs at least one frame');
+
+  const screen = Buffer.alloc(13);
+  screen.write('GIF89a', 0, 'ascii');
+  screen.writeUInt16LE(width, 6);
+  screen.writeUInt16LE(height, 8);
+  // No global color table; each frame has its own
+  const loop = Buffer.from([0x21, 0xFF, 0x0B, ...Buffer.from('NETSCAPE2.0', 'ascii'), 0x03, 0x01, 0x00, 0x00, 0x00]);
+  return Buffer.concat([screen, loop, ...parts, Buffer.from([0x3B])]);
+}
+
+/**
+ * Reduce a frame to at most 256 colors with a median cut over its colors
+ * at 5 bits per channel; each palette color is the mean of the pixels it
+ * stands for, so flat areas keep their exact color
+ */
+function quantizeFrame(raster: Raster): IndexedFrame {
+  const rgb = rasterToRgb8(raster);
+  const pixels = raster.width * raster.height;
+  const keys = new Uint16Array(pixels);
+  const count = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  for (let p = 0; p < pixels; p++) {
+    const r = rgb[p * 3];
+    const g = rgb[p * 3 + 1];
+    const b = rgb[p * 3 + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    keys[p] = key;
+    count[key]++;
+    sums[key * 3] += r;
+    sums[key * 3 + 1] += g;
+    sums[key * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let key = 0; key < 32768; key++) if (count[key] > 0) used.push(key);
+  const boxes = medianCut(used, count, 256);
+
+  const palette = new Uint8Array(256 * 3);
+  const lookup = new Uint8Array(32768);
+  boxes.forEach((box, index) => {
+    let n = 0;
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const key of box) {
+      n += count[key];
+      r += sums[key * 3];
+      g += sums[key * 3 + 1];
+      b += sums[key * 3 + 2];
+      lookup[key] = index;
+    }
+    palette[index * 3] = Math.round(r / n);
+    palette[index * 3 + 1] = Math.round(g / n);
+    palette[index * 3 + 2] = Math.round(b / n);
+  });
+
+  const indices = new Uint8Array(pixels);
+  for (let p = 0; p < pixels; p++) indices[p] = lookup[keys[p]];
+  return { palette, indices };
+}
+
+/** Split the color keys into at most `limit` boxes, always cutting the box with the widest, busiest channel */
+function medianCut(keys: number[], count: Uint32Array, limit: number): number[][] {
+  const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31;
+  const measure = (box: number[]) => {
+    let pixels = 0;
+    const min = [31, 31, 31];
+    const max = [0, 0, 0];
+    for (const key of box) {
+      pixels += count[key];
+      for (let c = 0; c < 3; c++) {
+        min[c] = Math.min(min[c], channel(key, c));
+        max[c] = Math.max(max[c], channel(key, c));
+      }
+    }
+    const widest = [0, 1, 2].reduce((a, c) => (max[c] - min[c] > max[a] - min[a] ? c : a), 0);
+    return { keys: box, pixels, channel: widest, score: box.length < 2 ? 0 : (max[widest] - min[widest]) * Math.sqrt(pixels) };
+  };
+
+  const boxes = [measure(keys)];
+  while (boxes.length < limit) {
+    const best = boxes.reduce((a, box, i) => (box.score > boxes[a].score ? i : a), 0);
+    const { keys: box, pixels, channel: c, score } = boxes[best];
+    if (score === 0) break;
+
+    box.sort((a, b) => channel(a, c) - channel(b, c));
+    let half = 0;
+    let split = 1;
+    for (; split < box.length - 1; split++) {
+      half += count[box[split - 1]];
+      if (half >= pixels / 2) break;
+    }
+    boxes.splice(best, 1, measure(box.slice(0, split)), measure(box.slice(split)));
+  }
+  return boxes.map(box => box.keys);
+}
+
+/** Graphic control extension, image descriptor, local palette and image data for one frame */
+function gifFrame(frame: IndexedFrame, width: number, height: number, centiseconds: number): Buffer {
+  const control = Buffer.from([0x21, 0xF9, 0x04, 0x04, 0, 0, 0, 0x00]);
+  control.writeUInt16LE(centiseconds, 4);
+
+  const descriptor = Buffer.alloc(10);
+  descriptor[0] = 0x2C;
+  descriptor.writeUInt16LE(width, 5);
+  descriptor.writeUInt16LE(height, 7);
+  descriptor[9] = 0x80 | 7; // local color table of 2^(7+1) = 256 colors
+
+  return Buffer.concat([control, descriptor, Buffer.from(frame.palette), Buffer.from([8]), subBlocks(lzwEncode(frame.indices, 8))]);
+}
+
+/**
+ * GIF-flavored LZW: variable code width from minCodeSize + 1 up to 12 bits,
+ * packed least significant bit first, with a clear code when the table is full
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  const table = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xFF);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  write(clear);
+  if (indices.length === 0) {
+    write(end);
+    if (bits > 0) out.push(buffer & 0xFF);
+    return Uint8Array.from(out);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (next === 4096) {
+      write(clear);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    } else {
+      if (next >= 1 << codeSize) codeSize++;
+      table.set(key, next++);
+    }
+    prefix = indices[i];
+  }
+  write(prefix);
+  write(end);
+  if (bits > 0) out.push(buffer & 0xFF);
+  return Uint8Array.from(out);
+}
+
+/** Data split into blocks of at most 255 bytes, each prefixed with its length, ending with an empty block */
+function subBlocks(data: Uint8Array): Buffer {
+  const out = Buffer.alloc(data.length + Math.ceil(data.length / 255) + 1);
+  let offset = 0;
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    out[offset++] = block.length;
+    out.set(block, offset);
+    offset += block.length;
+  }
+  out[offset] = 0;
+  return out;
+}
@@ -0,0 +1,90 @@
+/**
+ * Raster Images
+ *
+ * A plain RGB float buffer for the software renderer, with the few drawing
+ * primitives thumbnails need and a seeded random source so renders are
+ * reproducible.
+ */
+
+import type { Rgb } from '../color.js';
+
+export interface Raster {
+  width: number;
+  height: number;
+  /** RGB triples row by row, gamma-encoded sRGB in 0-1 (values may overshoot before encoding) */
+  data: Float32Array;
+}
+
+/**
+ * Create an image filled with one color
+ */
+export function createRaster(width: number, height: number, fill: Rgb = { r: 0, g: 0, b: 0 }): Raster {
+  const raster = { width, height, data: new Float32Array(width * height * 3) };
+  fillRect(raster, 0, 0, width, height, fill);
+  return raster;
+}
+
+/**
+ * Fill a rectangle, clipped to the image
+ */
+export function fillRect(raster: Raster, x: number, y: number, width: number, height: number, color: Rgb): void {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(raster.width, Math.floor(x + width));
+  const y1 = Math.min(raster.height, Math.floor(y + height));
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const i = (py * raster.width + px) * 3;
+      raster.data[i] = color.r;
+      raster.data[i + 1] = color.g;
+      raster.data[i + 2] = color.b;
+    }
+  }
+}
+
+/**
+ * The color at a pixel; coordinates outside the image read the nearest edge
+ */
+export function getPixel(raster: Raster, x: number, y: number): Rgb {
+  const px = Math.min(raster.width - 1, Math.max(0, Math.round(x)));
+  const py = Math.min(raster.height - 1, Math.max(0, Math.round(y)));
+  const i = (py * raster.width + px) * 3;
+  return { r: raster.data[i], g: raster.data[i + 1], b: raster.data[i + 2] };
+}
+
+/**
+ * Copy of an image
+ */
+export function cloneRaster(raster: Raster): Raster {
+  return { width: raster.width, height: raster.height, data: new Float32Array(raster.data) };
+}
+
+/**
+ * A seeded random number generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Copy of an image moved by whole pixels; uncovered pixels get the fill color
+ */
+export function translateRaster(raster: Raster, dx: number, dy: number, fill: Rgb): Raster {
+  const out = createRaster(raster.width, raster.height, fill);
+  const ox = Math.round(dx);
+  const oy = Math.round(dy);
+  for (let y = Math.max(0, oy); y < Math.min(raster.height, raster.height + oy); y++) {
+    const x0 = Math.max(0, ox);
+    const x1 = Math.min(raster.width, raster.width + ox);
+    const from = ((y - oy) * raster.width + (x0 - ox)) * 3;
+    out.data.set(raster.data.subarray(from, from + (x1 - x0) * 3), (y * raster.width + x0) * 3);
+  }
+  return out;
+}
@@ -0,0 +1,14 @@
+/**
+ * Software Rasterizer
+ *
+ * Headless rendering of skins to images: a float RGB raster, a bitmap
+ * font, image-space CRT effects, and PNG, APNG and GIF encoders.
+ */
+
+export * from './image.js';
+export * from './font.js';
+export * from './effects.js';
+export { encodeApng, encodePng, rasterToRgb8 } from './png.js';
+export { encodeGif, lzwEncode } from './gif.js';
+export * from './thumbnail.js';
+export * from './animation.js';
@@ -0,0 +1,140 @@
+/**
+ * PNG Encoder
+ *
+ * Writes rasters as 8-bit RGB PNG files, and frame sequences as looping
+ * APNG. Compression uses Node's zlib, so the output is the same byte for
+ * byte for the same image.
+ */
+
+import { deflateSync } from 'zlib';
+import type { Raster } from './image.js';
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Encode an image as PNG
+ */
+export function encodePng(raster: Raster): Buffer {
+  return Buffer.concat([
+    SIGNATURE,
+    pngChunk('IHDR', imageHeader(raster.width, raster.height)),
+    pngChunk('IDAT', deflateSync(scanlines(raster), { level: 9 })),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Encode frames as a looping animated PNG (APNG). Viewers without APNG
+ * support show the first frame.
+ */
+export function encodeApng(frames: Iterable<Raster>, fps: number): Buffer {
+  const parts: Buffer[] = [];
+  let width = 0;
+  let height = 0;
+  let sequence = 0;
+  let frameCount = 0;
+  // APNG delays are fractions; keep them in 16 bits for fractional rates
+  const [delayNum, delayDen] = Number.isInteger(fps) && fps <= 0xFFFF ? [1, fps] : [Math.round(1000 / fps), 1000];
+
+  for (const frame of frames) {
+    if (frameCount === 0) {
+      width = frame.width;
+      height = frame.height;
+    } else if (frame.width !== width || frame.height !== height) {
+      throw new RangeError('All frames of an APNG must have the same size');
+    }
+
+    const control = Buffer.alloc(26);
+    control.writeUInt32BE(sequence++, 0);
+    control.writeUInt32BE(width, 4);
+    control.writeUInt32BE(height, 8);
+    control.writeUInt16BE(delayNum, 20);
+    control.writeUInt16BE(delayDen, 22);
+    parts.push(pngChunk('fcTL', control));
+
+    const data = deflateSync(scanlines(frame), { level: 9 });
+    if (frameCount === 0) {
+      parts.push(pngChunk('IDAT', data));
+    } else {
+      const sequenced = Buffer.alloc(data.length + 4);
+      sequenced.writeUInt32BE(sequence++, 0);
+      data.copy(sequenced, 4);
+      parts.push(pngChunk('fdAT', sequenced));
+    }
+    frameCount++;
+  }
+  if (frameCount === 0) throw new RangeError('An APNG needs at least one frame');
+
+  const animation = Buffer.alloc(8);
+  animation.writeUInt32BE(frameCount, 0);
+  return Buffer.concat([
+    SIGNATURE,
+    pngChunk('IHDR', imageHeader(width, height)),
+    pngChunk('acTL', animation),
+    ...parts,
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * The image as 8-bit RGB bytes, rounding and clamping each channel
+ */
+export function rasterToRgb8(raster: Raster): Uint8Array {
+  const bytes = new Uint8Array(raster.data.length);
+  for (let i = 0; i < raster.data.length; i++) {
+    bytes[i] = Math.round(Math.min(1, Math.max(0, raster.data[i])) * 255);
+  }
+  return bytes;
+}
+
+/** A length-prefixed, CRC-suffixed PNG chunk */
+export function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'ascii');
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, data.length + 8)), data.length + 8);
+  return chunk;
+}
+
+/** IHDR contents for an 8-bit RGB image */
+function imageHeader(width: number, height: number): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+  return header;
+}
+
+/** Rows of RGB bytes, each prefixed with the Sub filter, which suits flat terminal backgrounds */
+function scanlines(raster: Raster): Buffer {
+  const rgb = rasterToRgb8(raster);
+  const stride = raster.width * 3;
+  const out = Buffer.alloc((stride + 1) * raster.height);
+  for (let y = 0; y < raster.height; y++) {
+    const row = y * (stride + 1);
+    out[row] = 1;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 3 ? rgb[y * stride + x - 3] : 0;
+      out[row + 1 + x] = (rgb[y * stride + x] - left) & 0xFF;
+    }
+  }
+  return out;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xFFFFFFFF;
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xFF] ^ (c >>> 8);
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
@@ -0,0 +1,111 @@
+/**
+ * Skin Thumbnails
+ *
+ * Draws a skin's sample screen with the bitmap font, runs the static CRT
+ * effects over it and encodes a PNG, without a browser or native
+ * dependencies. The same seed always gives the same bytes.
+ */
+
+import { findActiveEffect } from '../skins.js';
+import type { EffectType, SkinConfig } from '../skins.js';
+import { parseHexColor } from '../color.js';
+import type { Rgb } from '../color.js';
+import { previewScreen } from '../preview.js';
+import { createRandom, createRaster, fillRect } from './image.js';
+import type { Raster } from './image.js';
+import { drawGlyph, GLYPH_HEIGHT, GLYPH_WIDTH } from './font.js';
+import { curvaturePass, glowPass, noisePass, scanlinesPass, vignettePass } from './effects.js';
+import { encodePng } from './png.js';
+
+export interface ThumbnailOptions {
+  /** Width of the sample screen in columns (default 48) */
+  columns?: number;
+  /** Image pixels per font pixel (default 2) */
+  scale?: number;
+  /** Seed for random effects such as noise (default 0) */
+  seed?: number;
+  /** Apply the skin's effects (default true) */
+  effects?: boolean;
+}
+
+/** Cell size in font pixels: a glyph plus one column and three rows of spacing */
+export const CELL_WIDTH = GLYPH_WIDTH + 1;
+export const CELL_HEIGHT = GLYPH_HEIGHT + 3;
+
+/** Effects the thumbnail renderer draws, in the order they are applied */
+export const THUMBNAIL_EFFECTS: readonly EffectType[] = ['phosphor-glow', 'crt-scanlines', 'noise', 'vignette', 'crt-curvature'];
+
+/**
+ * Render a PNG thumbnail of a skin
+ */
+export function renderSkinThumbnail(skin: SkinConfig, options: ThumbnailOptions = {}): Buffer {
+  let raster = drawScreen(skin, options);
+  if (options.effects !== false) {
+    raster = applyStaticEffects(raster, skin, { scale: options.scale, random: createRandom(options.seed ?? 0) });
+  }
+  return encodePng(raster);
+}
+
+/**
+ * Draw the sample screen (see previewScreen) on the skin's background, with
+ * one cell of margin around the text
+ */
+export function drawScreen(skin: SkinConfig, options: ThumbnailOptions = {}): Raster {
+  const columns = Math.max(options.columns ?? 48, 32);
+  const scale = Math.max(1, Math.round(options.scale ?? 2));
+  const lines = previewScreen(skin);
+  const cellWidth = CELL_WIDTH * scale;
+  const cellHeight = CELL_HEIGHT * scale;
+
+  const background = toRgb(skin.colors.background, { r: 0, g: 0, b: 0 });
+  const foreground = toRgb(skin.colors.foreground, { r: 1, g: 1, b: 1 });
+  const raster = createRaster((columns + 2) * cellWidth, (lines.length + 2) * cellHeight, background);
+
+  lines.forEach((segments, row) => {
+    const y = (row + 1) * cellHeight;
+    let column = 0;
+    for (const segment of segments) {
+      const fg = segment.fg ? toRgb(segment.fg, foreground) : foreground;
+      for (const char of segment.text) {
+        if (column >= columns) return;
+        const x = (column + 1) * cellWidth;
+        if (segment.bg) fillRect(raster, x, y, cellWidth, cellHeight, toRgb(segment.bg, background));
+        drawGlyph(raster, x, y + scale, char, fg, scale, segment.bold);
+        column++;
+      }
+    }
+  });
+  return raster;
+}
+
+/**
+ * Apply the skin's static effects (THUMBNAIL_EFFECTS) to a drawn screen
+ */
+export function applyStaticEffects(
+  raster: Raster,
+  skin: SkinConfig,
+  options: { scale?: number; random?: () => number } = {},
+): Raster {
+  const scale = Math.max(1, Math.round(options.scale ?? 2));
+  const random = options.random ?? createRandom(0);
+  const glow = toRgb(skin.colors.glow, toRgb(skin.colors.foreground, { r: 1, g: 1, b: 1 }));
+  const background = toRgb(skin.colors.background, { r: 0, g: 0, b: 0 });
+
+  let out = raster;
+  for (const type of THUMBNAIL_EFFECTS) {
+    const effect = findActiveEffect(skin, type);
+    if (!effect) continue;
+    switch (type) {
+      case 'phosphor-glow': out = glowPass(out, effect, glow, background, { scale }); break;
+      case 'crt-scanlines': out = scanlinesPass(out, effect, { scale }); break;
+      case 'noise': out = noisePass(out, effect, random); break;
+      case 'vignette': out = vignettePass(out, effect); break;
+      case 'crt-curvature': out = curvaturePass(out, effect); break;
+    }
+  }
+  return out;
+}
+
+function toRgb(color: string, fallback: Rgb): Rgb {
+  return parseHexColor(color) ?? fallback;
+}
@@ -0,0 +1,66 @@
+/**
+ * Config Document Model
+ *
+ * Adapters describe generated configs as typed documents instead of string
+ * templates; the per-format emitters take care of quoting and escaping so any
+ * SkinConfig value serializes safely.
+ */
+
+export type ConfigScalar = string | number | boolean;
+
+export type ConfigValue = ConfigScalar | ConfigValue[] | ConfigTable;
+
+export interface ConfigTable {
+  [key: string]: ConfigValue | undefined;
+}
+
+export interface ConfigSection {
+  /** Comment printed above the section */
+  comment?: string;
+  /** Key path of the table holding the entries ([] for the top level) */
+  path: string[];
+  /** Entries in output order; undefined values are skipped */
+  entries: ConfigTable;
+}
+
+export interface ConfigDocument {
+  /** Comment lines at the top of the file */
+  header: string[];
+  /** Sections in output order */
+  sections: ConfigSection[];
+}
+
+/**
+ * Error raised when a value cannot be represented in the target format
+ */
+export class SerializationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SerializationError';
+  }
+}
+
+/**
+ * Split comment text into single lines with control characters removed,
+ * so a value can never end a comment early
+ */
+export function commentLines(text: string): string[] {
+  return text
+    .split(/\r\n|\r|\n|\u0085|\u2028|\u2029/)
+    .map(line => line.replace(/[\u0000-\u001F\u007F]/g, ''));
+}
+
+/**
+ * Check that a number can be written to a config file
+ */
+export function assertFinite(value: number, path: string): number {
+  if (!Number.isFinite(value)) {
+    throw new SerializationError(`Cannot serialize non-finite number at ${path}`);
+  }
+  return value;
+}
+
+/** Check for a plain table (not an array) */
+export function isConfigTable(value: ConfigValue | undefined): value is ConfigTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,70 @@
+/**
+ * Ghostty Config Emitter
+ *
+ * Serializes config documents as Ghostty `key = value` lines. Arrays become
+ * repeated keys (as `palette` needs). Values are unquoted and single-line,
+ * so anything that could spill onto another line is rejected.
+ */
+
+import { assertFinite, commentLines, SerializationError } from './document.js';
+import type { ConfigDocument, ConfigValue } from './document.js';
+
+/**
+ * Format a single-line option value
+ */
+export function ghosttyValue(value: ConfigValue, path = 'value'): string {
+  if (typeof value === 'number') return String(assertFinite(value, path));
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value !== 'string') {
+    throw new SerializationError(`Ghostty options only take scalar values (${path})`);
+  }
+  if (/[\u0000-\u001F\u007F\u0085\u2028\u2029]/.test(value)) {
+    throw new SerializationError(`Control characters are not allowed in Ghostty option values (${path})`);
+  }
+  if (value.trim() === '') {
+    throw new SerializationError(`Empty value for Ghostty option (${path})`);
+  }
+  return value.trim();
+}
+
+/**
+ * Check that a key is a valid Ghostty option name
+ */
+export function ghosttyKey(key: string): string {
+  if (!/^[a-z][a-z0-9-]*$/.test(key)) {
+    throw new SerializationError(`Invalid Ghostty option name ${JSON.stringify(key)}`);
+  }
+  return key;
+}
+
+/**
+ * Format text as Ghostty config comments
+ */
+export function ghosttyComment(text: string): string {
+  return commentLines(text).map(line => `# ${line}`.trimEnd()).join('\n');
+}
+
+/**
+ * Serialize a config document as a Ghostty config. Only top-level sections
+ * are allowed; an array value writes the key once per element.
+ */
+export function emitGhosttyConfig(doc: ConfigDocument): string {
+  const blocks: string[] = [];
+  if (doc.header.length) blocks.push(doc.header.map(line => ghosttyComment(line)).join('\n'));
+
+  for (const section of doc.sections) {
+    if (section.path.length) {
+      throw new SerializationError(`Ghostty config has no nested sections (${section.path.join('.')})`);
+    }
+    const lines: string[] = [];
+    if (section.comment) lines.push(ghosttyComment(section.comment));
+    for (const [key, value] of Object.entries(section.entries)) {
+      if (value === undefined) continue;
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach((v, i) => lines.push(`${ghosttyKey(key)} = ${ghosttyValue(v, Array.isArray(value) ? `${key}[${i}]` : key)}`));
+    }
+    if (lines.length) blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
@@ -0,0 +1,13 @@
+/**
+ * Config Serializers
+ *
+ * Escaping emitters for every config format the adapters generate.
+ */
+
+export * from './document.js';
+export { luaString, luaKey, luaValue, luaComment } from './lua.js';
+export { tomlString, tomlKey, tomlValue, tomlComment, emitToml } from './toml.js';
+export { yamlString, yamlKey, yamlValue, yamlComment, emitYaml } from './yaml.js';
+export { kittyKey, kittyValue, kittyComment, emitKittyConf } from './kitty.js';
+export { ghosttyKey, ghosttyValue, ghosttyComment, emitGhosttyConfig } from './ghostty.js';
+export { jsonValue, jsonComment, emitJsonc } from './json.js';
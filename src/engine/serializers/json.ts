@@ -0,0 +1,52 @@
+/**
+ * JSON Emitter
+ *
+ * Serializes config values as JSON, with an optional `//` comment header
+ * for JSONC consumers such as Windows Terminal.
+ */
+
+import { assertFinite, commentLines, isConfigTable, SerializationError } from './document.js';
+import type { ConfigValue } from './document.js';
+
+/**
+ * Serialize a value as pretty-printed JSON
+ */
+export function jsonValue(value: ConfigValue, indent = 2): string {
+  checkJsonValue(value, 'value');
+  return JSON.stringify(value, null, indent)
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Format text as JSONC line comments
+ */
+export function jsonComment(text: string): string {
+  return commentLines(text).map(line => `// ${line}`.trimEnd()).join('\n');
+}
+
+/**
+ * Serialize a value as JSONC with a comment header
+ */
+export function emitJsonc(header: string[], value: ConfigValue): string {
+  const comments = header.map(line => jsonComment(line)).join('\n');
+  return comments ? `${comments}\n\n${jsonValue(value)}` : jsonValue(value);
+}
+
+/** Reject values JSON.stringify would silently drop or turn into null */
+function checkJsonValue(value: ConfigValue | undefined, path: string): void {
+  if (typeof value === 'number') {
+    assertFinite(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((v, i) => {
+      if (v === undefined) throw new SerializationError(`Cannot serialize undefined at ${path}[${i}]`);
+      checkJsonValue(v, `${path}[${i}]`);
+    });
+  } else if (isConfigTable(value)) {
+    for (const [k, v] of Object.entries(value)) {
+      if (v !== undefined) checkJsonValue(v, `${path}.${k}`);
+    }
+  } else if (typeof value !== 'string' && typeof value !== 'boolean') {
+    throw new SerializationError(`Cannot serialize ${typeof value} at ${path}`);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Kitty Conf Emitter
+ *
+ * Serializes config documents as kitty.conf `key value` lines. The format
+ * has no quoting, so values that could spill onto another line are rejected.
+ */
+
+import { assertFinite, commentLines, SerializationError } from './document.js';
+import type { ConfigDocument, ConfigValue } from './document.js';
+
+/**
+ * Format a single-line option value
+ */
+export function kittyValue(value: ConfigValue, path = 'value'): string {
+  if (typeof value === 'number') return String(assertFinite(value, path));
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (typeof value !== 'string') {
+    throw new SerializationError(`Kitty options only take scalar values (${path})`);
+  }
+  if (/[\u0000-\u001F\u007F\u0085\u2028\u2029]/.test(value)) {
+    throw new SerializationError(`Control characters are not allowed in Kitty option values (${path})`);
+  }
+  if (value.trim() === '') {
+    throw new SerializationError(`Empty value for Kitty option (${path})`);
+  }
+  return value.trim();
+}
+
+/**
+ * Check that a key is a valid Kitty option name
+ */
+export function kittyKey(key: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+    throw new SerializationError(`Invalid Kitty option name ${JSON.stringify(key)}`);
+  }
+  return key;
+}
+
+/**
+ * Format text as kitty.conf comments
+ */
+export function kittyComment(text: string): string {
+  return commentLines(text).map(line => `# ${line}`.trimEnd()).join('\n');
+}
+
+/**
+ * Serialize a config document as kitty.conf. Only top-level sections are allowed.
+ */
+export function emitKittyConf(doc: ConfigDocument): string {
+  const blocks: string[] = [];
+  if (doc.header.length) blocks.push(doc.header.map(line => kittyComment(line)).join('\n'));
+
+  for (const section of doc.sections) {
+    if (section.path.length) {
+      throw new SerializationError(`Kitty config has no nested sections (${section.path.join('.')})`);
+    }
+    const lines: string[] = [];
+    if (section.comment) lines.push(kittyComment(section.comment));
+    for (const [key, value] of Object.entries(section.entries)) {
+      if (value === undefined) continue;
+      lines.push(`${kittyKey(key)} ${kittyValue(value, key)}`);
+    }
+    if (lines.length) blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
@@ -0,0 +1,73 @@
+/**
+ * Lua Emitter
+ *
+ * Serializes config values as Lua literals (WezTerm).
+ */
+
+import { assertFinite, commentLines, isConfigTable, SerializationError } from './document.js';
+import type { ConfigValue } from './document.js';
+
+const LUA_KEYWORDS = new Set([
+  'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'goto', 'if',
+  'in', 'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+]);
+
+/**
+ * Quote a string as a Lua string literal
+ */
+export function luaString(value: string): string {
+  let out = '"';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (char === '"') out += '\\"';
+    else if (char === '\\') out += '\\\\';
+    else if (char === '\n') out += '\\n';
+    else if (char === '\r') out += '\\r';
+    else if (char === '\t') out += '\\t';
+    else if (code < 0x20 || code === 0x7F) out += `\\${String(code).padStart(3, '0')}`;
+    else out += char;
+  }
+  return out + '"';
+}
+
+/**
+ * Format a table key, quoting it when it is not a plain identifier.
+ * Integer keys stay numeric, e.g. `[16]` for WezTerm's indexed colors.
+ */
+export function luaKey(key: string): string {
+  if (/^(?:0|[1-9][0-9]*)$/.test(key)) return `[${key}]`;
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) && !LUA_KEYWORDS.has(key) ? key : `[${luaString(key)}]`;
+}
+
+/**
+ * Serialize a value as a Lua expression
+ */
+export function luaValue(value: ConfigValue, indent = '', path = 'value'): string {
+  if (typeof value === 'string') return luaString(value);
+  if (typeof value === 'number') return String(assertFinite(value, path));
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.every(v => !isConfigTable(v) && !Array.isArray(v))) {
+      return `{ ${value.map((v, i) => luaValue(v, inner, `${path}[${i}]`)).join(', ')} }`;
+    }
+    return `{\n${value.map((v, i) => `${inner}${luaValue(v, inner, `${path}[${i}]`)},`).join('\n')}\n${indent}}`;
+  }
+
+  if (isConfigTable(value)) {
+    const lines = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${inner}${luaKey(k)} = ${luaValue(v!, inner, `${path}.${k}`)},`);
+    return lines.length ? `{\n${lines.join('\n')}\n${indent}}` : '{}';
+  }
+
+  throw new SerializationError(`Cannot serialize ${typeof value} at ${path}`);
+}
+
+/**
+ * Format text as Lua line comments
+ */
+export function luaComment(text: string, indent = ''): string {
+  return commentLines(text).map(line => `${indent}-- ${line}`.trimEnd()).join('\n');
+}
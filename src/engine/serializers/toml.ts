@@ -0,0 +1,88 @@
+/**
+ * TOML Emitter
+ *
+ * Serializes config documents as TOML (Alacritty 0.13+).
+ */
+
+import { assertFinite, commentLines, isConfigTable, SerializationError } from './document.js';
+import type { ConfigDocument, ConfigValue } from './document.js';
+
+/**
+ * Quote a string as a TOML basic string
+ */
+export function tomlString(value: string): string {
+  let out = '"';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (char === '"') out += '\\"';
+    else if (char === '\\') out += '\\\\';
+    else if (char === '\n') out += '\\n';
+    else if (char === '\r') out += '\\r';
+    else if (char === '\t') out += '\\t';
+    else if (char === '\b') out += '\\b';
+    else if (char === '\f') out += '\\f';
+    else if (code < 0x20 || code === 0x7F) out += `\\u${code.toString(16).toUpperCase().padStart(4, '0')}`;
+    else out += char;
+  }
+  return out + '"';
+}
+
+/**
+ * Format a key, quoting it unless it is a valid bare key
+ */
+export function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : tomlString(key);
+}
+
+/**
+ * Serialize a value in inline form
+ */
+export function tomlValue(value: ConfigValue, path = 'value'): string {
+  if (typeof value === 'string') return tomlString(value);
+  if (typeof value === 'number') return String(assertFinite(value, path));
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (Array.isArray(value)) return `[${value.map((v, i) => tomlValue(v, `${path}[${i}]`)).join(', ')}]`;
+
+  if (isConfigTable(value)) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${tomlKey(k)} = ${tomlValue(v!, `${path}.${k}`)}`);
+    return entries.length ? `{ ${entries.join(', ')} }` : '{}';
+  }
+
+  throw new SerializationError(`Cannot serialize ${typeof value} at ${path}`);
+}
+
+/**
+ * Format text as TOML comments
+ */
+export function tomlComment(text: string): string {
+  return commentLines(text).map(line => `# ${line}`.trimEnd()).join('\n');
+}
+
+/**
+ * Serialize a config document as TOML
+ */
+export function emitToml(doc: ConfigDocument): string {
+  const blocks: string[] = [];
+  if (doc.header.length) blocks.push(doc.header.map(line => tomlComment(line)).join('\n'));
+
+  for (const section of doc.sections) {
+    const lines: string[] = [];
+    if (section.comment) lines.push(tomlComment(section.comment));
+    if (section.path.length) lines.push(`[${section.path.map(tomlKey).join('.')}]`);
+    for (const [key, value] of Object.entries(section.entries)) {
+      if (value === undefined) continue;
+      const path = [...section.path, key].join('.');
+      if (Array.isArray(value) && value.length && value.every(isConfigTable)) {
+        // Long lists of inline tables read better one per line
+        lines.push(`${tomlKey(key)} = [`, ...value.map((v, i) => `  ${tomlValue(v, `${path}[${i}]`)},`), ']');
+      } else {
+        lines.push(`${tomlKey(key)} = ${tomlValue(value, path)}`);
+      }
+    }
+    if (lines.length) blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
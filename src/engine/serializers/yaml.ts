@@ -0,0 +1,106 @@
+/**
+ * YAML Emitter
+ *
+ * Serializes config documents as block-style YAML (legacy Alacritty).
+ */
+
+import { assertFinite, commentLines, isConfigTable, SerializationError } from './document.js';
+import type { ConfigDocument, ConfigValue } from './document.js';
+
+/** Plain scalars YAML 1.1 would read as booleans or null */
+const RESERVED_WORDS = /^(?:true|false|yes|no|on|off|y|n|null|~)$/i;
+
+/**
+ * Quote a string as a YAML double-quoted scalar
+ */
+export function yamlString(value: string): string {
+  let out = '"';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (char === '"') out += '\\"';
+    else if (char === '\\') out += '\\\\';
+    else if (char === '\n') out += '\\n';
+    else if (char === '\r') out += '\\r';
+    else if (char === '\t') out += '\\t';
+    else if (char === '\0') out += '\\0';
+    else if (char === '\u0085') out += '\\N';
+    else if (char === '\u2028') out += '\\L';
+    else if (char === '\u2029') out += '\\P';
+    else if (code < 0x20 || code === 0x7F) out += `\\x${code.toString(16).toUpperCase().padStart(2, '0')}`;
+    else out += char;
+  }
+  return out + '"';
+}
+
+/**
+ * Format a mapping key, quoting it unless it is a plain identifier
+ */
+export function yamlKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) && !RESERVED_WORDS.test(key) ? key : yamlString(key);
+}
+
+/**
+ * Serialize a value in flow (inline) form
+ */
+export function yamlValue(value: ConfigValue, path = 'value'): string {
+  if (typeof value === 'string') return yamlString(value);
+  if (typeof value === 'number') return String(assertFinite(value, path));
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (Array.isArray(value)) return `[${value.map((v, i) => yamlValue(v, `${path}[${i}]`)).join(', ')}]`;
+
+  if (isConfigTable(value)) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${yamlKey(k)}: ${yamlValue(v!, `${path}.${k}`)}`);
+    return entries.length ? `{ ${entries.join(', ')} }` : '{}';
+  }
+
+  throw new SerializationError(`Cannot serialize ${typeof value} at ${path}`);
+}
+
+/**
+ * Format text as YAML comments
+ */
+export function yamlComment(text: string, indent = ''): string {
+  return commentLines(text).map(line => `${indent}# ${line}`.trimEnd()).join('\n');
+}
+
+/**
+ * Serialize a config document as block-style YAML.
+ * Sections that share a path prefix must be adjacent.
+ */
+export function emitYaml(doc: ConfigDocument): string {
+  const lines: string[] = doc.header.map(line => yamlComment(line));
+  let openPath: string[] = [];
+
+  for (const section of doc.sections) {
+    let common = 0;
+    while (common < openPath.length && common < section.path.length && openPath[common] === section.path[common]) {
+      common++;
+    }
+
+    if (lines.length) lines.push('');
+    for (let depth = common; depth < section.path.length; depth++) {
+      const indent = '  '.repeat(depth);
+      if (section.comment && depth === section.path.length - 1) lines.push(yamlComment(section.comment, indent));
+      lines.push(`${indent}${yamlKey(section.path[depth])}:`);
+    }
+
+    const indent = '  '.repeat(section.path.length);
+    if (section.comment && common === section.path.length) lines.push(yamlComment(section.comment, indent));
+    for (const [key, value] of Object.entries(section.entries)) {
+      if (value === undefined) continue;
+      const path = [...section.path, key].join('.');
+      if (Array.isArray(value) && value.length && value.every(isConfigTable)) {
+        // Lists of mappings as a block sequence, one flow mapping per item
+        lines.push(`${indent}${yamlKey(key)}:`, ...value.map((v, i) => `${indent}  - ${yamlValue(v, `${path}[${i}]`)}`));
+      } else {
+        lines.push(`${indent}${yamlKey(key)}: ${yamlValue(value, path)}`);
+      }
+    }
+
+    openPath = section.path;
+  }
+
+  return lines.join('\n') + '\n';
+}
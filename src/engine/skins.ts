@@ -18,15 +18,48 @@ export interface SkinConfig {
   colors: ColorScheme;
   /** Performance settings */
   performance: PerformanceConfig;
+  /** Catalog metadata (description, tags, ...) */
+  metadata?: Partial<SkinMetadata>;
+  /** Preset, skin name or file this skin is layered over (skin files only; resolved by the loader) */
+  extends?: string;
+  /** Colors for light and dark system appearance; `'auto'` derives a light variant */
+  variants?: SkinVariants;
+}
+
+export interface SkinVariants {
+  light?: SkinVariant | 'auto';
+  dark?: SkinVariant;
+}
+
+export interface SkinVariant {
+  /** Display name (defaults to the skin name plus "Light" or "Dark") */
+  name?: string;
+  /** Colors used in place of the skin's colors */
+  colors: ColorScheme;
+}
+
+export interface SkinMetadata {
+  /** One-line description */
+  description: string;
+  /** Who made the skin */
+  author: string;
+  /** Hardware era the skin evokes, e.g. "1980s" */
+  era: string;
+  /** Tags such as monochrome, neon or light */
+  tags: string[];
+  /** Whether the skin has a dark or light background */
+  appearance: 'dark' | 'light';
 }
 
 export interface VisualEffect {
-  /** Effect type */
-  type: EffectType;
+  /** Effect type: a built-in one or one registered with registerEffect */
+  type: EffectType | CustomEffectType;
   /** Effect intensity (0-1) */
   intensity: number;
   /** Effect-specific parameters */
   params: Partial<Record<string, number>>;
+  /** False switches the effect off; in a skin that `extends` another it removes the inherited effect */
+  enabled?: boolean;
 }
 
 export type EffectType = 
@@ -41,6 +74,9 @@ export type EffectType =
   | 'vignette'
   | 'noise';
 
+/** Type name of an effect added at runtime (see effects/registry.ts) */
+export type CustomEffectType = string & {};
+
 export interface ColorScheme {
   /** Background color */
   background: string;
@@ -50,7 +86,9 @@ export interface ColorScheme {
   accent: string;
   /** Glow color */
   glow: string;
-  /** Custom 16-color palette (overrides auto-generation for terminals like WT) */
+  /** How the 16-color palette is derived when `palette` is absent (default 'tinted') */
+  paletteStrategy?: PaletteStrategy;
+  /** Custom 16-color palette (overrides auto-generation) */
   palette?: {
     black: string;
     red: string;
@@ -69,8 +107,32 @@ export interface ColorScheme {
     brightCyan: string;
     brightWhite: string;
   };
+  /** Colors for dim (faint) text in place of the 8 normal colors, where the terminal supports it */
+  dim?: {
+    black: string;
+    red: string;
+    green: string;
+    yellow: string;
+    blue: string;
+    purple: string;
+    cyan: string;
+    white: string;
+  };
+  /** Colors 16-255 of the 256-color palette */
+  extended?: ExtendedPaletteConfig;
 }
 
+export interface ExtendedPaletteConfig {
+  /** Generate the 6x6x6 color cube (16-231) and grayscale ramp (232-255) */
+  generate?: boolean;
+  /** How far generated colors lean towards the skin's glow hue, 0-1 (default 0.5) */
+  tint?: number;
+  /** Colors by index (16-255), applied over generated ones */
+  colors?: { [index: number]: string };
+}
+
+export type PaletteStrategy = 'tinted' | 'analogous' | 'complementary';
+
 export interface PerformanceConfig {
   /** Enable GPU acceleration */
   gpuAcceleration: boolean;
@@ -109,9 +171,31 @@ export function createSkin(config: Partial<SkinConfig>): SkinConfig {
       targetFps: 60,
       quality: 'high',
     },
+    ...(config.metadata && { metadata: config.metadata }),
+    ...(config.variants && { variants: config.variants }),
   };
 }
 
+/**
+ * The effects a skin runs: entries with `enabled: false` or no intensity
+ * are left out, and of duplicate types the last entry wins. Everything that
+ * renders effects (engine, shaders, snapshots) reads them through this.
+ */
+export function activeEffects(skin: Pick<SkinConfig, 'effects'>): VisualEffect[] {
+  const effects = new Map<string, VisualEffect>();
+  for (const effect of skin.effects) {
+    if (effect.enabled !== false && effect.intensity > 0) effects.set(effect.type, effect);
+  }
+  return [...effects.values()];
+}
+
+/**
+ * The skin's active entry for an effect type (see activeEffects)
+ */
+export function findActiveEffect(skin: Pick<SkinConfig, 'effects'>, type: VisualEffect['type']): VisualEffect | undefined {
+  return activeEffects(skin).find(effect => effect.type === type);
+}
+
 /**
  * Pre-defined skin configurations
  */
@@ -119,6 +203,13 @@ export const PRESET_SKINS: Record<string, () => SkinConfig> = {
   /** Classic green phosphor CRT */
   phosphor: () => createSkin({
     name: 'Phosphor CRT',
+    metadata: {
+      description: 'Classic green phosphor CRT',
+      author: 'Retro Skins Platform',
+      era: '1970s',
+      tags: ['monochrome', 'green', 'crt'],
+      appearance: 'dark',
+    },
     effects: [
       { type: 'crt-scanlines', intensity: 0.4, params: { lineSpacing: 2 } },
       { type: 'phosphor-glow', intensity: 0.6, params: { radius: 3, falloff: 0.5 } },
@@ -155,6 +246,13 @@ export const PRESET_SKINS: Record<string, () => SkinConfig> = {
   /** Amber monochrome */
   amber: () => createSkin({
     name: 'Amber Monochrome',
+    metadata: {
+      description: 'Amber monochrome display',
+      author: 'Retro Skins Platform',
+      era: '1980s',
+      tags: ['monochrome', 'amber', 'crt'],
+      appearance: 'dark',
+    },
     effects: [
       { type: 'crt-scanlines', intensity: 0.3, params: { lineSpacing: 2 } },
       { type: 'phosphor-glow', intensity: 0.5, params: { radius: 2, falloff: 0.6 } },
@@ -190,6 +288,13 @@ export const PRESET_SKINS: Record<string, () => SkinConfig> = {
   /** White LCD style */
   lcd: () => createSkin({
     name: 'LCD Display',
+    metadata: {
+      description: 'Clean LCD display style',
+      author: 'Retro Skins Platform',
+      era: '1990s',
+      tags: ['monochrome', 'lcd'],
+      appearance: 'dark',
+    },
     effects: [
       { type: 'crt-scanlines', intensity: 0.2, params: { lineSpacing: 1 } },
       { type: 'phosphor-glow', intensity: 0.3, params: { radius: 1, falloff: 0.8 } },
@@ -225,6 +330,13 @@ export const PRESET_SKINS: Record<string, () => SkinConfig> = {
   /** Retro purple cyber */
   cyber: () => createSkin({
     name: 'Cyber Purple',
+    metadata: {
+      description: 'Purple cyberpunk aesthetic',
+      author: 'Retro Skins Platform',
+      era: '1980s',
+      tags: ['neon', 'purple', 'cyberpunk', 'animated'],
+      appearance: 'dark',
+    },
     effects: [
       { type: 'crt-scanlines', intensity: 0.35, params: { lineSpacing: 2 } },
       { type: 'phosphor-glow', intensity: 0.7, params: { radius: 4, falloff: 0.4 } },
@@ -258,9 +370,16 @@ export const PRESET_SKINS: Record<string, () => SkinConfig> = {
     },
   }),
 
-  /** Blue-tinted terminal */
+  /** Green-on-black terminal */
   terminal: () => createSkin({
     name: 'Classic Terminal',
+    metadata: {
+      description: 'Classic green terminal',
+      author: 'Retro Skins Platform',
+      era: '1980s',
+      tags: ['green', 'crt'],
+      appearance: 'dark',
+    },
     effects: [
       { type: 'crt-scanlines', intensity: 0.25, params: { lineSpacing: 2 } },
       { type: 'phosphor-glow', intensity: 0.4, params: { radius: 2, falloff: 0.5 } },
@@ -295,6 +414,13 @@ export const PRESET_SKINS: Record<string, () => SkinConfig> = {
   /** Puncore neon theme */
   puncore: () => createSkin({
     name: 'Puncore Neon',
+    metadata: {
+      description: 'Neon theme',
+      author: 'Retro Skins Platform',
+      era: '2020s',
+      tags: ['neon'],
+      appearance: 'dark',
+    },
     effects: [
       { type: 'crt-scanlines', intensity: 0.1, params: { lineSpacing: 1 } },
       { type: 'phosphor-glow', intensity: 0.5, params: { radius: 3, falloff: 0.4 } },
@@ -0,0 +1,413 @@
+/**
+ * Skin Validation
+ *
+ * Structural checks for SkinConfig values. Validation never throws: it
+ * returns a list of diagnostics, each pointing at the offending path with a
+ * severity, a message and (where possible) a suggested fix.
+ */
+
+import type { EffectType, PerformanceConfig, SkinMetadata } from './skins.js';
+import { PALETTE_STRATEGIES } from './palette.js';
+import { APPEARANCES } from './variants.js';
+import { getEffect, listEffects } from './effects/index.js';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface SkinDiagnostic {
+  /** Dotted path to the offending value, e.g. `effects[2].params.radius` */
+  path: string;
+  /** Errors make a skin invalid, warnings do not */
+  severity: DiagnosticSeverity;
+  /** Human-readable description of the problem */
+  message: string;
+  /** Suggested fix, when one can be derived */
+  fix?: string;
+}
+
+export interface ValidationResult {
+  /** True when there are no error diagnostics */
+  valid: boolean;
+  /** All diagnostics, in document order */
+  diagnostics: SkinDiagnostic[];
+}
+
+/**
+ * Valid params per effect type
+ */
+export const EFFECT_PARAMS: Record<EffectType, readonly string[]> = {
+  'crt-scanlines': ['lineSpacing'],
+  'crt-curvature': ['radius'],
+  'crt-flicker': ['frequency'],
+  'phosphor-glow': ['radius', 'falloff'],
+  'phosphor-persistence': ['decay'],
+  'shake': ['frequency'],
+  'animated-bg': ['speed', 'mode'],
+  'color-shift': ['shift', 'offsetX', 'offsetY', 'wobble'],
+  'vignette': ['radius'],
+  'noise': ['amount'],
+};
+
+export const EFFECT_TYPES = Object.keys(EFFECT_PARAMS) as EffectType[];
+
+export const PALETTE_KEYS = [
+  'black', 'red', 'green', 'yellow', 'blue', 'purple', 'cyan', 'white',
+  'brightBlack', 'brightRed', 'brightGreen', 'brightYellow',
+  'brightBlue', 'brightPurple', 'brightCyan', 'brightWhite',
+] as const;
+
+const DIM_KEYS = PALETTE_KEYS.slice(0, 8);
+const EXTENDED_KEYS = ['generate', 'tint', 'colors'];
+const SKIN_KEYS = ['name', 'effects', 'colors', 'performance', 'metadata', 'extends', 'variants'];
+const METADATA_TEXT_KEYS = ['description', 'author', 'era'] as const;
+const METADATA_KEYS = [...METADATA_TEXT_KEYS, 'tags', 'appearance'];
+const BASE_COLOR_KEYS = ['background', 'foreground', 'accent', 'glow'] as const;
+const QUALITY_LEVELS: PerformanceConfig['quality'][] = ['low', 'medium', 'high'];
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Check whether a string is a #RGB or #RRGGBB color
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+}
+
+/**
+ * Validate a skin configuration (or anything that claims to be one)
+ */
+export function validateSkin(skin: unknown): ValidationResult {
+  const diagnostics: SkinDiagnostic[] = [];
+  const report = (path: string, severity: DiagnosticSeverity, message: string, fix?: string) => {
+    diagnostics.push(fix ? { path, severity, message, fix } : { path, severity, message });
+  };
+
+  if (!isObject(skin)) {
+    report('', 'error', 'Skin must be an object');
+    return { valid: false, diagnostics };
+  }
+
+  if (typeof skin.name !== 'string' || skin.name.trim() === '') {
+    report('name', 'error', 'Skin name must be a non-empty string', 'Set "name" to a display name such as "My Skin"');
+  }
+
+  validateColors(skin.colors, report);
+  validateEffects(skin.effects, report);
+  validatePerformance(skin.performance, report);
+  if (skin.metadata !== undefined) validateMetadata(skin.metadata, report);
+  if (skin.variants !== undefined) validateVariants(skin.variants, report);
+  if (skin.extends !== undefined && (typeof skin.extends !== 'string' || skin.extends.trim() === '')) {
+    report('extends', 'error', '"extends" must be a skin name or file path', 'Use e.g. "phosphor" or "./base.yaml"');
+  }
+
+  for (const key of Object.keys(skin)) {
+    if (!SKIN_KEYS.includes(key)) {
+      report(key, 'warning', `Unknown skin property "${key}"`, suggest(key, SKIN_KEYS) ?? 'Remove it');
+    }
+  }
+
+  return {
+    valid: !diagnostics.some(d => d.severity === 'error'),
+    diagnostics,
+  };
+}
+
+type Reporter = (path: string, severity: DiagnosticSeverity, message: string, fix?: string) => void;
+
+function validateColors(colors: unknown, report: Reporter): void {
+  if (!isObject(colors)) {
+    report('colors', 'error', 'Colors must be an object');
+    return;
+  }
+
+  for (const key of BASE_COLOR_KEYS) {
+    validateColor(`colors.${key}`, colors[key], report);
+  }
+
+  const palette = colors.palette;
+  if (palette !== undefined) {
+    if (!isObject(palette)) {
+      report('colors.palette', 'error', 'Palette must be an object');
+    } else {
+      for (const key of PALETTE_KEYS) {
+        validateColor(`colors.palette.${key}`, palette[key], report);
+      }
+      for (const key of Object.keys(palette)) {
+        if (!(PALETTE_KEYS as readonly string[]).includes(key)) {
+          report(`colors.palette.${key}`, 'warning', `Unknown palette slot "${key}"`, suggest(key, PALETTE_KEYS) ?? 'Remove it');
+        }
+      }
+    }
+  }
+
+  const dim = colors.dim;
+  if (dim !== undefined) {
+    if (!isObject(dim)) {
+      report('colors.dim', 'error', 'Dim colors must be an object');
+    } else {
+      for (const key of DIM_KEYS) {
+        validateColor(`colors.dim.${key}`, dim[key], report);
+      }
+      for (const key of Object.keys(dim)) {
+        if (!(DIM_KEYS as readonly string[]).includes(key)) {
+          report(`colors.dim.${key}`, 'warning', `Unknown dim slot "${key}"`, suggest(key, DIM_KEYS) ?? 'Remove it');
+        }
+      }
+    }
+  }
+
+  if (colors.extended !== undefined) validateExtendedPalette(colors.extended, report);
+
+  const strategy = colors.paletteStrategy;
+  if (strategy !== undefined && !(PALETTE_STRATEGIES as readonly unknown[]).includes(strategy)) {
+    const fix = typeof strategy === 'string' ? suggest(strategy, PALETTE_STRATEGIES) : undefined;
+    report('colors.paletteStrategy', 'error', `Unknown palette strategy ${JSON.stringify(strategy)}`, fix ?? `Use one of: ${PALETTE_STRATEGIES.join(', ')}`);
+  }
+
+  const colorKeys = [...BASE_COLOR_KEYS, 'palette', 'paletteStrategy', 'dim', 'extended'];
+  for (const key of Object.keys(colors)) {
+    if (!colorKeys.includes(key)) {
+      report(`colors.${key}`, 'warning', `Unknown color "${key}"`, suggest(key, colorKeys) ?? 'Remove it');
+    }
+  }
+}
+
+function validateExtendedPalette(extended: unknown, report: Reporter): void {
+  if (!isObject(extended)) {
+    report('colors.extended', 'error', 'Extended palette must be an object', 'Use e.g. { "generate": true }');
+    return;
+  }
+
+  if (extended.generate !== undefined && typeof extended.generate !== 'boolean') {
+    report('colors.extended.generate', 'error', 'generate must be a boolean', 'Use true or false');
+  }
+
+  const tint = extended.tint;
+  if (tint !== undefined && (typeof tint !== 'number' || !Number.isFinite(tint) || tint < 0 || tint > 1)) {
+    report('colors.extended.tint', 'error', `tint must be a number from 0 to 1, got ${JSON.stringify(tint)}`);
+  }
+
+  const indexed = extended.colors;
+  if (indexed !== undefined) {
+    if (!isObject(indexed)) {
+      report('colors.extended.colors', 'error', 'Extended colors must be an object keyed by color index', 'Use e.g. { "16": "#000000" }');
+    } else {
+      for (const [index, color] of Object.entries(indexed)) {
+        if (!/^\d+$/.test(index) || Number(index) < 16 || Number(index) > 255) {
+          report(`colors.extended.colors.${index}`, 'error', `Invalid color index "${index}"`, 'Use an index from 16 to 255; 0-15 belong in "palette"');
+        } else {
+          validateColor(`colors.extended.colors.${index}`, color, report);
+        }
+      }
+    }
+  }
+
+  for (const key of Object.keys(extended)) {
+    if (!EXTENDED_KEYS.includes(key)) {
+      report(`colors.extended.${key}`, 'warning', `Unknown extended palette property "${key}"`, suggest(key, EXTENDED_KEYS) ?? 'Remove it');
+    }
+  }
+}
+
+function validateColor(path: string, value: unknown, report: Reporter): void {
+  if (value === undefined) {
+    report(path, 'error', 'Missing color', 'Add a hex color such as "#00FF41"');
+  } else if (!isHexColor(value)) {
+    report(path, 'error', `Invalid color ${JSON.stringify(value)}`, 'Use a hex color such as "#00FF41"');
+  }
+}
+
+function validateEffects(effects: unknown, report: Reporter): void {
+  if (!Array.isArray(effects)) {
+    report('effects', 'error', 'Effects must be an array');
+    return;
+  }
+
+  const seen = new Set<string>();
+  effects.forEach((effect, index) => {
+    const path = `effects[${index}]`;
+    if (!isObject(effect)) {
+      report(path, 'error', 'Effect must be an object');
+      return;
+    }
+
+    const type = effect.type;
+    const types = knownEffectTypes();
+    const knownType = typeof type === 'string' && types.includes(type);
+    if (!knownType) {
+      const fix = typeof type === 'string' ? suggest(type, types) : undefined;
+      report(`${path}.type`, 'error', `Unknown effect type ${JSON.stringify(type)}`, fix ?? `Use one of: ${types.join(', ')}`);
+    } else if (seen.has(type)) {
+      report(`${path}.type`, 'warning', `Duplicate effect "${type}"; only the last one is applied`, 'Merge the duplicate entries');
+    } else {
+      seen.add(type);
+    }
+
+    const intensity = effect.intensity;
+    if (typeof intensity !== 'number' || !Number.isFinite(intensity)) {
+      report(`${path}.intensity`, 'error', 'Intensity must be a number', 'Use a value between 0 and 1');
+    } else if (intensity < 0 || intensity > 1) {
+      report(`${path}.intensity`, 'error', `Intensity ${intensity} is outside 0-1`, `Use ${Math.min(1, Math.max(0, intensity))}`);
+    }
+
+    if (effect.enabled !== undefined && typeof effect.enabled !== 'boolean') {
+      report(`${path}.enabled`, 'error', 'enabled must be a boolean', 'Use false to remove an inherited effect');
+    }
+
+    const params = effect.params;
+    if (params === undefined) return;
+    if (!isObject(params)) {
+      report(`${path}.params`, 'error', 'Params must be an object');
+      return;
+    }
+
+    const plugin = knownType ? getEffect(type) : undefined;
+    const validParams = !knownType ? null
+      : isBuiltinEffectType(type) ? EFFECT_PARAMS[type]
+      : Object.keys(plugin?.params ?? {});
+    for (const [key, value] of Object.entries(params)) {
+      const paramPath = `${path}.params.${key}`;
+      const spec = plugin?.params[key];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        report(paramPath, 'error', `Param "${key}" must be a number`);
+      } else if (spec && (value < (spec.min ?? -Infinity) || value > (spec.max ?? Infinity))) {
+        const clamped = Math.min(spec.max ?? Infinity, Math.max(spec.min ?? -Infinity, value));
+        report(paramPath, 'warning', `Param "${key}" ${value} is outside ${rangeText(spec.min, spec.max)} and is clamped`, `Use ${clamped}`);
+      }
+      if (validParams && !validParams.includes(key)) {
+        const fix = suggest(key, validParams)
+          ?? (validParams.length ? `Valid params for ${type}: ${validParams.join(', ')}` : `${type} takes no params`);
+        report(paramPath, 'warning', `Unknown param "${key}" for ${type}`, fix);
+      }
+    }
+  });
+}
+
+/** Built-in effect types followed by the other registered ones */
+function knownEffectTypes(): string[] {
+  const registered = listEffects().map(plugin => plugin.type).filter(type => !isBuiltinEffectType(type));
+  return [...EFFECT_TYPES, ...registered];
+}
+
+function isBuiltinEffectType(type: string): type is EffectType {
+  return (EFFECT_TYPES as string[]).includes(type);
+}
+
+function rangeText(min: number | undefined, max: number | undefined): string {
+  if (min !== undefined && max !== undefined) return `${min}-${max}`;
+  return min !== undefined ? `the minimum ${min}` : `the maximum ${max}`;
+}
+
+function validatePerformance(performance: unknown, report: Reporter): void {
+  if (!isObject(performance)) {
+    report('performance', 'error', 'Performance must be an object');
+    return;
+  }
+
+  if (typeof performance.gpuAcceleration !== 'boolean') {
+    report('performance.gpuAcceleration', 'error', 'gpuAcceleration must be a boolean', 'Use true or false');
+  }
+
+  const fps = performance.targetFps;
+  if (typeof fps !== 'number' || !Number.isFinite(fps) || fps <= 0) {
+    report('performance.targetFps', 'error', 'targetFps must be a positive number', 'Use 30 or 60');
+  } else if (fps > 240) {
+    report('performance.targetFps', 'warning', `targetFps ${fps} is higher than any display refresh rate`, 'Use 60');
+  }
+
+  if (!QUALITY_LEVELS.includes(performance.quality as PerformanceConfig['quality'])) {
+    report('performance.quality', 'error', `Invalid quality ${JSON.stringify(performance.quality)}`, `Use one of: ${QUALITY_LEVELS.join(', ')}`);
+  }
+}
+
+function validateVariants(variants: unknown, report: Reporter): void {
+  if (!isObject(variants)) {
+    report('variants', 'error', 'Variants must be an object', 'Use e.g. { "light": "auto" }');
+    return;
+  }
+
+  for (const appearance of APPEARANCES) {
+    const variant = variants[appearance];
+    const path = `variants.${appearance}`;
+    if (variant === undefined || (appearance === 'light' && variant === 'auto')) continue;
+    if (!isObject(variant)) {
+      const fix = appearance === 'light' ? 'Use "auto" or an object with "colors"' : 'Use an object with "colors"';
+      report(path, 'error', `The ${appearance} variant must be an object`, fix);
+      continue;
+    }
+    if (variant.name !== undefined && typeof variant.name !== 'string') {
+      report(`${path}.name`, 'error', 'Variant name must be a string');
+    }
+    validateColors(variant.colors, (p, ...rest) => report(`${path}.${p}`, ...rest));
+    for (const key of Object.keys(variant)) {
+      if (key !== 'name' && key !== 'colors') {
+        report(`${path}.${key}`, 'warning', `Unknown variant property "${key}"`, suggest(key, ['name', 'colors']) ?? 'Remove it');
+      }
+    }
+  }
+
+  for (const key of Object.keys(variants)) {
+    if (!(APPEARANCES as readonly string[]).includes(key)) {
+      report(`variants.${key}`, 'warning', `Unknown variant "${key}"`, suggest(key, APPEARANCES) ?? 'Use "light" or "dark"');
+    }
+  }
+}
+
+function validateMetadata(metadata: unknown, report: Reporter): void {
+  if (!isObject(metadata)) {
+    report('metadata', 'error', 'Metadata must be an object');
+    return;
+  }
+
+  for (const key of METADATA_TEXT_KEYS) {
+    if (metadata[key] !== undefined && typeof metadata[key] !== 'string') {
+      report(`metadata.${key}`, 'error', `${key} must be a string`);
+    }
+  }
+
+  const tags = metadata.tags;
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string'))) {
+    report('metadata.tags', 'error', 'Tags must be an array of strings', 'Use e.g. ["monochrome", "crt"]');
+  }
+
+  const appearance = metadata.appearance;
+  if (appearance !== undefined && !APPEARANCES.includes(appearance as SkinMetadata['appearance'])) {
+    report('metadata.appearance', 'error', `Invalid appearance ${JSON.stringify(appearance)}`, `Use one of: ${APPEARANCES.join(', ')}`);
+  }
+
+  for (const key of Object.keys(metadata)) {
+    if (!METADATA_KEYS.includes(key)) {
+      report(`metadata.${key}`, 'warning', `Unknown metadata property "${key}"`, suggest(key, METADATA_KEYS) ?? 'Remove it');
+    }
+  }
+}
+
+/** Suggest the closest candidate for a misspelled key */
+function suggest(value: string, candidates: readonly string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshtein(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(2, Math.floor(value.length / 3)) ? `Did you mean "${best}"?` : undefined;
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,104 @@
+/**
+ * Light/Dark Variants
+ *
+ * Resolves a skin's light or dark variant and derives a paper-white,
+ * LCD-style light variant from a dark skin. Adapters with native
+ * appearance switching emit both variants; the others get one of them.
+ */
+
+import type { ColorScheme, SkinConfig, SkinMetadata, SkinVariant } from './skins.js';
+import { skinAppearance } from './catalog.js';
+import { apcaContrast, contrastRatio, hexToOklch, oklchToHex, parseHexColor } from './color.js';
+import type { Oklch } from './color.js';
+
+export type Appearance = SkinMetadata['appearance'];
+
+export const APPEARANCES: readonly Appearance[] = ['dark', 'light'];
+
+/** Hue of the paper when the skin has no colorful base color (a warm off-white) */
+const PAPER_HUE = 95;
+
+/**
+ * The skin as it should look with a light or dark system appearance: its
+ * explicit variant, the skin itself if it already has that appearance, or
+ * for light, a variant derived with deriveLightVariant
+ */
+export function resolveVariant(skin: SkinConfig, appearance: Appearance): SkinConfig {
+  const variant = skin.variants?.[appearance];
+  if (variant && variant !== 'auto') return applyVariant(skin, variant, appearance);
+  if (skinAppearance(skin) === appearance || appearance === 'dark') return withoutVariants(skin);
+  return applyVariant(skin, deriveLightVariant(skin), 'light');
+}
+
+/**
+ * Both variants of a skin that declares `variants`, or null if it does not
+ */
+export function skinVariants(skin: SkinConfig): Record<Appearance, SkinConfig> | null {
+  if (!skin.variants || (!skin.variants.light && !skin.variants.dark)) return null;
+  return { light: resolveVariant(skin, 'light'), dark: resolveVariant(skin, 'dark') };
+}
+
+/**
+ * Derive a light variant: dark ink on paper tinted with the skin's glow hue,
+ * like a reflective LCD. The palette is regenerated for the light background.
+ */
+export function deriveLightVariant(skin: SkinConfig): SkinVariant {
+  const anchor = [skin.colors.glow, skin.colors.accent, skin.colors.foreground]
+    .map(hexToOklch)
+    .find((c): c is Oklch => c !== null && c.c > 0.03);
+  const h = anchor?.h ?? PAPER_HUE;
+  const c = anchor ? Math.min(anchor.c, 0.12) : 0;
+
+  const background = oklchToHex({ l: 0.98, c: anchor ? 0.012 : 0.008, h });
+  const foreground = oklchToHex({ l: 0.2, c: c * 0.4, h });
+  const colors: ColorScheme = {
+    background,
+    foreground,
+    accent: balancedAccent({ l: 0.6, c, h }, background, foreground),
+    glow: oklchToHex({ l: 0.55, c, h }),
+  };
+  if (skin.colors.paletteStrategy) colors.paletteStrategy = skin.colors.paletteStrategy;
+  if (skin.colors.extended?.generate) {
+    colors.extended = { generate: true, ...(skin.colors.extended.tint !== undefined && { tint: skin.colors.extended.tint }) };
+  }
+  return { colors };
+}
+
+/**
+ * The accent is the cursor on the paper, the paper is drawn on the cursor and
+ * ink on the selection, so pick the lightness where the weakest of the three
+ * is strongest relative to the audit targets
+ */
+function balancedAccent(accent: Oklch, background: string, foreground: string): string {
+  const paper = parseHexColor(background)!;
+  const ink = parseHexColor(foreground)!;
+  const score = (hex: string) => {
+    const rgb = parseHexColor(hex)!;
+    return Math.min(
+      contrastRatio(rgb, paper) / 4.5,
+      Math.abs(apcaContrast(paper, rgb)) / 60,
+      Math.abs(apcaContrast(ink, rgb)) / 60,
+    );
+  };
+
+  let best = oklchToHex(accent);
+  for (let l = 0.5; l <= 0.8; l += 0.005) {
+    const candidate = oklchToHex({ ...accent, l });
+    if (score(candidate) > score(best)) best = candidate;
+  }
+  return best;
+}
+
+function applyVariant(skin: SkinConfig, variant: SkinVariant, appearance: Appearance): SkinConfig {
+  return {
+    ...withoutVariants(skin),
+    name: variant.name ?? `${skin.name} ${appearance === 'light' ? 'Light' : 'Dark'}`,
+    colors: variant.colors,
+    metadata: { ...skin.metadata, appearance },
+  };
+}
+
+function withoutVariants(skin: SkinConfig): SkinConfig {
+  const { variants: _variants, ...rest } = skin;
+  return rest;
+}
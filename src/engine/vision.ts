@@ -0,0 +1,157 @@
+/**
+ * Color Vision Simulation
+ *
+ * Shows how a skin looks with a color-vision deficiency, using the Machado,
+ * Oliveira & Fernandes (2009) matrices for full dichromacy and luminance
+ * for achromatopsia, and finds palette slots that stop being distinguishable.
+ */
+
+import type { ColorScheme } from './skins.js';
+import { resolveExtendedPalette, resolvePalette } from './palette.js';
+import type { ColorPalette, DimPalette } from './palette.js';
+import { colorDistance, formatHexColor, linearToSrgb, parseHexColor, srgbToLinear } from './color.js';
+
+export type VisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export const VISION_DEFICIENCIES: readonly VisionDeficiency[] = ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'];
+
+export interface CollapseOptions {
+  /** OKLab distance below which two colors count as the same (default 0.05) */
+  threshold?: number;
+}
+
+export interface CollapsedSlots {
+  /** The two palette slots, e.g. `red` and `green` */
+  slots: [keyof ColorPalette, keyof ColorPalette];
+  /** Their simulated colors */
+  colors: [string, string];
+  /** OKLab distance before simulation */
+  before: number;
+  /** OKLab distance after simulation */
+  after: number;
+}
+
+type Matrix = [number, number, number, number, number, number, number, number, number];
+
+/** Machado et al. 2009, severity 1.0, applied to linear RGB */
+const DICHROMACY_MATRICES: Record<Exclude<VisionDeficiency, 'achromatopsia'>, Matrix> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.011820, 0.042940, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.303900,
+  ],
+};
+
+/**
+ * Slot pairs that mean different things in terminal output (errors vs
+ * success, warnings vs info...) and so must stay apart
+ */
+const DISTINCT_PAIRS: Array<[string, string]> = [
+  ['red', 'green'],
+  ['red', 'yellow'],
+  ['green', 'yellow'],
+  ['blue', 'purple'],
+  ['green', 'cyan'],
+  ['blue', 'cyan'],
+  ['red', 'purple'],
+  ['yellow', 'white'],
+];
+
+/**
+ * Check whether a string names a supported deficiency
+ */
+export function isVisionDeficiency(value: string): value is VisionDeficiency {
+  return (VISION_DEFICIENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Simulate how a hex color looks with a deficiency; invalid colors are returned unchanged
+ */
+export function simulateColor(color: string, type: VisionDeficiency): string {
+  const rgb = parseHexColor(color);
+  if (!rgb) return color;
+  const r = srgbToLinear(rgb.r);
+  const g = srgbToLinear(rgb.g);
+  const b = srgbToLinear(rgb.b);
+
+  if (type === 'achromatopsia') {
+    const y = linearToSrgb(0.2126 * r + 0.7152 * g + 0.0722 * b);
+    return formatHexColor({ r: y, g: y, b: y });
+  }
+
+  const m = DICHROMACY_MATRICES[type];
+  return formatHexColor({
+    r: linearToSrgb(m[0] * r + m[1] * g + m[2] * b),
+    g: linearToSrgb(m[3] * r + m[4] * g + m[5] * b),
+    b: linearToSrgb(m[6] * r + m[7] * g + m[8] * b),
+  });
+}
+
+/**
+ * Simulate a whole color scheme. The palettes are resolved first, so the
+ * result always carries an explicit palette (and explicit colors 16-255
+ * when the skin themes them).
+ */
+export function simulateColorScheme(colors: ColorScheme, type: VisionDeficiency): ColorScheme {
+  const simulateAll = <T extends object>(table: T): T => Object.fromEntries(
+    Object.entries(table).map(([key, color]) => [key, simulateColor(color, type)]),
+  ) as T;
+  const extended = resolveExtendedPalette(colors);
+
+  return {
+    ...colors,
+    background: simulateColor(colors.background, type),
+    foreground: simulateColor(colors.foreground, type),
+    accent: simulateColor(colors.accent, type),
+    glow: simulateColor(colors.glow, type),
+    palette: simulateAll<ColorPalette>(resolvePalette(colors)),
+    ...(colors.dim && { dim: simulateAll<DimPalette>(colors.dim) }),
+    ...(extended && { extended: { colors: simulateAll(extended) } }),
+  };
+}
+
+/**
+ * Find semantically different palette slots (e.g. red and green) that look
+ * alike under a deficiency. Pairs that were already alike before simulation
+ * are the skin's own choice and are not reported.
+ */
+export function findCollapsedSlots(
+  colors: ColorScheme,
+  type: VisionDeficiency,
+  options: CollapseOptions = {},
+): CollapsedSlots[] {
+  const threshold = options.threshold ?? 0.05;
+  const original = resolvePalette(colors);
+  const simulated = simulateColorScheme(colors, type).palette!;
+
+  const collapsed: CollapsedSlots[] = [];
+  for (const [first, second] of DISTINCT_PAIRS) {
+    for (const prefix of ['', 'bright']) {
+      const a = (prefix ? `${prefix}${first[0].toUpperCase()}${first.slice(1)}` : first) as keyof ColorPalette;
+      const b = (prefix ? `${prefix}${second[0].toUpperCase()}${second.slice(1)}` : second) as keyof ColorPalette;
+      const before = distance(original[a], original[b]);
+      const after = distance(simulated[a], simulated[b]);
+      if (before === null || after === null) continue;
+      if (after < threshold && before >= threshold) {
+        collapsed.push({ slots: [a, b], colors: [simulated[a], simulated[b]], before, after });
+      }
+    }
+  }
+  return collapsed;
+}
+
+function distance(a: string, b: string): number | null {
+  const ra = parseHexColor(a);
+  const rb = parseHexColor(b);
+  return ra && rb ? colorDistance(ra, rb) : null;
+}
@@ -7,10 +7,56 @@
 // Core types and configurations
 export * from './engine/skins.js';
 
+// Preset catalog and skin search
+export * from './engine/catalog.js';
+
+// Color math and palette generation
+export * from './engine/color.js';
+export * from './engine/palette.js';
+
+// Contrast audit
+export * from './engine/audit.js';
+
+// Color-vision deficiency simulation
+export * from './engine/vision.js';
+
+// Skin loading from files
+export * from './engine/loader.js';
+
+// Skin inheritance (extends)
+export * from './engine/inheritance.js';
+
+// Light/dark variants
+export * from './engine/variants.js';
+
+// Terminal previews (sample screens drawn with ANSI colors)
+export * from './engine/preview.js';
+
+// HTML previews (self-contained pages running the render engine)
+export * from './engine/html.js';
+
+// Headless rendering (software rasterizer, PNG thumbnails)
+export * from './engine/raster/index.js';
+
+// Skin validation
+export * from './engine/validation.js';
+
+// Config installation (atomic writes, backups, restore)
+export * from './engine/install.js';
+
+// Config serializers (escaping emitters used by the adapters)
+export * from './engine/serializers/index.js';
+
 // Render engine
 export { RetroRenderEngine, createRenderEngine } from './engine/engine.js';
 
-// Terminal adapters
+// Render engine effects (plugin interface, registry with the built-ins registered)
+export * from './engine/effects/index.js';
+
+// Terminal adapters (registry with the built-ins registered)
+export * from './engine/adapters/index.js';
 export { WezTermAdapter, createWezTermAdapter } from './engine/adapters/wezterm/index.js';
 export { AlacrittyAdapter, createAlacrittyAdapter } from './engine/adapters/alacritty/index.js';
 export { KittyAdapter, createKittyAdapter } from './engine/adapters/kitty/index.js';
+export { WindowsTerminalAdapter, createWindowsTerminalAdapter } from './engine/adapters/windows-terminal/index.js';
+export { GhosttyAdapter, createGhosttyAdapter } from './engine/adapters/ghostty/index.js';
@@ -0,0 +1,73 @@
+/**
+ * Tests for the contrast audit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSkin, PRESET_SKINS } from '../src/engine/skins';
+import { apcaContrast, contrastRatio, hexToOklch, parseHexColor } from '../src/engine/color';
+import { adjustLightness, auditSkin, fixSkinContrast } from '../src/engine/audit';
+
+const rgb = (hex: string) => parseHexColor(hex)!;
+
+describe('Contrast metrics', () => {
+  it('should compute WCAG 2 ratios', () => {
+    expect(contrastRatio(rgb('#000000'), rgb('#FFFFFF'))).toBeCloseTo(21, 5);
+    expect(contrastRatio(rgb('#777777'), rgb('#FFFFFF'))).toBeCloseTo(4.48, 2);
+    expect(contrastRatio(rgb('#123456'), rgb('#123456'))).toBe(1);
+  });
+
+  it('should compute APCA Lc with polarity', () => {
+    expect(apcaContrast(rgb('#000000'), rgb('#FFFFFF'))).toBeCloseTo(106.04, 1);
+    expect(apcaContrast(rgb('#FFFFFF'), rgb('#000000'))).toBeCloseTo(-107.88, 1);
+    expect(apcaContrast(rgb('#888888'), rgb('#888888'))).toBe(0);
+  });
+});
+
+describe('Skin audit', () => {
+  it('should flag puncore\'s foreground as an error', () => {
+    const result = auditSkin(PRESET_SKINS.puncore());
+    const foreground = result.checks.find(c => c.name === 'foreground')!;
+    expect(result.passed).toBe(false);
+    expect(foreground.severity).toBe('error');
+    expect(foreground.wcag).toBeCloseTo(1.96, 2);
+  });
+
+  it('should pass phosphor\'s foreground and skip the black slot on dark skins', () => {
+    const result = auditSkin(PRESET_SKINS.phosphor());
+    expect(result.checks.find(c => c.name === 'foreground')!.severity).toBeUndefined();
+    expect(result.checks.map(c => c.name)).not.toContain('palette.black');
+    expect(result.checks.map(c => c.name)).toContain('palette.brightBlack');
+  });
+
+  it('should respect custom targets', () => {
+    const skin = PRESET_SKINS.phosphor();
+    const strict = auditSkin(skin, { text: { wcag: 30 } });
+    expect(strict.checks.find(c => c.name === 'foreground')!.severity).toBe('error');
+  });
+});
+
+describe('Contrast fixes', () => {
+  it('should reach the target while keeping hue', () => {
+    const fixed = adjustLightness('#008F11', '#0D0208', { wcag: 7, apca: 75 });
+    expect(contrastRatio(rgb(fixed), rgb('#0D0208'))).toBeGreaterThanOrEqual(7);
+    expect(hexToOklch(fixed)!.h).toBeCloseTo(hexToOklch('#008F11')!.h, 0);
+  });
+
+  it('should leave passing colors untouched', () => {
+    expect(adjustLightness('#FFFFFF', '#000000', { wcag: 4.5, apca: 60 })).toBe('#FFFFFF');
+  });
+
+  it('should fix foreground, palette and cursor of a skin', () => {
+    const { skin, fixes } = fixSkinContrast(PRESET_SKINS.puncore());
+    const after = auditSkin(skin);
+    const failing = after.checks.filter(c => c.severity).map(c => c.name);
+    expect(failing).toEqual(['cursor text', 'selection']);
+    expect(fixes.map(f => f.path)).toContain('colors.foreground');
+    expect(skin.colors.background).toBe('#575757');
+  });
+
+  it('should only add a palette when a generated slot changed', () => {
+    const legible = createSkin({ colors: { background: '#000000', foreground: '#FFFFFF', accent: '#FFB000', glow: '#FFB000' } });
+    expect(fixSkinContrast(legible).skin.colors.palette).toBeUndefined();
+  });
+});
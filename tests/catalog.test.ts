@@ -0,0 +1,68 @@
+/**
+ * Tests for the preset catalog and skin search
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSkin, PRESET_SKINS } from '../src/engine/skins';
+import { getPresetSkin, listPresetNames, matchesSkinQuery, skinAppearance, skinTags } from '../src/engine/catalog';
+import { validateSkin } from '../src/engine/validation';
+import { createWezTermAdapter } from '../src/engine/adapters/wezterm/index';
+import { createAlacrittyAdapter } from '../src/engine/adapters/alacritty/index';
+import { createKittyAdapter } from '../src/engine/adapters/kitty/index';
+import { createWindowsTerminalAdapter } from '../src/engine/adapters/windows-terminal/index';
+import { createGhosttyAdapter } from '../src/engine/adapters/ghostty/index';
+
+describe('Preset catalog', () => {
+  it('should give every preset complete, valid metadata', () => {
+    for (const name of listPresetNames()) {
+      const skin = getPresetSkin(name)!;
+      expect(skin.metadata).toMatchObject({
+        description: expect.any(String),
+        author: expect.any(String),
+        era: expect.any(String),
+        tags: expect.any(Array),
+        appearance: expect.stringMatching(/^(dark|light)$/),
+      });
+      expect(validateSkin(skin).diagnostics).toEqual([]);
+    }
+  });
+
+  it('should be what every built-in adapter lists', () => {
+    for (const adapter of [
+      createWezTermAdapter(),
+      createAlacrittyAdapter(),
+      createKittyAdapter(),
+      createWindowsTerminalAdapter(),
+      createGhosttyAdapter(),
+    ]) {
+      expect(adapter.listSkins()).toEqual(Object.keys(PRESET_SKINS));
+    }
+  });
+
+  it('should not resolve inherited object properties as presets', () => {
+    expect(getPresetSkin('constructor')).toBeNull();
+    expect(getPresetSkin('puncore')?.name).toBe('Puncore Neon');
+  });
+
+  it('should derive the appearance from the background when metadata lacks it', () => {
+    expect(skinAppearance(createSkin({ colors: { background: '#F5F1E6', foreground: '#222222', accent: '#0055AA', glow: '#0055AA' } }))).toBe('light');
+    expect(skinAppearance(createSkin({}))).toBe('dark');
+  });
+
+  it('should match tags and text case-insensitively', () => {
+    const cyber = PRESET_SKINS.cyber();
+    expect(skinTags(cyber)).toContain('dark');
+    expect(matchesSkinQuery(cyber, { tag: 'NEON' })).toBe(true);
+    expect(matchesSkinQuery(cyber, { tag: 'monochrome' })).toBe(false);
+    expect(matchesSkinQuery(cyber, { search: 'cyberpunk' })).toBe(true);
+    expect(matchesSkinQuery(cyber, { search: 'cyb' }, 'cyber')).toBe(true);
+    expect(matchesSkinQuery(cyber, { tag: 'neon', search: 'amber' })).toBe(false);
+  });
+
+  it('should report malformed metadata', () => {
+    const result = validateSkin({ ...PRESET_SKINS.amber(), metadata: { tags: 'neon', appearence: 'dark' } });
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map(d => d.path)).toEqual(['metadata.tags', 'metadata.appearence']);
+    expect(result.diagnostics[1].fix).toBe('Did you mean "appearance"?');
+  });
+});
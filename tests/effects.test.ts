@@ -0,0 +1,568 @@
+/**
+ * Tests for the effect registry and the render engine's effect pipeline
+ */
+
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import {
+  animatedBgMode,
+  BUILTIN_EFFECTS,
+  EffectRegistrationError,
+  getEffect,
+  listEffects,
+  registerEffect,
+  resolveEffectParams,
+  unregisterEffect,
+} from '../src/engine/effects/index';
+import type { EffectPlugin } from '../src/engine/effects/index';
+import { createRenderEngine } from '../src/engine/engine';
+import { createSkin } from '../src/engine/skins';
+import type { VisualEffect } from '../src/engine/skins';
+import { EFFECT_PARAMS, validateSkin } from '../src/engine/validation';
+
+const tint: EffectPlugin = {
+  type: 'tint',
+  order: 450,
+  params: { hue: { default: 90, min: 0, max: 360 } },
+  update: ({ params }, frame) => { frame.filters.push(`hue-rotate(${params.hue}deg)`); },
+};
+
+/** Just enough of an element for the engine and the built-in effects */
+function fakeElement() {
+  const properties = new Map<string, string>();
+  const children: Array<{ className: string; style: { cssText: string }; remove(): void }> = [];
+  const style = {
+    filter: '', transform: '', textShadow: '', backgroundColor: '', color: '',
+    position: '', isolation: '', borderRadius: '', overflow: '',
+    setProperty: (name: string, value: string) => { properties.set(name, value); },
+    removeProperty: (name: string) => { properties.delete(name); },
+    getPropertyValue: (name: string) => properties.get(name) ?? '',
+  };
+  const element = {
+    style,
+    children,
+    appendChild(child: (typeof children)[number]) {
+      children.push(child);
+      child.remove = () => { children.splice(children.indexOf(child), 1); };
+    },
+  };
+  return element as typeof element & HTMLElement;
+}
+
+interface SvgNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: unknown[];
+}
+
+/** The SVG parts of a document; nodes appended to the body are collected in `page` */
+function svgDocument(page: SvgNode[]) {
+  const createElementNS = (_ns: string, name: string) => {
+    const node = {
+      name,
+      attributes: {} as Record<string, string>,
+      children: [] as unknown[],
+      style: {},
+      setAttribute: (key: string, value: string) => { node.attributes[key] = value; },
+      appendChild: (child: unknown) => { node.children.push(child); },
+      remove: () => { page.splice(page.indexOf(node), 1); },
+    };
+    return node;
+  };
+  return { createElementNS, body: { appendChild: (node: SvgNode) => { page.push(node); } } };
+}
+
+describe('Effect registry', () => {
+  afterEach(() => {
+    unregisterEffect(tint.type);
+  });
+
+  it('should register the built-in effects in pipeline order', () => {
+    expect(listEffects().map(plugin => plugin.type)).toEqual([
+      'phosphor-glow', 'shake', 'animated-bg', 'phosphor-persistence', 'crt-flicker', 'noise',
+      'color-shift', 'crt-scanlines', 'vignette', 'crt-curvature',
+    ]);
+  });
+
+  it('should declare the params validation knows for each built-in', () => {
+    for (const plugin of BUILTIN_EFFECTS) {
+      expect(Object.keys(plugin.params)).toEqual(EFFECT_PARAMS[plugin.type as keyof typeof EFFECT_PARAMS]);
+    }
+  });
+
+  it('should slot runtime effects in by order, ties broken by type', () => {
+    registerEffect(tint);
+    registerEffect({ ...tint, type: 'aaa-tint' });
+    expect(listEffects().map(plugin => plugin.type).slice(4, 8)).toEqual(['crt-flicker', 'aaa-tint', 'tint', 'noise']);
+    unregisterEffect('aaa-tint');
+  });
+
+  it('should reject duplicate and malformed types', () => {
+    registerEffect(tint);
+    expect(() => registerEffect(tint)).toThrow(EffectRegistrationError);
+    expect(() => registerEffect({ ...tint, type: 'Bad Type' })).toThrow(EffectRegistrationError);
+    expect(() => registerEffect({ ...tint, order: 1 }, { replace: true })).not.toThrow();
+    expect(getEffect('tint')?.order).toBe(1);
+  });
+
+  it('should fill in param defaults and clamp to the declared range', () => {
+    const effect = (params: VisualEffect['params']): VisualEffect => ({ type: 'tint', intensity: 1, params });
+    expect(resolveEffectParams(tint, effect({}))).toEqual({ hue: 90 });
+    expect(resolveEffectParams(tint, effect({ hue: 400, extra: 2 }))).toEqual({ hue: 360, extra: 2 });
+    expect(resolveEffectParams(tint, effect({ hue: -5 }))).toEqual({ hue: 0 });
+  });
+});
+
+describe('Render engine effect pipeline', () => {
+  let frames: Array<(time: number) => void>;
+  let page: SvgNode[];
+
+  beforeEach(() => {
+    frames = [];
+    page = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: (time: number) => void) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    vi.stubGlobal('document', {
+      createElement: () => ({ className: '', style: { cssText: '' }, getContext: () => null, setAttribute() {}, remove() {} }),
+      ...svgDocument(page),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    unregisterEffect(tint.type);
+  });
+
+  /** Run the most recently requested animation frame */
+  const tick = (time: number) => frames.at(-1)!(time);
+
+  const skin = (effects: VisualEffect[]) => createSkin({ effects, performance: { gpuAcceleration: true, targetFps: 60, quality: 'high' } });
+
+  it('should combine the filters of every effect instead of overwriting', () => {
+    const element = fakeElement();
+    element.style.filter = 'contrast(1.1)';
+    const engine = createRenderEngine();
+    engine.initialize(element, skin([
+      { type: 'noise', intensity: 0.5, params: {} },
+      { type: 'crt-flicker', intensity: 1, params: { frequency: 1 } },
+    ]));
+    tick(100);
+
+    const filter = page[0].children[0] as SvgNode;
+    expect(filter.attributes.id).toMatch(/^retro-noise-filter-\d+$/);
+    expect(filter.children.map(primitive => (primitive as SvgNode).name)).toEqual(['feTurbulence', 'feColorMatrix', 'feBlend']);
+    expect(element.style.filter).toBe(`contrast(1.1) brightness(${1 + Math.sin(1) * 0.1}) url('#${filter.attributes.id}')`);
+    expect(element.children.map(child => child.className)).toEqual(['retro-noise']);
+
+    engine.destroy();
+    expect(element.style.filter).toBe('contrast(1.1)');
+    expect(element.children).toEqual([]);
+    expect(page).toEqual([]);
+  });
+
+  it('should run registered effects from the skin in pipeline order', () => {
+    registerEffect(tint);
+    const element = fakeElement();
+    const engine = createRenderEngine();
+    engine.initialize(element, skin([
+      { type: 'tint', intensity: 1, params: { hue: 180 } },
+      { type: 'crt-flicker', intensity: 1, params: {} },
+      { type: 'unknown-effect', intensity: 1, params: {} },
+    ]));
+    tick(100);
+    expect(element.style.filter).toBe(`brightness(${1 + Math.sin(1) * 0.1}) hue-rotate(180deg)`);
+    engine.destroy();
+  });
+
+  it('should layer the static effects over the content and honor their params', () => {
+    const element = fakeElement();
+    const engine = createRenderEngine();
+    engine.initialize(element, skin([
+      { type: 'crt-curvature', intensity: 1, params: { radius: 2 } },
+      { type: 'vignette', intensity: 0.5, params: { radius: 0.8 } },
+      { type: 'crt-scanlines', intensity: 0.5, params: { lineSpacing: 4 } },
+    ]));
+
+    const layers = Object.fromEntries(element.children.map(child => [child.className, child.style.cssText]));
+    expect(Object.keys(layers)).toEqual(['retro-scanlines', 'retro-vignette', 'retro-curvature']);
+    expect(layers['retro-scanlines']).toContain('z-index: 1;');
+    expect(layers['retro-scanlines']).toContain('transparent 0 2px, rgba(0, 0, 0, 0.3) 2px 4px');
+    expect(layers['retro-vignette']).toContain('transparent 60%, rgba(0, 0, 0, 0.4) 100%');
+    expect(layers['retro-curvature']).toContain('z-index: 4;');
+    expect(element.style).toMatchObject({ position: 'relative', isolation: 'isolate', borderRadius: '20px', overflow: 'hidden' });
+  });
+
+  it('should keep the old overlay methods as wrappers over the plugins', () => {
+    const element = fakeElement();
+    const engine = createRenderEngine();
+    engine.initialize(element, skin([{ type: 'crt-scanlines', intensity: 0.5, params: { lineSpacing: 4 } }]));
+    engine.applyScanlines(element, 1);
+    engine.applyVignette(element, 0.5);
+    engine.applyCurvature(element, 1);
+
+    const layers = Object.fromEntries(element.children.map(child => [child.className, child.style.cssText]));
+    expect(Object.keys(layers)).toEqual(['retro-scanlines', 'retro-vignette', 'retro-curvature']);
+    expect(layers['retro-scanlines']).toContain('transparent 0 1px, rgba(0, 0, 0, 0.6) 1px 2px');
+    expect(layers['retro-vignette']).toContain('transparent 60%, rgba(0, 0, 0, 0.4) 100%');
+    engine.destroy();
+    expect(element.children).toEqual([]);
+    expect(element.style.borderRadius).toBe('');
+
+    const other = fakeElement();
+    engine.applyVignette(other, 1);
+    expect(other.children.map(child => child.className)).toEqual(['retro-vignette']);
+  });
+
+  it('should return the element to its original state on destroy', () => {
+    const element = fakeElement();
+    Object.assign(element.style, { position: 'absolute', borderRadius: '4px', color: '#123456' });
+    element.style.setProperty('--retro-fg', '#ABCDEF');
+    const before = { ...element.style };
+
+    const engine = createRenderEngine();
+    engine.initialize(element, skin([
+      { type: 'crt-curvature', intensity: 1, params: {} },
+      { type: 'crt-scanlines', intensity: 0.5, params: {} },
+      { type: 'noise', intensity: 0.5, params: {} },
+      { type: 'phosphor-glow', intensity: 1, params: {} },
+    ]));
+    tick(100);
+    expect(element.style.position).toBe('absolute');
+    engine.destroy();
+
+    expect(element.children).toEqual([]);
+    expect({ ...element.style }).toEqual(before);
+    expect(element.style.getPropertyValue('--retro-fg')).toBe('#ABCDEF');
+    expect(element.style.getPropertyValue('--retro-bg')).toBe('');
+  });
+
+  it('should set up effects again when the config changes', () => {
+    const element = fakeElement();
+    const engine = createRenderEngine();
+    engine.initialize(element, skin([{ type: 'phosphor-glow', intensity: 1, params: { falloff: 0 } }]));
+    tick(100);
+    expect(element.style.textShadow).toBe('0 0 4px #00FF41');
+
+    engine.updateConfig(skin([{ type: 'shake', intensity: 1, params: {} }, { type: 'phosphor-glow', intensity: 0, params: {} }]));
+    expect(element.style.textShadow).toBe('');
+    tick(200);
+    expect(element.style.transform).toMatch(/^translate\(-?[\d.e-]+px, -?[\d.e-]+px\)$/);
+    expect(element.style.textShadow).toBe('');
+
+    engine.destroy();
+    expect(element.style.transform).toBe('');
+  });
+
+  it('should size the glow from radius and falloff', () => {
+    const element = fakeElement();
+    const engine = createRenderEngine();
+    engine.initialize(element, skin([{ type: 'phosphor-glow', intensity: 0.5, params: { radius: 3, falloff: 0.6 } }]));
+    tick(100);
+    expect(element.style.textShadow).toBe('0 0 3px color-mix(in srgb, #00FF41 70%, transparent)');
+
+    engine.updateConfig(skin([{ type: 'phosphor-glow', intensity: 0.5, params: { radius: 3, falloff: 0 } }]));
+    tick(200);
+    expect(element.style.textShadow).toBe('0 0 3px #00FF41');
+    engine.destroy();
+  });
+
+  it('should shake the given number of times per second', () => {
+    const element = fakeElement();
+    const engine = createRenderEngine();
+    engine.initialize(element, skin([{ type: 'shake', intensity: 1, params: { frequency: 2 } }]));
+    const shaking = [100, 150, 300, 500, 600, 700].map(time => {
+      tick(time);
+      return element.style.transform !== '';
+    });
+    expect(shaking).toEqual([true, true, false, false, true, false]);
+    engine.destroy();
+  });
+});
+
+describe('Validation of registered effects', () => {
+  afterEach(() => {
+    unregisterEffect(tint.type);
+  });
+
+  const skinWith = (effect: Record<string, unknown>) => ({ ...createSkin({}), effects: [effect] });
+
+  it('should accept registered effect types and check their params', () => {
+    expect(validateSkin(skinWith({ type: 'tint', intensity: 1, params: {} })).valid).toBe(false);
+
+    registerEffect(tint);
+    const result = validateSkin(skinWith({ type: 'tint', intensity: 1, params: { hue: 400, sat: 1 } }));
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([
+      { path: 'effects[0].params.hue', severity: 'warning', message: 'Param "hue" 400 is outside 0-360 and is clamped', fix: 'Use 360' },
+      { path: 'effects[0].params.sat', severity: 'warning', message: 'Unknown param "sat" for tint', fix: 'Valid params for tint: hue' },
+    ]);
+  });
+
+  it('should suggest registered types for typos', () => {
+    registerEffect(tint);
+    const [diagnostic] = validateSkin(skinWith({ type: 'tnit', intensity: 1, params: {} })).diagnostics;
+    expect(diagnostic.fix).toBe('Did you mean "tint"?');
+  });
+});
+
+describe('Phosphor persistence', () => {
+  let frames: Array<(time: number) => void>;
+  let canvas: { width: number; height: number; className: string; style: { cssText: string }; [key: string]: unknown };
+  let calls: string[];
+  let observed: { callback: (entries: Array<{ isIntersecting: boolean }>) => void; disconnected: boolean };
+
+  beforeEach(() => {
+    frames = [];
+    calls = [];
+    const ctx = {
+      fillStyle: '',
+      setTransform: (...matrix: number[]) => calls.push(`setTransform(${matrix.join(', ')})`),
+      fillRect: () => calls.push(`fillRect ${ctx.fillStyle}`),
+      fillText: (text: string, x: number, y: number) => calls.push(`fillText ${ctx.fillStyle} ${text} ${x},${y}`),
+    };
+    canvas = { width: 0, height: 0, className: '', style: { cssText: '' }, getContext: () => ctx, setAttribute() {}, remove() {} };
+    const text = { textContent: '$ ls\n\nREADME.md', parentElement: {} };
+    vi.stubGlobal('requestAnimationFrame', (callback: (time: number) => void) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    vi.stubGlobal('NodeFilter', { SHOW_TEXT: 4 });
+    vi.stubGlobal('getComputedStyle', () => ({ position: 'static', fontStyle: 'normal', fontWeight: '400', fontSize: '15px', fontFamily: 'monospace' }));
+    vi.stubGlobal('IntersectionObserver', class {
+      constructor(callback: typeof observed.callback) { observed = { callback, disconnected: false }; }
+      observe() {}
+      disconnect() { observed.disconnected = true; }
+    });
+    vi.stubGlobal('document', {
+      createElement: () => canvas,
+      createTreeWalker: () => {
+        let done = false;
+        return { nextNode: () => (done ? null : ((done = true), text)) };
+      },
+      createRange: () => {
+        let start = 0;
+        return {
+          setStart: (_node: unknown, offset: number) => { start = offset; },
+          setEnd() {},
+          getBoundingClientRect: () => ({ left: 18, top: 10 + (start ? 40 : 0) }),
+        };
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const tick = (time: number) => frames.at(-1)!(time);
+
+  function start(quality: 'low' | 'medium' | 'high') {
+    const element = Object.assign(fakeElement(), {
+      clientWidth: 100,
+      clientHeight: 50,
+      getBoundingClientRect: () => ({ left: 8, top: 10 }),
+    });
+    const engine = createRenderEngine();
+    engine.initialize(element, createSkin({
+      effects: [{ type: 'phosphor-persistence', intensity: 0.5, params: { decay: 0.2 } }],
+      performance: { gpuAcceleration: true, targetFps: 60, quality },
+    }));
+    return { element, engine };
+  }
+
+  it('should size the buffer by quality', () => {
+    start('low');
+    tick(100);
+    expect([canvas.width, canvas.height]).toEqual([50, 25]);
+    expect(calls[0]).toBe('setTransform(0.5, 0, 0, 0.5, 0, 0)');
+
+    vi.stubGlobal('devicePixelRatio', 3);
+    start('high');
+    tick(100);
+    expect([canvas.width, canvas.height]).toEqual([200, 100]);
+  });
+
+  it('should fade the previous glyphs and draw the current ones behind the text', () => {
+    const { element } = start('medium');
+    expect(canvas.className).toBe('retro-persistence');
+    expect(canvas.style.cssText).toContain('z-index: -1;');
+
+    tick(100);
+    expect(calls.slice(1)).toEqual([
+      'fillRect rgba(0, 0, 0, 0.6)',
+      'fillText #00FF41 $ ls 10,0',
+      'fillText #00FF41 README.md 10,40',
+    ]);
+
+    // Two frames at the target rate have passed: the trail keeps 0.4²
+    calls = [];
+    tick(100 + 2000 / 60);
+    const alpha = Number(/rgba\(0, 0, 0, ([\d.]+)\)/.exec(calls[1])![1]);
+    expect(alpha).toBeCloseTo(0.84);
+    expect(element.children).toHaveLength(1);
+  });
+
+  it('should stop drawing while the element is not visible', () => {
+    const { element, engine } = start('medium');
+    tick(100);
+    observed.callback([{ isIntersecting: false }]);
+    calls = [];
+    tick(200);
+    expect(calls).toEqual([]);
+    expect(canvas.width).toBe(0);
+
+    engine.destroy();
+    expect(observed.disconnected).toBe(true);
+    expect(element.children).toEqual([]);
+  });
+});
+
+describe('Animated backgrounds', () => {
+  let frames: Array<(time: number) => void>;
+  let canvas: { width: number; height: number; className: string; style: { cssText: string }; [key: string]: unknown };
+  let calls: string[];
+
+  beforeEach(() => {
+    frames = [];
+    calls = [];
+    const ctx = {
+      fillStyle: '' as unknown,
+      globalCompositeOperation: 'source-over',
+      clearRect: () => calls.push('clearRect'),
+      fillRect: () => calls.push(`fillRect ${typeof ctx.fillStyle === 'string' ? ctx.fillStyle : 'gradient'}`),
+      fillText: () => calls.push('fillText'),
+      createLinearGradient: () => ({ addColorStop: (offset: number, color: string) => calls.push(`stop ${offset} ${color}`) }),
+    };
+    canvas = { width: 0, height: 0, className: '', style: { cssText: '' }, getContext: () => ctx, setAttribute() {}, remove() {} };
+    vi.stubGlobal('requestAnimationFrame', (callback: (time: number) => void) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    vi.stubGlobal('document', { createElement: () => canvas });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const tick = (time: number) => frames.at(-1)!(time);
+
+  function start(mode: number) {
+    const element = Object.assign(fakeElement(), { clientWidth: 280, clientHeight: 140 });
+    const engine = createRenderEngine();
+    engine.initialize(element, createSkin({
+      effects: [{ type: 'animated-bg', intensity: 0.5, params: { speed: 1, mode } }],
+      performance: { gpuAcceleration: true, targetFps: 30, quality: 'high' },
+    }));
+    return { element, engine };
+  }
+
+  it('should pick the scene from the mode param', () => {
+    expect([0, 1, 2, 3].map(animatedBgMode)).toEqual(['gradient', 'starfield', 'matrix', 'raster-bars']);
+    expect(animatedBgMode(undefined)).toBe('gradient');
+    expect(animatedBgMode(2.7)).toBe('matrix');
+    expect(animatedBgMode(9)).toBe('raster-bars');
+  });
+
+  it('should draw behind the text on a canvas sized to the element', () => {
+    const { element, engine } = start(0);
+    expect(canvas.className).toBe('retro-animated-bg');
+    expect(canvas.style.cssText).toContain('z-index: -2;');
+
+    tick(750);
+    expect([canvas.width, canvas.height]).toEqual([280, 140]);
+    // Three quarters of a band past the start, the first stop is at its brightest
+    expect(calls[0]).toBe('stop 0 rgba(0, 255, 65, 0.175)');
+    expect(calls.slice(-2)).toEqual(['clearRect', 'fillRect gradient']);
+
+    engine.destroy();
+    expect(element.children).toEqual([]);
+  });
+
+  it('should animate every scene', () => {
+    for (const mode of [1, 2, 3]) {
+      calls = [];
+      const { engine } = start(mode);
+      for (const time of [100, 400, 700]) tick(time);
+      expect(calls.length).toBeGreaterThan(3);
+      if (mode === 2) expect(calls).toContain('fillText');
+      if (mode === 3) expect(calls.filter(call => call === 'fillRect gradient')).toHaveLength(15);
+      engine.destroy();
+    }
+  });
+
+  it('should warn about modes that do not exist', () => {
+    const skin = { ...createSkin({}), effects: [{ type: 'animated-bg', intensity: 0.5, params: { mode: 7 } }] };
+    expect(validateSkin(skin).diagnostics).toEqual([
+      { path: 'effects[0].params.mode', severity: 'warning', message: 'Param "mode" 7 is outside 0-3 and is clamped', fix: 'Use 3' },
+    ]);
+  });
+});
+
+describe('Color shift', () => {
+  let frames: Array<(time: number) => void>;
+  let page: SvgNode[];
+
+  beforeEach(() => {
+    frames = [];
+    page = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: (time: number) => void) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    vi.stubGlobal('document', svgDocument(page));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const tick = (time: number) => frames.at(-1)!(time);
+
+  function start(quality: 'low' | 'medium' | 'high', params: VisualEffect['params']) {
+    const element = Object.assign(fakeElement(), { clientWidth: 800 });
+    const engine = createRenderEngine();
+    engine.initialize(element, createSkin({
+      effects: [
+        { type: 'phosphor-glow', intensity: 0.5, params: { falloff: 0 } },
+        { type: 'color-shift', intensity: 0.5, params },
+      ],
+      performance: { gpuAcceleration: true, targetFps: 60, quality },
+    }));
+    return { element, engine };
+  }
+
+  it('should use red and blue text shadows on low quality', () => {
+    const { element, engine } = start('low', { shift: 0.01 });
+    tick(100);
+    expect(element.style.textShadow).toBe('0 0 2px #00FF41, -4px 0px 0 rgba(255, 0, 0, 0.5), 4px 0px 0 rgba(0, 0, 255, 0.5)');
+    expect(page).toEqual([]);
+    engine.destroy();
+    expect(element.style.textShadow).toBe('');
+  });
+
+  it('should split and offset the channels with an SVG filter otherwise', () => {
+    const { element, engine } = start('high', { offsetX: 3, offsetY: -1 });
+    expect(page).toHaveLength(1);
+    const filter = page[0].children[0] as SvgNode;
+    const id = filter.attributes.id;
+    expect(id).toMatch(/^retro-color-shift-\d+$/);
+
+    const primitives = filter.children as SvgNode[];
+    expect(primitives.map(p => p.name)).toEqual(['feColorMatrix', 'feColorMatrix', 'feColorMatrix', 'feOffset', 'feOffset', 'feBlend', 'feBlend']);
+    expect(primitives[3].attributes).toMatchObject({ in: 'red', dx: '-3', dy: '1' });
+    expect(primitives[4].attributes).toMatchObject({ in: 'blue', dx: '3', dy: '-1' });
+
+    tick(100);
+    expect(element.style.filter).toBe(`url('#${id}')`);
+    expect(element.style.textShadow).toBe('0 0 2px #00FF41');
+    engine.destroy();
+    expect(page).toEqual([]);
+  });
+
+  it('should wobble the offset over time', () => {
+    const { engine } = start('medium', { offsetX: 4, wobble: 0.5 });
+    const offset = (page[0].children[0] as SvgNode).children[3] as SvgNode;
+    const dx: string[] = [];
+    for (const time of [100, 400, 700]) {
+      tick(time);
+      dx.push(offset.attributes.dx);
+    }
+    expect(new Set(dx).size).toBe(3);
+    expect(dx.every(value => Math.abs(Number(value)) <= 6)).toBe(true);
+    engine.destroy();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for self-contained HTML previews
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PRESET_SKINS } from '../src/engine/skins';
+import { renderHtmlPreview } from '../src/engine/html';
+
+const engineScript = 'var RetroSkins = { createRenderEngine: function () {} };';
+
+describe('HTML preview', () => {
+  it('should inline the engine, the skin and its sample screen', () => {
+    const skin = PRESET_SKINS.phosphor();
+    const html = renderHtmlPreview([skin], { engineScript });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain(`<title>${skin.name}</title>`);
+    expect(html).toContain(engineScript);
+    expect(html).toContain('<main class="single">');
+    expect(html).toContain('user@retro');
+    expect(html).toContain(`background: ${skin.colors.palette!.red}`);
+
+    const data = /<script id="retro-skins-data" type="application\/json">(.*?)<\/script>/s.exec(html)![1];
+    expect(JSON.parse(data)[0].name).toBe(skin.name);
+  });
+
+  it('should add one toggle per effect type', () => {
+    const skins = [PRESET_SKINS.phosphor(), PRESET_SKINS.amber()];
+    const html = renderHtmlPreview(skins, { engineScript });
+    const types = new Set(skins.flatMap(skin => skin.effects.map(effect => effect.type)));
+
+    expect(html).toContain('<main class="gallery">');
+    expect(html).toContain('<title>Retro Skins Gallery</title>');
+    expect(html.match(/type="checkbox"/g)).toHaveLength(types.size);
+    for (const type of types) expect(html).toContain(`value="${type}" checked`);
+  });
+
+  it('should keep skin text and inlined scripts from breaking the page', () => {
+    const skin = { ...PRESET_SKINS.phosphor(), name: '</script><b>Bold</b>' };
+    const html = renderHtmlPreview([skin], { engineScript: 'var s = "</script>";', title: 'A & B' });
+
+    expect(html).toContain('<title>A &amp; B</title>');
+    expect(html).toContain('&lt;/script&gt;&lt;b&gt;Bold&lt;/b&gt;');
+    expect(html).toContain('var s = "<\\/script>";');
+    expect(html).toContain('"name":"\\u003c/script>\\u003cb>Bold\\u003c/b>"');
+    expect(html.match(/<\/script>/g)).toHaveLength(3);
+  });
+});
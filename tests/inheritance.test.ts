@@ -0,0 +1,127 @@
+/**
+ * Tests for skin inheritance
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PRESET_SKINS } from '../src/engine/skins';
+import { mergeEffects, mergeSkins } from '../src/engine/inheritance';
+import { loadSkinFile, resolveSkin, SkinLoadError } from '../src/engine/loader';
+
+describe('mergeSkins', () => {
+  it('should deep-merge colors, palette and performance', () => {
+    const base = PRESET_SKINS.phosphor();
+    const merged = mergeSkins(base, {
+      colors: { foreground: '#00CC33', palette: { green: '#00CC33' } },
+      performance: { targetFps: 30 },
+    });
+
+    expect(merged.name).toBe(base.name);
+    expect(merged.colors.foreground).toBe('#00CC33');
+    expect(merged.colors.background).toBe(base.colors.background);
+    expect(merged.colors.palette!.green).toBe('#00CC33');
+    expect(merged.colors.palette!.red).toBe(base.colors.palette!.red);
+    expect(merged.performance).toEqual({ ...base.performance, targetFps: 30 });
+  });
+
+  it('should replace arrays instead of merging them', () => {
+    const merged = mergeSkins(PRESET_SKINS.phosphor(), { metadata: { tags: ['dim'] } });
+    expect(merged.metadata!.tags).toEqual(['dim']);
+    expect(merged.metadata!.era).toBe('1970s');
+  });
+
+  it('should not modify the base skin', () => {
+    const base = PRESET_SKINS.phosphor();
+    const snapshot = JSON.parse(JSON.stringify(base));
+    mergeSkins(base, { colors: { palette: { red: '#000000' } }, effects: [{ type: 'vignette', enabled: false }] });
+    expect(base).toEqual(snapshot);
+  });
+});
+
+describe('mergeEffects', () => {
+  const base = PRESET_SKINS.phosphor().effects;
+
+  it('should merge an effect by type, keeping its other params', () => {
+    const merged = mergeEffects(base, [{ type: 'phosphor-glow', params: { radius: 1 } }]);
+    const glow = merged.find(e => e.type === 'phosphor-glow')!;
+    expect(glow.params).toEqual({ radius: 1, falloff: 0.5 });
+    expect(glow.intensity).toBe(0.6);
+    expect(merged.map(e => e.type)).toEqual(base.map(e => e.type));
+  });
+
+  it('should remove effects with enabled: false', () => {
+    const merged = mergeEffects(base, [{ type: 'vignette', enabled: false }, { type: 'noise', enabled: false }]);
+    expect(merged.map(e => e.type)).toEqual(base.map(e => e.type).filter(t => t !== 'vignette'));
+  });
+
+  it('should append effects the base does not have', () => {
+    const merged = mergeEffects(base, [{ type: 'noise', intensity: 0.1 }]);
+    expect(merged[merged.length - 1]).toEqual({ type: 'noise', intensity: 0.1, params: {} });
+  });
+
+  it('should switch an inherited effect back on with enabled: true', () => {
+    const off = mergeEffects([{ type: 'noise', intensity: 0.2, params: {}, enabled: false }], [{ type: 'noise', enabled: true }]);
+    expect(off).toEqual([{ type: 'noise', intensity: 0.2, params: {} }]);
+    expect(off[0]).not.toHaveProperty('enabled');
+  });
+});
+
+describe('extends in skin files', () => {
+  let dir: string;
+  const write = (name: string, data: unknown) => fs.writeFileSync(path.join(dir, name), JSON.stringify(data));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'retro-skins-extends-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should resolve a chain of files relative to each file', () => {
+    fs.mkdirSync(path.join(dir, 'base'));
+    write('base/dim.json', { extends: 'phosphor', colors: { foreground: '#00CC33' } });
+    write('dimmer.json', { extends: './base/dim.json', name: 'Dimmer', performance: { targetFps: 30 } });
+
+    const skin = loadSkinFile(path.join(dir, 'dimmer.json'));
+    expect(skin.name).toBe('Dimmer');
+    expect(skin.colors.foreground).toBe('#00CC33');
+    expect(skin.colors.glow).toBe(PRESET_SKINS.phosphor().colors.glow);
+    expect(skin.performance.targetFps).toBe(30);
+    expect(skin).not.toHaveProperty('extends');
+  });
+
+  it('should resolve user skins by name', () => {
+    write('house.json', { name: 'House', colors: { background: '#101010', foreground: '#F0F0F0', accent: '#FF8800', glow: '#FFAA00' } });
+    write('house-dim.json', { extends: 'house', name: 'House Dim', colors: { foreground: '#C0C0C0' } });
+
+    const skin = resolveSkin('house-dim', { skinsDir: dir });
+    expect(skin.colors.accent).toBe('#FF8800');
+    expect(skin.colors.foreground).toBe('#C0C0C0');
+  });
+
+  it('should reject circular and unknown references', () => {
+    write('a.json', { extends: './b.json' });
+    write('b.json', { extends: './a.json' });
+    write('c.json', { extends: 'no-such-skin' });
+
+    expect(() => loadSkinFile(path.join(dir, 'a.json'))).toThrow(/Circular extends: a\.json → b\.json → a\.json/);
+    expect(() => loadSkinFile(path.join(dir, 'c.json'))).toThrow(SkinLoadError);
+  });
+
+  it('should switch effects a base file turned off back on', () => {
+    write('quiet.json', { name: 'Quiet', effects: [{ type: 'noise', intensity: 0.3, params: {}, enabled: false }] });
+    write('loud.json', { extends: './quiet.json', effects: [{ type: 'noise', enabled: true }] });
+
+    const skin = loadSkinFile(path.join(dir, 'loud.json'));
+    expect(skin.effects).toEqual([{ type: 'noise', intensity: 0.3, params: {} }]);
+  });
+
+  it('should reject added effects without an intensity', () => {
+    write('grainy.json', { extends: 'phosphor', effects: [{ type: 'shake', params: { frequency: 2 } }] });
+    expect(() => loadSkinFile(path.join(dir, 'grainy.json'))).toThrow(SkinLoadError);
+    expect(() => loadSkinFile(path.join(dir, 'grainy.json'))).toThrow(/Effect "shake" is not in the base skin, so it needs an intensity/);
+  });
+});
@@ -5,9 +5,12 @@
 
 import { describe, it, beforeAll, afterAll, expect } from 'vitest';
 import { exec } from 'child_process';
+import { parse as parseToml } from 'smol-toml';
 import { promisify } from 'util';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import vm from 'vm';
 
 const execAsync = promisify(exec);
 const projectRoot = path.resolve(__dirname, '..');
@@ -26,6 +29,23 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
     });
   });
 
+  describe('List Filters', () => {
+    it('should filter by tag', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} list --tag monochrome`);
+      expect(stdout).toContain('phosphor');
+      expect(stdout).toContain('amber');
+      expect(stdout).not.toContain('puncore');
+    });
+
+    it('should search and print JSON', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} list --search cyberpunk --json`);
+      const skins = JSON.parse(stdout);
+      expect(skins.map((s: any) => s.key)).toEqual(['cyber']);
+      expect(skins[0]).toMatchObject({ source: 'preset', era: '1980s', appearance: 'dark' });
+      expect(skins[0].tags).toContain('neon');
+    });
+  });
+
   describe('Preview Command', () => {
     it('should preview a specific skin', async () => {
       const { stdout } = await execAsync(`node ${cliPath} preview phosphor`);
@@ -47,6 +67,24 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
       expect(stdout).toContain('Retro Skin');
     });
 
+    it('should draw a sample screen in the skin colors', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} preview phosphor`, { env: { ...process.env, NO_COLOR: '', FORCE_COLOR: '3' } });
+      expect(stdout).toContain('\x1b[48;2;13;2;8m');
+      expect(stdout).toContain('user@retro');
+      expect(stdout).toContain('+  puts("hello, world");');
+    });
+
+    it('should print the sample screen without escapes with --no-color', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} preview phosphor --no-color`, { env: { ...process.env, FORCE_COLOR: '3' } });
+      expect(stdout).not.toContain('\x1b[');
+      expect(stdout).toContain('diff --git');
+    });
+
+    it('should compare two skins side by side', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} preview phosphor --compare amber --no-color`);
+      expect(stdout).toMatch(/Phosphor CRT\s+Amber/);
+    });
+
     it('should show error for unknown skin', async () => {
       try {
         await execAsync(`node ${cliPath} preview unknown_skin`);
@@ -69,6 +107,13 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
     it('should generate Alacritty config', async () => {
       const { stdout } = await execAsync(`node ${cliPath} generate alacritty amber`);
       expect(stdout).toContain('Retro Skin');
+      expect(stdout).toContain('[colors.primary]');
+      expect(stdout).toContain('[colors.normal]');
+    });
+
+    it('should generate legacy Alacritty YAML with --legacy-yaml', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} generate alacritty amber --legacy-yaml`);
+      expect(stdout).toContain('Retro Skin');
       expect(stdout).toContain('colors:');
       expect(stdout).toContain('primary:');
     });
@@ -126,6 +171,104 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
     });
   });
 
+  describe('Install and Restore', () => {
+    let home: string;
+
+    beforeAll(() => {
+      home = fs.mkdtempSync(path.join(os.tmpdir(), 'retro-skins-home-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(home, { recursive: true, force: true });
+    });
+
+    const withHome = () => ({ env: { ...process.env, HOME: home, LOCALAPPDATA: path.join(home, 'AppData') } });
+
+    it('should install, back up and restore a Kitty config', async () => {
+      const configFile = path.join(home, '.config', 'kitty', 'retro_skin.conf');
+
+      const first = await execAsync(`node ${cliPath} apply kitty --skin phosphor --install`, withHome());
+      expect(first.stdout).toContain(configFile);
+      expect(fs.readFileSync(configFile, 'utf-8')).toContain('Retro Skin: Phosphor CRT');
+
+      const second = await execAsync(`node ${cliPath} apply kitty --skin amber --install`, withHome());
+      expect(second.stdout).toContain('Backup:');
+      expect(fs.readFileSync(configFile, 'utf-8')).toContain('Retro Skin: Amber Monochrome');
+
+      const restored = await execAsync(`node ${cliPath} restore kitty`, withHome());
+      expect(restored.stdout).toContain('Restored');
+      expect(fs.readFileSync(configFile, 'utf-8')).toContain('Retro Skin: Phosphor CRT');
+      expect(fs.readdirSync(path.dirname(configFile))).toEqual(['retro_skin.conf']);
+    });
+
+    it('should install Alacritty as an import, keeping the user\'s config', async () => {
+      const configDir = path.join(home, '.config', 'alacritty');
+      fs.mkdirSync(configDir, { recursive: true });
+      fs.writeFileSync(path.join(configDir, 'alacritty.toml'), '# my settings\n[font]\nsize = 12\n');
+
+      const { stdout } = await execAsync(`node ${cliPath} apply alacritty -s amber --install`, withHome());
+      expect(stdout).toContain(path.join(configDir, 'retro_skin.toml'));
+      expect(fs.readFileSync(path.join(configDir, 'retro_skin.toml'), 'utf-8')).toContain('[colors.primary]');
+
+      const config = fs.readFileSync(path.join(configDir, 'alacritty.toml'), 'utf-8');
+      expect(config).toContain('# my settings');
+      const parsed = parseToml(config) as any;
+      expect(parsed.font.size).toBe(12);
+      expect(parsed.general.import).toEqual(['~/.config/alacritty/retro_skin.toml']);
+
+      await execAsync(`node ${cliPath} apply alacritty -s phosphor --install`, withHome());
+      expect(fs.readFileSync(path.join(configDir, 'alacritty.toml'), 'utf-8')).toBe(config);
+
+      const skinOnly = await execAsync(`node ${cliPath} restore alacritty`, withHome());
+      expect(skinOnly.stdout.trim().split('\n')).toHaveLength(1);
+      expect(fs.readFileSync(path.join(configDir, 'retro_skin.toml'), 'utf-8')).toContain('Amber Monochrome');
+      await execAsync(`node ${cliPath} restore alacritty`, withHome());
+      expect(fs.readFileSync(path.join(configDir, 'alacritty.toml'), 'utf-8')).toBe('# my settings\n[font]\nsize = 12\n');
+    });
+
+    it('should expand %LOCALAPPDATA% for Windows Terminal', async () => {
+      await execAsync(`node ${cliPath} apply windows-terminal --skin lcd --install`, withHome());
+      const settings = path.join(home, 'AppData', 'Packages', 'Microsoft.WindowsTerminal_8wekyb9d8bbwe', 'LocalState', 'settings.json');
+      expect(fs.readFileSync(settings, 'utf-8')).toContain('LCDDisplay');
+      expect(JSON.parse(fs.readFileSync(settings, 'utf-8')).profiles.defaults['experimental.pixelShaderPath']).toMatch(/retro-skins\/LCDDisplay\.hlsl$/);
+      const shader = path.join(path.dirname(settings), 'retro-skins', 'LCDDisplay.hlsl');
+      expect(fs.readFileSync(shader, 'utf-8')).toContain('float4 main(');
+    });
+
+    it('should install Ghostty with its shader and variant themes', async () => {
+      const skinFile = path.join(home, 'paper.json');
+      fs.writeFileSync(skinFile, JSON.stringify({ extends: 'amber', name: 'Amber Duo', variants: { light: 'auto' } }));
+      await execAsync(`node ${cliPath} apply ghostty --skin-file ${skinFile} --install`, withHome());
+      const configDir = path.join(home, '.config', 'ghostty');
+      const config = fs.readFileSync(path.join(configDir, 'retro_skin.ghostty'), 'utf-8');
+      expect(config).toContain('theme = light:Retro Amber Duo Light,dark:Retro Amber Duo');
+      expect(config).toContain(`custom-shader = ${path.join(configDir, 'shaders', 'amber-duo.glsl')}`);
+      expect(fs.readFileSync(path.join(configDir, 'shaders', 'amber-duo.glsl'), 'utf-8')).toContain('void mainImage(');
+      expect(fs.readdirSync(path.join(configDir, 'themes')).sort()).toEqual(['Retro Amber Duo', 'Retro Amber Duo Light']);
+
+      const files = ['retro_skin.ghostty', 'shaders/amber-duo.glsl', 'themes/Retro Amber Duo', 'themes/Retro Amber Duo Light'];
+      const read = () => files.map(file => fs.readFileSync(path.join(configDir, file), 'utf-8'));
+      const installed = read();
+      fs.writeFileSync(skinFile, JSON.stringify({ extends: 'phosphor', name: 'Amber Duo', variants: { light: 'auto' } }));
+      await execAsync(`node ${cliPath} apply ghostty --skin-file ${skinFile} --install`, withHome());
+      expect(read()).not.toEqual(installed);
+
+      const { stdout } = await execAsync(`node ${cliPath} restore ghostty`, withHome());
+      expect(stdout.trim().split('\n')).toHaveLength(files.length);
+      expect(read()).toEqual(installed);
+    });
+
+    it('should fail to restore without a backup', async () => {
+      try {
+        await execAsync(`node ${cliPath} restore wezterm`, withHome());
+      } catch (e: any) {
+        expect(e.stderr).toContain('No backup found');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+  });
+
   describe('Terminal-Specific Tests', () => {
     it('should generate valid WezTerm Lua syntax', async () => {
       const { stdout } = await execAsync(`node ${cliPath} generate wezterm cyber`);
@@ -135,12 +278,67 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
     });
 
     it('should generate valid Alacritty YAML syntax', async () => {
-      const { stdout } = await execAsync(`node ${cliPath} generate alacritty terminal`);
+      const { stdout } = await execAsync(`node ${cliPath} generate alacritty terminal --legacy-yaml`);
       expect(stdout).toContain("colors:");
       expect(stdout).toContain("primary:");
       expect(stdout).toContain("background:");
     });
 
+    it('should generate valid Alacritty TOML syntax', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} generate alacritty terminal`);
+      const config = parseToml(stdout) as any;
+      expect(config.colors.primary.background).toBe('#0C0C14');
+      expect(config.colors.bright.white).toBe('#99FF99');
+      expect(config.cursor.style.shape).toBe('Block');
+      expect(config.general.live_config_reload).toBe(true);
+    });
+
+    it('should migrate an Alacritty YAML config to TOML with the skin merged in', async () => {
+      const yamlFile = path.join(os.tmpdir(), `alacritty-${process.pid}.yml`);
+      fs.writeFileSync(yamlFile, [
+        'import:',
+        '  - ~/.config/alacritty/keys.yml',
+        'live_config_reload: false',
+        'font:',
+        '  size: 13',
+        'colors:',
+        '  primary:',
+        "    background: '#FFFFFF'",
+        "    dim_foreground: '#888888'",
+        'key_bindings:',
+        '  - { key: N, mods: Control, action: SpawnNewInstance }',
+        '',
+      ].join('\n'));
+
+      try {
+        const { stdout } = await execAsync(`node ${cliPath} generate alacritty amber --migrate ${yamlFile}`);
+        const config = parseToml(stdout) as any;
+        expect(config.general.import).toEqual(['~/.config/alacritty/keys.toml']);
+        expect(config.general.live_config_reload).toBe(false);
+        expect(config.font.size).toBe(13);
+        expect(config.colors.primary.background).toBe('#1A0F00');
+        expect(config.colors.primary.dim_foreground).toBe('#888888');
+        expect(config.colors.normal.yellow).toBe('#FFCC00');
+        expect(config.keyboard.bindings[0].action).toBe('SpawnNewInstance');
+      } finally {
+        fs.unlinkSync(yamlFile);
+      }
+    });
+
+    it('should reject --legacy-yaml together with --merge', async () => {
+      const yamlFile = path.join(os.tmpdir(), `alacritty-legacy-${process.pid}.yml`);
+      fs.writeFileSync(yamlFile, 'font:\n  size: 13\n');
+      try {
+        await execAsync(`node ${cliPath} generate alacritty amber --merge ${yamlFile} --legacy-yaml`);
+      } catch (e: any) {
+        expect(e.stderr).toContain('--legacy-yaml cannot be combined with --merge');
+        return;
+      } finally {
+        fs.unlinkSync(yamlFile);
+      }
+      throw new Error('Expected command to fail');
+    });
+
     it('should generate valid Kitty config syntax', async () => {
       const { stdout } = await execAsync(`node ${cliPath} generate kitty cyber`);
       expect(stdout).toMatch(/foreground #/);
@@ -155,7 +353,7 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
 
       // Alacritty
       ({ stdout } = await execAsync(`node ${cliPath} generate alacritty phosphor`));
-      expect(stdout).toContain("normal:");
+      expect(stdout).toContain("[colors.normal]");
 
       // Kitty
       ({ stdout } = await execAsync(`node ${cliPath} generate kitty phosphor`));
@@ -179,6 +377,374 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
     }
   });
 
+  describe('Custom Skin Files', () => {
+    let configHome: string;
+    let skinsDir: string;
+
+    beforeAll(() => {
+      configHome = fs.mkdtempSync(path.join(os.tmpdir(), 'retro-skins-'));
+      skinsDir = path.join(configHome, 'retro-skins', 'skins');
+      fs.mkdirSync(skinsDir, { recursive: true });
+      fs.writeFileSync(path.join(skinsDir, 'house.yaml'), [
+        'name: House Skin',
+        'colors:',
+        "  background: '#101010'",
+        "  foreground: '#F0F0F0'",
+        "  accent: '#FF8800'",
+        "  glow: '#FFAA00'",
+        '',
+      ].join('\n'));
+      fs.writeFileSync(path.join(configHome, 'team.toml'), [
+        'name = "Team Skin"',
+        '[colors]',
+        'background = "#000022"',
+        'foreground = "#22FFFF"',
+        'accent = "#0088FF"',
+        'glow = "#22FFFF"',
+        '',
+      ].join('\n'));
+      fs.writeFileSync(path.join(configHome, 'solo.json'), JSON.stringify({ name: 'Solo Skin' }));
+    });
+
+    afterAll(() => {
+      fs.rmSync(configHome, { recursive: true, force: true });
+    });
+
+    const withConfigHome = () => ({ env: { ...process.env, XDG_CONFIG_HOME: configHome } });
+
+    it('should list user skins with their source', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} list`, withConfigHome());
+      expect(stdout).toContain('house');
+      expect(stdout).toContain('House Skin');
+      expect(stdout).toContain(path.join(skinsDir, 'house.yaml'));
+      expect(stdout).toContain('preset');
+    });
+
+    it('should generate from a user skin by name', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} generate kitty house`, withConfigHome());
+      expect(stdout).toContain('Retro Skin: House Skin');
+      expect(stdout).toContain('background #101010');
+    });
+
+    it('should generate from --skin-file', async () => {
+      const skinFile = path.join(configHome, 'team.toml');
+      const { stdout } = await execAsync(`node ${cliPath} generate wezterm --skin-file ${skinFile}`);
+      expect(stdout).toContain('Retro Skin: Team Skin');
+      expect(stdout).toContain('background = "#000022"');
+    });
+
+    it('should fill in defaults for partial skin files', async () => {
+      const skinFile = path.join(configHome, 'solo.json');
+      const { stdout } = await execAsync(`node ${cliPath} preview --skin-file ${skinFile}`);
+      expect(stdout).toContain('Solo Skin');
+      expect(stdout).toContain('#0D0208');
+    });
+
+    it('should show error for a missing skin file', async () => {
+      try {
+        await execAsync(`node ${cliPath} generate kitty --skin-file ${path.join(configHome, 'nope.json')}`);
+      } catch (e: any) {
+        expect(e.stderr).toContain('Cannot read skin file');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+  });
+
+  describe('Validate Command', () => {
+    let tmpDir: string;
+
+    beforeAll(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retro-skins-validate-'));
+      fs.writeFileSync(path.join(tmpDir, 'broken.json'), JSON.stringify({
+        name: 'Broken',
+        colors: { background: '#000000', foreground: 'green', accent: '#00AA00', glow: '#00FF00' },
+        effects: [
+          { type: 'crt-scanline', intensity: 0.4, params: {} },
+          { type: 'phosphor-glow', intensity: 1.5, params: { radius: 3, fallof: 0.5 } },
+        ],
+      }));
+      fs.writeFileSync(path.join(tmpDir, 'warn.json'), JSON.stringify({
+        name: 'Warn',
+        effects: [{ type: 'vignette', intensity: 0.5, params: { size: 0.8 } }],
+      }));
+    });
+
+    afterAll(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should accept all presets', async () => {
+      const skins = ['phosphor', 'amber', 'lcd', 'cyber', 'terminal', 'puncore'];
+      const { stdout } = await execAsync(`node ${cliPath} validate ${skins.join(' ')}`);
+      for (const skin of skins) {
+        expect(stdout).toContain(`✅ ${skin}: valid`);
+      }
+    });
+
+    it('should report diagnostics and exit 1 for invalid skins', async () => {
+      try {
+        await execAsync(`node ${cliPath} validate ${path.join(tmpDir, 'broken.json')}`);
+      } catch (e: any) {
+        expect(e.code).toBe(1);
+        expect(e.stdout).toContain('colors.foreground');
+        expect(e.stdout).toContain('Did you mean "crt-scanlines"?');
+        expect(e.stdout).toContain('effects[1].intensity');
+        expect(e.stdout).toContain('Did you mean "falloff"?');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+
+    it('should only fail on warnings with --strict', async () => {
+      const skinFile = path.join(tmpDir, 'warn.json');
+      const { stdout } = await execAsync(`node ${cliPath} validate ${skinFile}`);
+      expect(stdout).toContain('Unknown param "size" for vignette');
+
+      try {
+        await execAsync(`node ${cliPath} validate --strict ${skinFile}`);
+      } catch (e: any) {
+        expect(e.code).toBe(1);
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+
+    it('should print JSON diagnostics', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} validate --json phosphor`);
+      expect(JSON.parse(stdout)).toEqual([{ skin: 'phosphor', valid: true, diagnostics: [] }]);
+    });
+
+    it('should exit 2 for unknown skins', async () => {
+      try {
+        await execAsync(`node ${cliPath} validate unknown_skin`);
+      } catch (e: any) {
+        expect(e.code).toBe(2);
+        expect(e.stderr).toContain('Unknown skin');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+  });
+
+  describe('Audit Command', () => {
+    it('should fail on low-contrast skins', async () => {
+      try {
+        await execAsync(`node ${cliPath} audit puncore`);
+      } catch (e: any) {
+        expect(e.code).toBe(1);
+        expect(e.stdout).toContain('Contrast audit: Puncore Neon');
+        expect(e.stdout).toMatch(/❌ foreground\s+#858585\s+#575757\s+1\.96:1/);
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+
+    it('should write a fixed skin with --fix --out', async () => {
+      const outFile = path.join(os.tmpdir(), `audit-fixed-${process.pid}.json`);
+      try {
+        await execAsync(`node ${cliPath} audit puncore --fix --out ${outFile}`).catch(e => e);
+        const fixed = JSON.parse(fs.readFileSync(outFile, 'utf-8'));
+        expect(fixed.colors.foreground).not.toBe('#858585');
+
+        const { stdout } = await execAsync(`node ${cliPath} audit --skin-file ${outFile} --json`).catch(e => e);
+        const foreground = JSON.parse(stdout).checks.find((c: any) => c.name === 'foreground');
+        expect(foreground.severity).toBeUndefined();
+      } finally {
+        fs.rmSync(outFile, { force: true });
+      }
+    });
+  });
+
+  describe('Appearance Variants', () => {
+    it('should generate the light variant with --appearance', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} generate kitty phosphor --appearance light`);
+      expect(stdout).toContain('Retro Skin: Phosphor CRT Light');
+      expect(stdout).not.toContain('#0D0208');
+    });
+
+    it('should reject unknown appearances', async () => {
+      try {
+        await execAsync(`node ${cliPath} generate kitty phosphor --appearance dusk`);
+      } catch (e: any) {
+        expect(e.code).toBe(1);
+        expect(e.stderr).toContain('Unknown appearance: dusk');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+  });
+
+  describe('Resolve Command', () => {
+    it('should print the flattened skin', async () => {
+      const skinFile = path.join(os.tmpdir(), `resolve-${process.pid}.yaml`);
+      fs.writeFileSync(skinFile, [
+        'extends: phosphor',
+        'name: Quiet Phosphor',
+        'effects:',
+        '  - type: crt-flicker',
+        '    intensity: 0.05',
+        '  - type: vignette',
+        '    enabled: false',
+      ].join('\n'));
+      try {
+        const { stdout } = await execAsync(`node ${cliPath} resolve --skin-file ${skinFile}`);
+        const skin = JSON.parse(stdout);
+        expect(skin.name).toBe('Quiet Phosphor');
+        expect(skin.colors.foreground).toBe('#00FF41');
+        expect(skin.effects.find((e: any) => e.type === 'crt-flicker')).toEqual({ type: 'crt-flicker', intensity: 0.05, params: { frequency: 0.1 } });
+        expect(skin.effects.some((e: any) => e.type === 'vignette')).toBe(false);
+      } finally {
+        fs.rmSync(skinFile, { force: true });
+      }
+    });
+  });
+
+  describe('Color Vision Simulation', () => {
+    it('should show simulated colors and collapsed slots', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} preview puncore --simulate tritanopia`);
+      expect(stdout).toContain('as seen with tritanopia');
+      expect(stdout).toContain('#FF5700 → #FF1A4B');
+      expect(stdout).toContain('red and yellow look alike with tritanopia');
+    });
+
+    it('should generate configs with simulated colors', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} preview puncore --simulate achromatopsia --terminal kitty`);
+      const config = stdout.split('KITTY Preview:')[1];
+      expect(config).toContain('foreground');
+      expect(config).not.toContain('#FF5700');
+    });
+
+    it('should reject unknown deficiencies', async () => {
+      try {
+        await execAsync(`node ${cliPath} preview puncore --simulate colorblind`);
+      } catch (e: any) {
+        expect(e.code).toBe(1);
+        expect(e.stderr).toContain('Unknown color-vision deficiency');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+  });
+
+  describe('HTML Preview', () => {
+    let tmpDir: string;
+
+    beforeAll(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retro-skins-html-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should write a self-contained page for one skin', async () => {
+      const outFile = path.join(tmpDir, 'phosphor.html');
+      const { stdout } = await execAsync(`node ${cliPath} preview phosphor --html ${outFile}`);
+      expect(stdout).toContain('HTML preview of Phosphor CRT written to');
+
+      const html = fs.readFileSync(outFile, 'utf-8');
+      expect(html).toContain('<main class="single">');
+      expect(html).toContain('createRenderEngine');
+      expect(html).not.toMatch(/<(script|link)[^>]+(src|href)=/);
+    });
+
+    it('should write a gallery of every skin', async () => {
+      const outFile = path.join(tmpDir, 'gallery.html');
+      await execAsync(`node ${cliPath} preview --html ${outFile}`);
+      const html = fs.readFileSync(outFile, 'utf-8');
+      expect(html).toContain('<main class="gallery">');
+      expect(html).toContain('Phosphor CRT');
+      expect(html).toContain('Amber Monochrome');
+      expect(html).toContain('value="crt-scanlines"');
+    });
+
+    it('should bundle an engine that runs without a module loader', () => {
+      const bundle = fs.readFileSync(path.join(projectRoot, 'dist', 'engine', 'engine.browser.js'), 'utf-8');
+      const context: Record<string, any> = {};
+      vm.runInNewContext(bundle, context);
+      expect(typeof context.RetroSkins.createRenderEngine).toBe('function');
+      expect(context.RetroSkins.PRESET_SKINS.phosphor().name).toBe('Phosphor CRT');
+    });
+  });
+
+  describe('Snapshot Command', () => {
+    let tmpDir: string;
+
+    beforeAll(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retro-skins-snapshot-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should write the same PNG for the same seed', async () => {
+      const first = path.join(tmpDir, 'first.png');
+      const second = path.join(tmpDir, 'second.png');
+      const { stdout } = await execAsync(`node ${cliPath} snapshot cyber -o ${first} --seed 5`);
+      await execAsync(`node ${cliPath} snapshot cyber -o ${second} --seed 5`);
+      expect(stdout).toContain('Snapshot of Cyber Purple written to');
+
+      const png = fs.readFileSync(first);
+      expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+      expect(png.equals(fs.readFileSync(second))).toBe(true);
+    });
+
+    it('should write animated GIFs and APNGs', async () => {
+      const gif = path.join(tmpDir, 'cyber.gif');
+      const apng = path.join(tmpDir, 'cyber.apng');
+      const { stdout } = await execAsync(`node ${cliPath} snapshot cyber -o ${gif} --animate --duration 200ms --fps 10 --scale 1`);
+      await execAsync(`node ${cliPath} snapshot cyber -o ${apng} --animate --duration 0.2s --fps 10 --scale 1`);
+      expect(stdout).toContain('0.2s animation of Cyber Purple (10 fps) written to');
+      expect(fs.readFileSync(gif).toString('ascii', 0, 6)).toBe('GIF89a');
+      expect(fs.readFileSync(apng).includes(Buffer.from('acTL'))).toBe(true);
+    });
+
+    it('should reject invalid durations', async () => {
+      try {
+        await execAsync(`node ${cliPath} snapshot cyber -o ${path.join(tmpDir, 'x.gif')} --animate --duration soon`);
+      } catch (e: any) {
+        expect(e.code).toBe(1);
+        expect(e.stderr).toContain('Invalid duration: soon');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+
+    it('should reject invalid seeds', async () => {
+      try {
+        await execAsync(`node ${cliPath} snapshot phosphor -o ${path.join(tmpDir, 'x.png')} --seed abc`);
+      } catch (e: any) {
+        expect(e.code).toBe(1);
+        expect(e.stderr).toContain('--seed must be a non-negative integer');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+  });
+
+  describe('Ghostty Tests', () => {
+    it('should generate Ghostty config without dangling shader paths', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} generate ghostty phosphor`);
+      expect(stdout).toContain('background = #0D0208');
+      expect(stdout).toContain('palette = 15=');
+      expect(stdout).not.toContain('custom-shader');
+    });
+
+    it('should write the GLSL shader with --shader', async () => {
+      const shaderFile = path.join(os.tmpdir(), `retro-${process.pid}.glsl`);
+      try {
+        const { stdout } = await execAsync(`node ${cliPath} generate ghostty lcd --shader ${shaderFile}`);
+        expect(stdout).toContain(`custom-shader = ${shaderFile}`);
+        expect(stdout).toContain('custom-shader-animation = false');
+        expect(fs.readFileSync(shaderFile, 'utf-8')).toContain('COLOR_SHIFT');
+      } finally {
+        fs.rmSync(shaderFile, { force: true });
+      }
+    });
+  });
+
   describe('Windows Terminal Tests', () => {
     it('should generate Windows Terminal JSON config', async () => {
       const { stdout } = await execAsync(`node ${cliPath} generate windows-terminal phosphor`);
@@ -188,6 +754,85 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
       expect(stdout).toContain('"foreground"');
     });
 
+    it('should merge into an existing settings.json preserving comments', async () => {
+      const settingsFile = path.join(os.tmpdir(), `wt-settings-${process.pid}.json`);
+      fs.writeFileSync(settingsFile, [
+        '// User settings',
+        '{',
+        '    "defaultProfile": "{61c54bbd-c2c6-5271-96e7-009a87ff44bf}",',
+        '    "profiles": {',
+        '        "defaults": {},',
+        '        "list": [',
+        '            // PowerShell',
+        '            { "guid": "{61c54bbd-c2c6-5271-96e7-009a87ff44bf}", "name": "Windows PowerShell" },',
+        '            { "guid": "{0caa0dad-35be-5f56-a8ff-afceeeaa6101}", "name": "Command Prompt" }',
+        '        ]',
+        '    },',
+        '    "schemes": [',
+        '        { "name": "Campbell", "background": "#0C0C0C" },',
+        '        { "name": "PhosphorCRT", "background": "#FFFFFF" }',
+        '    ],',
+        '    "copyOnSelect": false',
+        '}',
+        '',
+      ].join('\n'));
+
+      try {
+        const { stdout } = await execAsync(
+          `node ${cliPath} generate windows-terminal phosphor --merge ${settingsFile} --no-default --profile "Command Prompt" 61C54BBD-C2C6-5271-96E7-009A87FF44BF`
+        );
+        expect(stdout).toContain('// User settings');
+        expect(stdout).toContain('// PowerShell');
+        expect(stdout).toContain('"copyOnSelect": false');
+        expect(stdout.indexOf('"defaultProfile"')).toBeLessThan(stdout.indexOf('"schemes"'));
+
+        const settings = JSON.parse(stdout.replace(/^\s*\/\/.*$/gm, ''));
+        expect(settings.schemes.map((s: any) => s.name)).toEqual(['Campbell', 'PhosphorCRT']);
+        expect(settings.schemes[1].background).toBe('#0D0208');
+        expect(settings.schemes[1].brightPurple).toBe('#FF66FF');
+        expect(settings.profiles.defaults).toEqual({});
+        expect(settings.profiles.list.map((p: any) => p.colorScheme)).toEqual(['PhosphorCRT', 'PhosphorCRT']);
+      } finally {
+        fs.unlinkSync(settingsFile);
+      }
+    });
+
+    it('should show error for an unknown Windows Terminal profile', async () => {
+      const settingsFile = path.join(os.tmpdir(), `wt-settings-missing-${process.pid}.json`);
+      fs.writeFileSync(settingsFile, '{ "profiles": { "list": [] } }');
+      try {
+        await execAsync(`node ${cliPath} generate windows-terminal amber --merge ${settingsFile} --profile Nope`);
+      } catch (e: any) {
+        expect(e.stderr).toContain('Profile not found');
+        return;
+      } finally {
+        fs.unlinkSync(settingsFile);
+      }
+      throw new Error('Expected command to fail');
+    });
+
+    it('should write the pixel shader with --shader', async () => {
+      const shaderFile = path.join(os.tmpdir(), `retro-${process.pid}.hlsl`);
+      try {
+        const { stdout } = await execAsync(`node ${cliPath} generate windows-terminal cyber --shader ${shaderFile}`);
+        const settings = JSON.parse(stdout.replace(/^\s*\/\/.*$/gm, ''));
+        expect(settings.profiles.defaults['experimental.pixelShaderPath']).toBe(shaderFile);
+        expect(fs.readFileSync(shaderFile, 'utf-8')).toContain('NOISE_AMOUNT');
+      } finally {
+        fs.rmSync(shaderFile, { force: true });
+      }
+    });
+
+    it('should reject --shader for terminals without shaders', async () => {
+      try {
+        await execAsync(`node ${cliPath} generate kitty cyber --shader /tmp/never.hlsl`);
+      } catch (e: any) {
+        expect(e.stderr).toContain('does not support shaders');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+
     it('should generate all skins for Windows Terminal', async () => {
       const skins = ['phosphor', 'amber', 'lcd', 'cyber', 'terminal', 'puncore'];
       for (const skin of skins) {
@@ -197,4 +842,74 @@ describe('Retro Skins Platform CLI Integration Tests', () => {
       }
     });
   });
+
+  describe('Adapter Plugins', () => {
+    const pluginFile = path.join(os.tmpdir(), `retro-skins-plugin-${process.pid}.mjs`);
+
+    beforeAll(() => {
+      fs.writeFileSync(pluginFile, `
+        export function register({ registerAdapter, registerEffect }) {
+          registerEffect({ type: 'hue-drift', params: { speed: { min: 0, max: 90 } } });
+          registerAdapter({
+            id: 'foot',
+            displayName: 'Foot',
+            fileExtension: '.ini',
+            capabilities: { paletteSize: 16, shaders: false, liveReload: false, mergesExistingConfig: false },
+            getConfigPath: () => '~/.config/foot/retro_skin.ini',
+            generate: skin => '[colors]\\nbackground=' + skin.colors.background.slice(1) + '\\n',
+            install: () => { throw new Error('not supported'); },
+            restore: () => [],
+            comment: text => '# ' + text,
+            describeInstall: () => 'include it from foot.ini',
+          });
+        }
+      `);
+    });
+
+    afterAll(() => {
+      fs.unlinkSync(pluginFile);
+    });
+
+    it('should generate configs for a terminal registered by a plugin', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} --plugin ${pluginFile} generate foot phosphor`);
+      expect(stdout).toContain('background=0D0208');
+    });
+
+    it('should load plugins from RETRO_SKINS_PLUGINS', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} apply foot --skin amber`, {
+        env: { ...process.env, RETRO_SKINS_PLUGINS: pluginFile },
+      });
+      expect(stdout).toContain('# Foot config - include it from foot.ini');
+      expect(stdout).toContain('background=1A0F00');
+    });
+
+    it('should list plugin terminals in help', async () => {
+      const { stdout } = await execAsync(`node ${cliPath} --plugin ${pluginFile} preview --help`);
+      expect(stdout).toContain('windows-terminal, ghostty, foot');
+    });
+
+    it('should validate skins using effects registered by a plugin', async () => {
+      const skinFile = path.join(os.tmpdir(), `retro-skins-drift-${process.pid}.json`);
+      fs.writeFileSync(skinFile, JSON.stringify({
+        name: 'Drift',
+        effects: [{ type: 'hue-drift', intensity: 0.5, params: { speed: 120 } }],
+      }));
+      try {
+        const { stdout } = await execAsync(`node ${cliPath} --plugin ${pluginFile} validate ${skinFile}`);
+        expect(stdout).toContain('Param "speed" 120 is outside 0-90 and is clamped');
+      } finally {
+        fs.unlinkSync(skinFile);
+      }
+    });
+
+    it('should reject --merge for terminals that cannot merge', async () => {
+      try {
+        await execAsync(`node ${cliPath} generate kitty phosphor --merge ${pluginFile}`);
+      } catch (e: any) {
+        expect(e.stderr).toContain('cannot be merged');
+        return;
+      }
+      throw new Error('Expected command to fail');
+    });
+  });
 });
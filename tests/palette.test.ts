@@ -0,0 +1,156 @@
+/**
+ * Tests for OKLCH color math and palette generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSkin, PRESET_SKINS } from '../src/engine/skins';
+import { hexToOklch, oklchToHex, inSrgbGamut } from '../src/engine/color';
+import { generateExtendedPalette, generatePalette, paletteToAnsi, resolveDimPalette, resolveExtendedPalette, resolvePalette, PALETTE_STRATEGIES } from '../src/engine/palette';
+import { toKittyColors } from '../src/engine/adapters/kitty/index';
+import { toWezTermColors } from '../src/engine/adapters/wezterm/index';
+import { toAlacrittyColors } from '../src/engine/adapters/alacritty/index';
+import { toWindowsTerminalColors } from '../src/engine/adapters/windows-terminal/index';
+import { validateSkin } from '../src/engine/validation';
+
+const baseColors = {
+  background: '#0D0208',
+  foreground: '#00FF41',
+  accent: '#008F11',
+  glow: '#00FF41',
+};
+
+describe('Color math', () => {
+  it('should round-trip hex through OKLCH', () => {
+    for (const hex of ['#000000', '#FFFFFF', '#FF0000', '#00FF41', '#7C4DFF', '#1A0F00']) {
+      expect(oklchToHex(hexToOklch(hex)!)).toBe(hex);
+    }
+  });
+
+  it('should map out-of-gamut colors into sRGB keeping lightness', () => {
+    const hex = oklchToHex({ l: 0.7, c: 0.4, h: 142 });
+    const mapped = hexToOklch(hex)!;
+    expect(inSrgbGamut(mapped)).toBe(true);
+    expect(mapped.l).toBeCloseTo(0.7, 2);
+  });
+});
+
+describe('Palette generation', () => {
+  it('should give every adapter the same generated palette', () => {
+    const skin = createSkin({ name: 'No Palette', colors: baseColors });
+    const ansi = paletteToAnsi(resolvePalette(skin.colors));
+    const wez = toWezTermColors(skin).colors;
+    const alacritty = toAlacrittyColors(skin);
+    const wt = toWindowsTerminalColors(skin);
+
+    expect(toKittyColors(skin).ansi).toEqual(ansi);
+    expect([...wez.ansi, ...wez.brights]).toEqual(ansi);
+    expect([...Object.values(alacritty.normal!), ...Object.values(alacritty.bright!)]).toEqual(ansi);
+    expect(wt.brightBlack).toBe(ansi[8]);
+    expect(wt.magenta).toBe(ansi[5]);
+  });
+
+  it('should keep a palette the skin defines', () => {
+    const palette = generatePalette(baseColors, { strategy: 'complementary' });
+    expect(resolvePalette({ ...baseColors, palette })).toBe(palette);
+  });
+
+  it('should produce distinct, valid palettes for each strategy', () => {
+    const palettes = PALETTE_STRATEGIES.map(strategy => generatePalette(baseColors, { strategy }));
+    for (const palette of palettes) {
+      expect(validateSkin(createSkin({ colors: { ...baseColors, palette } })).valid).toBe(true);
+      expect(new Set(Object.values(palette)).size).toBe(16);
+    }
+    expect(palettes[1].red).not.toBe(palettes[0].red);
+    expect(palettes[2].blue).not.toBe(palettes[0].blue);
+  });
+
+  it('should honour the skin\'s paletteStrategy', () => {
+    expect(generatePalette({ ...baseColors, paletteStrategy: 'analogous' }))
+      .toEqual(generatePalette(baseColors, { strategy: 'analogous' }));
+  });
+
+  it('should give the slot nearest the accent the accent hue', () => {
+    const palette = generatePalette(baseColors);
+    expect(hexToOklch(palette.green)!.h).toBeCloseTo(hexToOklch(baseColors.accent)!.h, 0);
+  });
+
+  it('should keep slots at an even lightness, brighter for bright variants on dark skins', () => {
+    const palette = generatePalette(baseColors);
+    const ansi = paletteToAnsi(palette).map(hex => hexToOklch(hex)!.l);
+    for (let i = 1; i < 7; i++) {
+      expect(ansi[i]).toBeGreaterThan(0.6);
+      expect(ansi[i + 8]).toBeGreaterThan(ansi[i]);
+    }
+  });
+
+  it('should darken colors for light backgrounds', () => {
+    const palette = generatePalette({ background: '#F5F1E6', foreground: '#222222', accent: '#0055AA', glow: '#0055AA' });
+    expect(hexToOklch(palette.red)!.l).toBeLessThan(0.6);
+    expect(hexToOklch(palette.black)!.l).toBeLessThan(0.3);
+  });
+
+  it('should fall back to defaults for invalid base colors', () => {
+    const palette = generatePalette({ background: 'oops', foreground: '', accent: '#GGG', glow: 'red' });
+    expect(Object.values(palette).every(c => /^#[0-9A-F]{6}$/.test(c))).toBe(true);
+  });
+});
+
+describe('Extended palette', () => {
+  it('should generate the xterm cube and grayscale ramp untinted at tint 0', () => {
+    const colors = generateExtendedPalette(baseColors, { tint: 0 });
+    expect(Object.keys(colors)).toHaveLength(240);
+    expect(colors[16]).toBe('#000000');
+    expect(colors[196]).toBe('#FF0000');
+    expect(colors[231]).toBe('#FFFFFF');
+    expect(colors[232]).toBe('#080808');
+    expect(colors[255]).toBe('#EEEEEE');
+  });
+
+  it('should pull hues towards the glow as tint grows', () => {
+    const glowHue = hexToOklch(baseColors.glow)!.h;
+    const distanceToGlow = (tint: number) => {
+      const hue = hexToOklch(generateExtendedPalette(baseColors, { tint })[21])!.h;
+      return Math.abs(((hue - glowHue + 540) % 360) - 180);
+    };
+    expect(distanceToGlow(0.5)).toBeLessThan(distanceToGlow(0));
+    expect(distanceToGlow(1)).toBeLessThan(1);
+  });
+
+  it('should tint the grayscale ramp', () => {
+    expect(hexToOklch(generateExtendedPalette(baseColors, { tint: 1 })[244])!.c).toBeGreaterThan(0.01);
+  });
+
+  it('should only theme colors 16-255 when the skin asks for it', () => {
+    expect(resolveExtendedPalette(baseColors)).toBeNull();
+    for (const preset of Object.values(PRESET_SKINS)) {
+      expect(resolveExtendedPalette(preset().colors)).toBeNull();
+    }
+    expect(resolveExtendedPalette({ ...baseColors, extended: { colors: { 16: '#111111', 300: '#222222' } } })).toEqual({ 16: '#111111' });
+
+    const overridden = resolveExtendedPalette({ ...baseColors, extended: { generate: true, colors: { 231: '#ABCDEF' } } })!;
+    expect(overridden[231]).toBe('#ABCDEF');
+    expect(Object.keys(overridden)).toHaveLength(240);
+  });
+
+  it('should return dim colors in ANSI order', () => {
+    expect(resolveDimPalette(baseColors)).toBeNull();
+    const dim = { black: '#000000', red: '#100000', green: '#001000', yellow: '#101000', blue: '#000010', purple: '#100010', cyan: '#001010', white: '#101010' };
+    expect(resolveDimPalette({ ...baseColors, dim })).toEqual(Object.values(dim));
+  });
+
+  it('should validate dim and extended sections', () => {
+    expect(validateSkin(PRESET_SKINS.phosphor()).diagnostics).toEqual([]);
+    const result = validateSkin(createSkin({
+      colors: { ...baseColors, dim: { black: '#000' } as any, extended: { generate: 'yes', tint: 2, colors: { 12: '#000000', 20: 'red' } } as any },
+    }));
+    const paths = result.diagnostics.map(d => d.path);
+    expect(result.valid).toBe(false);
+    expect(paths).toEqual(expect.arrayContaining([
+      'colors.dim.red',
+      'colors.extended.generate',
+      'colors.extended.tint',
+      'colors.extended.colors.12',
+      'colors.extended.colors.20',
+    ]));
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for terminal skin previews
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PRESET_SKINS } from '../src/engine/skins';
+import { ansiColor, detectColorDepth, quantizeColor, renderSkinPreview, sideBySide } from '../src/engine/preview';
+
+const strip = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, '');
+
+describe('Color depth detection', () => {
+  it('should use COLORTERM and TERM on a terminal', () => {
+    expect(detectColorDepth({ COLORTERM: 'truecolor' }, true)).toBe('truecolor');
+    expect(detectColorDepth({ COLORTERM: '24bit', TERM: 'xterm' }, true)).toBe('truecolor');
+    expect(detectColorDepth({ TERM: 'xterm-256color' }, true)).toBe('256');
+    expect(detectColorDepth({ TERM: 'xterm' }, true)).toBe('16');
+    expect(detectColorDepth({ TERM: 'dumb' }, true)).toBe('none');
+  });
+
+  it('should not color output that is not a terminal', () => {
+    expect(detectColorDepth({ COLORTERM: 'truecolor' }, false)).toBe('none');
+  });
+
+  it('should let NO_COLOR and FORCE_COLOR override detection', () => {
+    expect(detectColorDepth({ NO_COLOR: '1', COLORTERM: 'truecolor' }, true)).toBe('none');
+    expect(detectColorDepth({ FORCE_COLOR: '0', COLORTERM: 'truecolor' }, true)).toBe('none');
+    expect(detectColorDepth({ FORCE_COLOR: '3' }, false)).toBe('truecolor');
+    expect(detectColorDepth({ FORCE_COLOR: '2' }, false)).toBe('256');
+    expect(detectColorDepth({ FORCE_COLOR: '1' }, false)).toBe('16');
+  });
+});
+
+describe('ANSI colors', () => {
+  it('should write 24-bit escapes in truecolor', () => {
+    expect(ansiColor('#0D0208', 'truecolor', 'bg')).toBe('\x1b[48;2;13;2;8m');
+    expect(ansiColor('#00FF41', 'truecolor')).toBe('\x1b[38;2;0;255;65m');
+  });
+
+  it('should pick the nearest cube or gray color in 256-color mode', () => {
+    expect(ansiColor('#FF0000', '256')).toBe('\x1b[38;5;196m');
+    expect(ansiColor('#808080', '256', 'bg')).toBe('\x1b[48;5;244m');
+    expect(quantizeColor('#FE0101', '256')).toBe('#FF0000');
+  });
+
+  it('should pick the nearest standard color in 16-color mode', () => {
+    expect(ansiColor('#00FF41', '16')).toBe('\x1b[92m');
+    expect(ansiColor('#0D0208', '16', 'bg')).toBe('\x1b[40m');
+    expect(ansiColor('#C00000', '16')).toBe('\x1b[31m');
+  });
+
+  it('should write nothing without color or for invalid colors', () => {
+    expect(ansiColor('#FF0000', 'none')).toBe('');
+    expect(ansiColor('red', 'truecolor')).toBe('');
+  });
+});
+
+describe('Skin preview', () => {
+  const skin = PRESET_SKINS.phosphor();
+
+  it('should draw every line at the same width on the skin background', () => {
+    const lines = renderSkinPreview(skin, { width: 50 });
+    for (const line of lines) {
+      expect(strip(line)).toHaveLength(50);
+      expect(line).toContain('\x1b[48;2;13;2;8m');
+    }
+  });
+
+  it('should show palette swatches, sample output, selection and cursor', () => {
+    const lines = renderSkinPreview(skin);
+    const text = lines.map(strip).join('\n');
+    expect(text).toContain(skin.name);
+    expect(text).toContain('user@retro:~/project$ ls');
+    expect(text).toContain('-  puts("hello");');
+    expect(text).toContain('Selected text');
+
+    const palette = skin.colors.palette!;
+    expect(lines.join('')).toContain(ansiColor(palette.red, 'truecolor', 'bg'));
+    expect(lines.join('')).toContain(ansiColor(palette.brightCyan, 'truecolor', 'bg'));
+    expect(lines.join('')).toContain(ansiColor(skin.colors.accent, 'truecolor', 'bg'));
+  });
+
+  it('should list palette colors as text without color', () => {
+    const lines = renderSkinPreview(skin, { depth: 'none' });
+    expect(lines.join('')).not.toContain('\x1b[');
+    expect(lines.join('\n')).toContain(skin.colors.palette!.brightGreen);
+  });
+
+  it('should only use 256-color escapes at that depth', () => {
+    const escapes = renderSkinPreview(skin, { depth: '256' }).join('').match(/\x1b\[[0-9;]*m/g)!;
+    expect(escapes.every(escape => !escape.includes(';2;'))).toBe(true);
+  });
+
+  it('should place two previews side by side', () => {
+    const left = renderSkinPreview(skin, { depth: 'none', width: 40 });
+    const right = renderSkinPreview(PRESET_SKINS.amber(), { depth: 'none', width: 40 });
+    const lines = sideBySide([left, right], 4);
+    expect(lines).toHaveLength(left.length);
+    expect(lines[0]).toBe(`${left[0]}    ${right[0]}`.trimEnd());
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Tests for the software rasterizer and PNG thumbnails
+ */
+
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'zlib';
+import { PRESET_SKINS } from '../src/engine/skins';
+import type { VisualEffect } from '../src/engine/skins';
+import {
+  animationFps,
+  CELL_HEIGHT,
+  CELL_WIDTH,
+  createRandom,
+  createRaster,
+  curvaturePass,
+  drawGlyph,
+  drawScreen,
+  encodeApng,
+  encodeGif,
+  encodePng,
+  fillRect,
+  flickerPass,
+  getPixel,
+  glowPass,
+  glyphColumns,
+  lzwEncode,
+  noisePass,
+  persistencePass,
+  renderSkinAnimation,
+  renderSkinThumbnail,
+  scanlinesPass,
+  shakePass,
+  skinFrames,
+  translateRaster,
+  vignettePass,
+} from '../src/engine/raster';
+
+const gray = { r: 0.5, g: 0.5, b: 0.5 };
+const effect = (type: VisualEffect['type'], intensity: number, params: VisualEffect['params'] = {}): VisualEffect =>
+  ({ type, intensity, params });
+
+/** Decode the 8-bit RGB PNGs encodePng writes */
+function decodePng(png: Buffer): { width: number; height: number; pixel: (x: number, y: number) => number[] } {
+  expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  const idat: Buffer[] = [];
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+    }
+    if (type === 'IDAT') idat.push(data);
+    offset += length + 12;
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * 3;
+  const rgb = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    expect(raw[y * (stride + 1)]).toBe(1);
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 3 ? rgb[y * stride + x - 3] : 0;
+      rgb[y * stride + x] = (raw[y * (stride + 1) + 1 + x] + left) & 0xFF;
+    }
+  }
+  return { width, height, pixel: (x, y) => [...rgb.subarray((y * width + x) * 3, (y * width + x) * 3 + 3)] };
+}
+
+/** Decode GIF LZW data as the spec describes, to check the encoder against */
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  const out: number[] = [];
+  let bit = 0;
+
+  const reset = () => {
+    table = Array.from({ length: end + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    if (code === clear) {
+      reset();
+      continue;
+    }
+    if (code === end) break;
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    out.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return out;
+}
+
+/** Split a PNG into its chunks */
+function pngChunks(png: Buffer): Array<{ type: string; data: Buffer }> {
+  const chunks = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    chunks.push({ type: png.toString('ascii', offset + 4, offset + 8), data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+describe('Raster primitives', () => {
+  it('should fill rectangles clipped to the image', () => {
+    const raster = createRaster(4, 4);
+    fillRect(raster, 2, 2, 10, 10, gray);
+    expect(getPixel(raster, 1, 1)).toEqual({ r: 0, g: 0, b: 0 });
+    expect(getPixel(raster, 3, 3)).toEqual(gray);
+  });
+
+  it('should draw glyphs from the font', () => {
+    expect(glyphColumns('A')).toEqual([0x7E, 0x11, 0x11, 0x11, 0x7E]);
+    expect(glyphColumns('é')).toEqual([0x7F, 0x41, 0x41, 0x41, 0x7F]);
+
+    const raster = createRaster(10, 14);
+    drawGlyph(raster, 0, 0, 'I', gray, 2);
+    expect(getPixel(raster, 4, 0)).toEqual(gray);
+    expect(getPixel(raster, 0, 0)).toEqual({ r: 0, g: 0, b: 0 });
+  });
+
+  it('should repeat random sequences for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const values = Array.from({ length: 5 }, () => a());
+    expect(values).toEqual(Array.from({ length: 5 }, () => b()));
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    expect(createRandom(8)()).not.toBe(values[0]);
+  });
+});
+
+describe('PNG encoding', () => {
+  it('should write a decodable RGB image', () => {
+    const raster = createRaster(3, 2, { r: 1, g: 0, b: 0 });
+    fillRect(raster, 1, 1, 1, 1, { r: 0, g: 0.5, b: 1.5 });
+    const image = decodePng(encodePng(raster));
+    expect(image.width).toBe(3);
+    expect(image.height).toBe(2);
+    expect(image.pixel(0, 0)).toEqual([255, 0, 0]);
+    expect(image.pixel(1, 1)).toEqual([0, 128, 255]);
+  });
+});
+
+describe('Effect passes', () => {
+  it('should darken alternate bands of scanlines', () => {
+    const out = scanlinesPass(createRaster(2, 8, gray), effect('crt-scanlines', 0.5, { lineSpacing: 2 }), { scale: 2 });
+    expect(getPixel(out, 0, 0).r).toBeCloseTo(0.5);
+    expect(getPixel(out, 0, 1).r).toBeCloseTo(0.5);
+    expect(getPixel(out, 0, 2).r).toBeCloseTo(0.35);
+    expect(getPixel(out, 0, 4).r).toBeCloseTo(0.5);
+  });
+
+  it('should spread glow from bright pixels onto the background', () => {
+    const raster = createRaster(21, 21);
+    fillRect(raster, 10, 10, 1, 1, { r: 1, g: 1, b: 1 });
+    const out = glowPass(raster, effect('phosphor-glow', 1, { radius: 2 }), { r: 0, g: 1, b: 0 }, { r: 0, g: 0, b: 0 });
+    expect(getPixel(out, 12, 10).g).toBeGreaterThan(0);
+    expect(getPixel(out, 12, 10).r).toBe(0);
+    expect(getPixel(out, 0, 0).g).toBe(0);
+  });
+
+  it('should darken corners more than the center with a vignette', () => {
+    const out = vignettePass(createRaster(40, 30, gray), effect('vignette', 0.5, { radius: 0.8 }));
+    expect(getPixel(out, 20, 15).r).toBeCloseTo(0.5);
+    expect(getPixel(out, 0, 0).r).toBeLessThan(0.5);
+  });
+
+  it('should bend the picture and black out the corners', () => {
+    const out = curvaturePass(createRaster(40, 30, gray), effect('crt-curvature', 1));
+    expect(getPixel(out, 0, 0)).toEqual({ r: 0, g: 0, b: 0 });
+    expect(getPixel(out, 20, 15).r).toBeCloseTo(0.5);
+  });
+
+  it('should add the same grain for the same seed', () => {
+    const noise = effect('noise', 0.5, { amount: 0.1 });
+    const a = noisePass(createRaster(8, 8, gray), noise, createRandom(1));
+    const b = noisePass(createRaster(8, 8, gray), noise, createRandom(1));
+    expect(a.data).toEqual(b.data);
+    expect(Math.max(...a.data.map(v => Math.abs(v - 0.5)))).toBeLessThanOrEqual(0.1 + 1e-6);
+  });
+});
+
+describe('Skin thumbnails', () => {
+  it('should draw the sample screen on the skin background', () => {
+    const skin = PRESET_SKINS.phosphor();
+    const raster = drawScreen(skin, { columns: 40, scale: 1 });
+    expect(raster.width).toBe(42 * CELL_WIDTH);
+    expect(raster.height % CELL_HEIGHT).toBe(0);
+    const corner = getPixel(raster, 0, 0);
+    expect([corner.r, corner.g, corner.b].map(v => Math.round(v * 255))).toEqual([13, 2, 8]);
+  });
+
+  it('should encode the same bytes for the same seed', () => {
+    const skin = PRESET_SKINS.cyber();
+    const png = renderSkinThumbnail(skin, { seed: 3, scale: 1 });
+    expect(renderSkinThumbnail(skin, { seed: 3, scale: 1 }).equals(png)).toBe(true);
+    expect(renderSkinThumbnail(skin, { seed: 4, scale: 1 }).equals(png)).toBe(false);
+  });
+
+  it('should leave out effects when asked', () => {
+    const skin = PRESET_SKINS.phosphor();
+    const plain = decodePng(renderSkinThumbnail(skin, { effects: false, scale: 1 }));
+    const styled = decodePng(renderSkinThumbnail(skin, { scale: 1 }));
+    expect(plain.pixel(0, 0)).toEqual([13, 2, 8]);
+    expect(styled.pixel(0, 0)).not.toEqual([13, 2, 8]);
+  });
+
+  it('should skip effects switched off with enabled: false', () => {
+    const skin = PRESET_SKINS.phosphor();
+    const off = { ...skin, effects: skin.effects.map(effect => ({ ...effect, enabled: false })) };
+    expect(renderSkinThumbnail(off, { scale: 1 }).equals(renderSkinThumbnail(skin, { effects: false, scale: 1 }))).toBe(true);
+  });
+});
+
+describe('Animated effect passes', () => {
+  it('should move the picture and fill the gap with the background', () => {
+    const raster = createRaster(4, 4);
+    fillRect(raster, 0, 0, 1, 1, gray);
+    const moved = translateRaster(raster, 2, 1, { r: 1, g: 0, b: 0 });
+    expect(getPixel(moved, 2, 1)).toEqual(gray);
+    expect(getPixel(moved, 0, 0)).toEqual({ r: 1, g: 0, b: 0 });
+
+    const shaken = shakePass(raster, effect('shake', 1), createRandom(2), { r: 0, g: 0, b: 0 }, { scale: 2 });
+    expect(shaken.data).not.toEqual(raster.data);
+  });
+
+  it('should change brightness over time with flicker', () => {
+    const flicker = effect('crt-flicker', 1, { frequency: 1 });
+    const a = flickerPass(createRaster(2, 2, gray), flicker, 0.1, createRandom(1));
+    const b = flickerPass(createRaster(2, 2, gray), flicker, 0.3, createRandom(1));
+    expect(getPixel(a, 0, 0).r).not.toBeCloseTo(getPixel(b, 0, 0).r);
+    expect(Math.abs(getPixel(a, 0, 0).r - 0.5)).toBeLessThan(0.1);
+  });
+
+  it('should keep a fading copy of the previous frame', () => {
+    const previous = createRaster(2, 1, gray);
+    const current = createRaster(2, 1);
+    const out = persistencePass(current, previous, effect('phosphor-persistence', 0.5, { decay: 0.2 }));
+    expect(getPixel(out, 0, 0).r).toBeCloseTo(0.2);
+    expect(persistencePass(current, null, effect('phosphor-persistence', 0.5))).toBe(current);
+  });
+});
+
+describe('Animation encoding', () => {
+  it('should LZW-encode data a GIF decoder reads back', () => {
+    const random = createRandom(9);
+    const noisy = Uint8Array.from({ length: 20000 }, () => Math.floor(random() * 256));
+    const flat = Uint8Array.from({ length: 20000 }, (_, i) => (i >> 6) % 3);
+    for (const data of [noisy, flat, Uint8Array.of(7)]) {
+      expect(lzwDecode(lzwEncode(data, 8), 8)).toEqual([...data]);
+    }
+  });
+
+  it('should write a looping GIF with one image per frame', () => {
+    const frames = [createRaster(4, 3, gray), createRaster(4, 3, { r: 1, g: 0, b: 0 })];
+    const gif = encodeGif(frames, 30);
+    expect(gif.toString('ascii', 0, 6)).toBe('GIF89a');
+    expect(gif.readUInt16LE(6)).toBe(4);
+    expect(gif.readUInt16LE(8)).toBe(3);
+    expect(gif.includes(Buffer.from('NETSCAPE2.0'))).toBe(true);
+    expect(gif[gif.length - 1]).toBe(0x3B);
+
+    // Graphic control extensions carry the delays: 30 fps alternates 3 and 4 hundredths
+    const delays: number[] = [];
+    for (let i = gif.indexOf(Buffer.from([0x21, 0xF9, 0x04])); i >= 0; i = gif.indexOf(Buffer.from([0x21, 0xF9, 0x04]), i + 1)) {
+      delays.push(gif.readUInt16LE(i + 4));
+    }
+    expect(delays).toEqual([3, 4]);
+  });
+
+  it('should write an APNG with numbered frame chunks', () => {
+    const frames = [createRaster(4, 3, gray), createRaster(4, 3), createRaster(4, 3, gray)];
+    const chunks = pngChunks(encodeApng(frames, 25));
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND']);
+    expect(chunks[1].data.readUInt32BE(0)).toBe(3);
+
+    const sequence = chunks.filter(c => c.type === 'fcTL' || c.type === 'fdAT').map(c => c.data.readUInt32BE(0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4]);
+    expect(chunks[2].data.readUInt16BE(20)).toBe(1);
+    expect(chunks[2].data.readUInt16BE(22)).toBe(25);
+  });
+
+  it('should step time at the frame rate for the duration', () => {
+    const skin = PRESET_SKINS.phosphor();
+    const frames = [...skinFrames(skin, { duration: 0.5, fps: 8, scale: 1 })];
+    expect(frames).toHaveLength(4);
+    expect(frames[1].data).not.toEqual(frames[2].data);
+  });
+
+  it('should use the skin frame rate, capped for GIF', () => {
+    const skin = PRESET_SKINS.phosphor();
+    expect(animationFps(skin, 'apng')).toBe(skin.performance.targetFps);
+    expect(animationFps(skin, 'gif')).toBe(50);
+    expect(animationFps(skin, 'gif', { fps: 12 })).toBe(12);
+  });
+
+  it('should encode the same animation for the same seed', () => {
+    const skin = PRESET_SKINS.cyber();
+    const options = { duration: 0.2, fps: 10, scale: 1, seed: 5 };
+    expect(renderSkinAnimation(skin, 'gif', options).equals(renderSkinAnimation(skin, 'gif', options))).toBe(true);
+  });
+});
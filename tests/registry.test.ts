@@ -0,0 +1,57 @@
+/**
+ * Tests for the terminal adapter registry
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  AdapterRegistrationError,
+  getAdapter,
+  listAdapters,
+  registerAdapter,
+  unregisterAdapter,
+} from '../src/engine/adapters/index';
+import type { TerminalAdapter } from '../src/engine/adapters/index';
+import { PRESET_SKINS } from '../src/engine/skins';
+
+const fakeAdapter: TerminalAdapter = {
+  id: 'fake-term',
+  displayName: 'Fake Term',
+  fileExtension: '.conf',
+  capabilities: { paletteSize: 16, shaders: false, liveReload: false, mergesExistingConfig: false },
+  getConfigPath: () => '~/.config/fake/skin.conf',
+  generate: skin => `bg=${skin.colors.background}`,
+  install: () => ({ path: '/dev/null' }),
+  restore: () => [],
+  comment: text => `# ${text}`,
+  describeInstall: () => 'copy it',
+};
+
+describe('Adapter registry', () => {
+  afterEach(() => {
+    unregisterAdapter(fakeAdapter.id);
+  });
+
+  it('should register the built-in adapters in order', () => {
+    expect(listAdapters().map(a => a.id)).toEqual(['wezterm', 'alacritty', 'kitty', 'windows-terminal', 'ghostty']);
+  });
+
+  it('should generate through every built-in adapter', () => {
+    for (const adapter of listAdapters()) {
+      expect(adapter.generate(PRESET_SKINS.phosphor())).toContain('#0D0208');
+      expect(adapter.comment('hello')).toMatch(/hello$/);
+    }
+  });
+
+  it('should register adapters at runtime', () => {
+    registerAdapter(fakeAdapter);
+    expect(getAdapter('Fake-Term')).toBe(fakeAdapter);
+    expect(listAdapters().at(-1)).toBe(fakeAdapter);
+  });
+
+  it('should reject duplicate and malformed ids', () => {
+    registerAdapter(fakeAdapter);
+    expect(() => registerAdapter(fakeAdapter)).toThrow(AdapterRegistrationError);
+    expect(() => registerAdapter({ ...fakeAdapter, id: 'Bad Id' })).toThrow(AdapterRegistrationError);
+    expect(() => registerAdapter({ ...fakeAdapter, generate: () => '' }, { replace: true })).not.toThrow();
+  });
+});
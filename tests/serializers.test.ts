@@ -0,0 +1,271 @@
+/**
+ * Round-trip tests for the config serializers
+ * Every adapter's output is parsed back and compared with the skin it came from.
+ */
+
+import { describe, it, expect } from 'vitest';
+import luaparse from 'luaparse';
+import { parse as parseToml } from 'smol-toml';
+import { parse as parseYaml } from 'yaml';
+import { parse as parseJsonc } from 'jsonc-parser';
+import { createSkin, PRESET_SKINS } from '../src/engine/skins';
+import { generateWezTermLua, toWezTermColors } from '../src/engine/adapters/wezterm/index';
+import { addAlacrittyImport, generateAlacrittyToml, generateAlacrittyYaml, toAlacrittyColors } from '../src/engine/adapters/alacritty/index';
+import { generateKittyConfig, toKittyColors } from '../src/engine/adapters/kitty/index';
+import { generateWindowsTerminalJson, toWindowsTerminalSchemeJson } from '../src/engine/adapters/windows-terminal/index';
+import { generateGhosttyConfig, toGhosttyColors } from '../src/engine/adapters/ghostty/index';
+import { ghosttyKey, luaKey, luaValue, tomlKey, yamlKey, SerializationError } from '../src/engine/serializers/index';
+
+const hostileName = 'Bob\'s "CRT" \\ ]] --[[\nos.execute("rm -rf /") -- \u2028 end';
+
+/** A skin whose every string tries to break out of its quoting */
+const hostileSkin = createSkin({
+  name: hostileName,
+  colors: {
+    background: '#000000"; os.execute("boom") --',
+    foreground: "'); os.exit() --\n[colors]\nx = 1",
+    accent: '\\"\t\u0001',
+    glow: '${process.exit()}',
+  },
+});
+
+/** Evaluate a Lua literal expression from the luaparse AST */
+function evalLua(node: any): unknown {
+  switch (node.type) {
+    case 'StringLiteral':
+      return Buffer.from(node.value, 'latin1').toString('utf-8');
+    case 'NumericLiteral':
+    case 'BooleanLiteral':
+      return node.value;
+    case 'TableConstructorExpression': {
+      if (node.fields.every((f: any) => f.type === 'TableValue')) {
+        return node.fields.map((f: any) => evalLua(f.value));
+      }
+      const table: Record<string, unknown> = {};
+      for (const field of node.fields) {
+        const key = field.type === 'TableKeyString' ? field.key.name : evalLua(field.key);
+        table[key as string] = evalLua(field.value);
+      }
+      return table;
+    }
+    default:
+      throw new Error(`Unexpected Lua node ${node.type}`);
+  }
+}
+
+function parseLua(source: string) {
+  return luaparse.parse(source, { encodingMode: 'pseudo-latin1', luaVersion: '5.3' } as any);
+}
+
+function parseKittyConf(source: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const line of source.split('\n')) {
+    if (line === '' || line.startsWith('#')) continue;
+    const space = line.indexOf(' ');
+    options[line.slice(0, space)] = line.slice(space + 1);
+  }
+  return options;
+}
+
+/** Ghostty `key = value` lines; repeated keys collect into arrays */
+function parseGhosttyConfig(source: string): Record<string, string[]> {
+  const options: Record<string, string[]> = {};
+  for (const line of source.split('\n')) {
+    if (line === '' || line.startsWith('#')) continue;
+    const equals = line.indexOf(' = ');
+    (options[line.slice(0, equals)] ??= []).push(line.slice(equals + 3));
+  }
+  return options;
+}
+
+describe('Config serializers round-trip', () => {
+  describe('WezTerm Lua', () => {
+    it('should keep the same program structure for hostile skins', () => {
+      const reference = parseLua(generateWezTermLua(PRESET_SKINS.phosphor()));
+      const hostile = parseLua(generateWezTermLua(hostileSkin));
+      expect(hostile.body.map((s: any) => s.type)).toEqual(reference.body.map((s: any) => s.type));
+    });
+
+    it('should round-trip the colors table', () => {
+      const ast = parseLua(generateWezTermLua(hostileSkin));
+      const local = ast.body.find((s: any) => s.type === 'LocalStatement' && s.variables[0].name === 'colors') as any;
+      const colors = evalLua(local.init[0]) as any;
+      const expected = toWezTermColors(hostileSkin);
+
+      expect(colors.ansi).toEqual(expected.colors.ansi);
+      expect(colors.brights).toEqual(expected.colors.brights);
+      expect(colors.background).toBe(hostileSkin.colors.background);
+      expect(colors.foreground).toBe(hostileSkin.colors.foreground);
+      expect(colors.cursor_bg).toBe(hostileSkin.colors.accent);
+      expect(colors.tab_bar.active_tab.fg_color).toBe(hostileSkin.colors.foreground);
+    });
+  });
+
+  describe('Alacritty', () => {
+    it('should round-trip TOML', () => {
+      const config = parseToml(generateAlacrittyToml(hostileSkin)) as any;
+      const expected = toAlacrittyColors(hostileSkin);
+      expect(config.colors.primary).toEqual(expected.primary);
+      expect(config.colors.cursor).toEqual(expected.cursor);
+      expect(config.colors.normal).toEqual(expected.normal);
+      expect(config.colors.bright).toEqual(expected.bright);
+      expect(Object.keys(config)).toEqual(['general', 'colors', 'window', 'cursor']);
+    });
+
+    it('should round-trip TOML fragments', () => {
+      const config = parseToml(generateAlacrittyToml(hostileSkin, { fragment: true })) as any;
+      expect(Object.keys(config)).toEqual(['colors']);
+      expect(config.colors.selection).toEqual(toAlacrittyColors(hostileSkin).selection);
+    });
+
+    it('should round-trip legacy YAML', () => {
+      const config = parseYaml(generateAlacrittyYaml(hostileSkin));
+      const expected = toAlacrittyColors(hostileSkin);
+      expect(config.colors.primary).toEqual(expected.primary);
+      expect(config.colors.selection).toEqual(expected.selection);
+      expect(config.colors.normal).toEqual(expected.normal);
+      expect(config.live_config_reload).toBe(true);
+      expect(Object.keys(config)).toEqual(['colors', 'window', 'cursor', 'live_config_reload']);
+    });
+
+    it('should round-trip legacy YAML fragments', () => {
+      const config = parseYaml(generateAlacrittyYaml(hostileSkin, { fragment: true }));
+      expect(Object.keys(config)).toEqual(['colors']);
+    });
+
+    it('should add the skin to the imports without touching other settings', () => {
+      const skinPath = '~/.config/alacritty/retro_skin.toml';
+      const appended = addAlacrittyImport('# mine\nfont.size = 12\n', skinPath);
+      expect(appended.startsWith('# mine\nfont.size = 12\n')).toBe(true);
+      expect(parseToml(appended)).toEqual({ font: { size: 12 }, general: { import: [skinPath] } });
+
+      const inserted = addAlacrittyImport('[general]\nlive_config_reload = false\n', skinPath);
+      expect(parseToml(inserted)).toEqual({ general: { import: [skinPath], live_config_reload: false } });
+
+      const extended = addAlacrittyImport('[general]\nimport = ["keys.toml"]\n', skinPath);
+      expect((parseToml(extended) as any).general.import).toEqual(['keys.toml', skinPath]);
+      expect(addAlacrittyImport(extended, skinPath)).toBe(extended);
+
+      const commented = '# keys\n[general]\nimport = [\n  "keys.toml", # bindings\n  "fonts.toml",\n] # mine\n\n[font]\nsize = 12 # pt\n';
+      const edited = addAlacrittyImport(commented, skinPath);
+      expect(edited).toContain('# bindings');
+      expect(edited).toContain('] # mine');
+      expect(edited).toContain('size = 12 # pt');
+      expect((parseToml(edited) as any).general.import).toEqual(['keys.toml', 'fonts.toml', skinPath]);
+
+      const dotted = addAlacrittyImport('# mine\ngeneral.import = ["a]#.toml"]\n', skinPath);
+      expect(dotted.startsWith('# mine\n')).toBe(true);
+      expect((parseToml(dotted) as any).general.import).toEqual(['a]#.toml', skinPath]);
+      const dottedOnly = addAlacrittyImport('general.live_config_reload = false # mine\n', skinPath);
+      expect(dottedOnly).toContain('# mine');
+      expect(parseToml(dottedOnly)).toEqual({ general: { import: [skinPath], live_config_reload: false } });
+
+      const yaml = addAlacrittyImport('font:\n  size: 12 # pt\n', 'retro_skin.yml', true);
+      expect(yaml).toContain('# pt');
+      expect(parseYaml(yaml)).toEqual({ font: { size: 12 }, import: ['retro_skin.yml'] });
+    });
+  });
+
+  describe('Kitty conf', () => {
+    it('should round-trip option values', () => {
+      const skin = createSkin({ ...hostileSkin, colors: PRESET_SKINS.cyber().colors });
+      const options = parseKittyConf(generateKittyConfig(skin));
+      const expected = toKittyColors(skin);
+      expect(options.foreground).toBe(expected.foreground);
+      expect(options.selection_background).toBe(expected.selection_background);
+      expect(expected.ansi.map((_, i) => options[`color${i}`])).toEqual(expected.ansi);
+      expect(Object.keys(options)).not.toContain('os.execute("rm');
+    });
+
+    it('should reject values that would spill onto another line', () => {
+      expect(() => generateKittyConfig(hostileSkin)).toThrow(SerializationError);
+    });
+  });
+
+  describe('Ghostty config', () => {
+    it('should round-trip option values', () => {
+      const skin = createSkin({ ...hostileSkin, colors: PRESET_SKINS.cyber().colors });
+      const options = parseGhosttyConfig(generateGhosttyConfig(skin));
+      const expected = toGhosttyColors(skin);
+      expect(options.background).toEqual([expected.background]);
+      expect(options['selection-background']).toEqual([expected['selection-background']]);
+      expect(options['cursor-color']).toEqual([expected['cursor-color']]);
+      expect(options.palette).toEqual(expected.palette.map((color, i) => `${i}=${color}`));
+    });
+
+    it('should reject values that would spill onto another line', () => {
+      expect(() => generateGhosttyConfig(hostileSkin)).toThrow(SerializationError);
+    });
+  });
+
+  describe('Windows Terminal JSON', () => {
+    it('should round-trip the scheme', () => {
+      const errors: any[] = [];
+      const settings = parseJsonc(generateWindowsTerminalJson(hostileSkin), errors);
+      expect(errors).toEqual([]);
+      expect(settings.schemes).toEqual([toWindowsTerminalSchemeJson(hostileSkin)]);
+      expect(settings.profiles.defaults.colorScheme).toBe(hostileName.replace(/\s+/g, ''));
+    });
+  });
+
+  describe('256-color and dim palettes', () => {
+    const dim = {
+      black: '#060104', red: '#801A1A', green: '#008020', yellow: '#668000',
+      blue: '#004808', purple: '#800080', cyan: '#008080', white: '#008020',
+    };
+    const skin = createSkin({ ...PRESET_SKINS.phosphor(), colors: { ...PRESET_SKINS.phosphor().colors, dim, extended: { generate: true, tint: 0.8 } } });
+    const indexed = toAlacrittyColors(skin).indexed_colors!;
+
+    it('should round-trip WezTerm indexed colors with numeric keys', () => {
+      const ast = parseLua(generateWezTermLua(skin));
+      const local = ast.body.find((s: any) => s.type === 'LocalStatement' && s.variables[0].name === 'colors') as any;
+      const colors = evalLua(local.init[0]) as any;
+      expect(Object.keys(colors.indexed)).toHaveLength(240);
+      expect(colors.indexed[16]).toBe(indexed[0].color);
+      expect(colors.indexed[255]).toBe(indexed[239].color);
+    });
+
+    it('should round-trip Alacritty indexed and dim colors', () => {
+      const toml = parseToml(generateAlacrittyToml(skin)) as any;
+      const yaml = parseYaml(generateAlacrittyYaml(skin));
+      for (const config of [toml, yaml]) {
+        expect(config.colors.indexed_colors).toEqual(indexed);
+        expect(config.colors.dim).toEqual(toAlacrittyColors(skin).dim);
+      }
+    });
+
+    it('should write Ghostty palette 16-255', () => {
+      const options = parseGhosttyConfig(generateGhosttyConfig(skin));
+      expect(options.palette.slice(16)).toEqual(indexed.map(({ index, color }) => `${index}=${color}`));
+    });
+
+    it('should write Kitty color16-color255', () => {
+      const options = parseKittyConf(generateKittyConfig(skin));
+      expect(indexed.map(({ index }) => options[`color${index}`])).toEqual(indexed.map(({ color }) => color));
+    });
+
+    it('should leave indexed colors out when the skin does not theme them', () => {
+      const plain = PRESET_SKINS.cyber();
+      expect(toAlacrittyColors(plain).indexed_colors).toBeUndefined();
+      expect(generateKittyConfig(plain)).not.toContain('color16 ');
+      expect(generateWezTermLua(plain)).not.toContain('indexed');
+    });
+  });
+
+  describe('Emitters', () => {
+    it('should quote keys that are not plain identifiers', () => {
+      expect(luaKey('end')).toBe('["end"]');
+      expect(luaKey('tab_bar')).toBe('tab_bar');
+      expect(luaKey('16')).toBe('[16]');
+      expect(luaKey('016')).toBe('["016"]');
+      expect(tomlKey('a.b')).toBe('"a.b"');
+      expect(yamlKey('on')).toBe('"on"');
+      expect(ghosttyKey('custom-shader')).toBe('custom-shader');
+      expect(() => ghosttyKey('palette = 0')).toThrow(SerializationError);
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(() => luaValue({ fps: NaN })).toThrow(SerializationError);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for generated terminal shaders
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse as parseJsonc } from 'jsonc-parser';
+import { createSkin, PRESET_SKINS } from '../src/engine/skins';
+import type { VisualEffect } from '../src/engine/skins';
+import {
+  generateWindowsTerminalJson,
+  generateWindowsTerminalShader,
+  mergeWindowsTerminalSettings,
+  windowsTerminalShaderPath,
+} from '../src/engine/adapters/windows-terminal/index';
+import { GhosttyAdapter, generateGhosttyConfig, generateGhosttyShader, ghosttyShaderPath } from '../src/engine/adapters/ghostty/index';
+
+const allEffects: VisualEffect[] = [
+  { type: 'vignette', intensity: 0.5, params: { radius: 0.7 } },
+  { type: 'noise', intensity: 0.4, params: {} },
+  { type: 'crt-scanlines', intensity: 0.5, params: { lineSpacing: 3 } },
+  { type: 'phosphor-glow', intensity: 0.8, params: { radius: 4, falloff: 0.2 } },
+  { type: 'color-shift', intensity: 0.5, params: { shift: 0.01 } },
+  { type: 'crt-curvature', intensity: 1, params: { radius: 2 } },
+  { type: 'crt-flicker', intensity: 0.5, params: { frequency: 2 } },
+];
+
+describe('Windows Terminal pixel shader', () => {
+  for (const name of Object.keys(PRESET_SKINS) as Array<keyof typeof PRESET_SKINS>) {
+    it(`should match the snapshot for ${name}`, () => {
+      expect(generateWindowsTerminalShader(PRESET_SKINS[name]())).toMatchSnapshot();
+    });
+  }
+
+  it('should compose every shader effect in a fixed order', () => {
+    const shader = generateWindowsTerminalShader(createSkin({ name: 'Everything', effects: allEffects }))!;
+    expect(shader).toMatchSnapshot();
+    const order = ['// crt-curvature', '// color-shift', '// phosphor-glow', '// crt-scanlines', '// noise', '// vignette'];
+    const positions = order.map(marker => shader.indexOf(marker));
+    expect(positions.every(p => p > 0)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+    expect(shader).not.toContain('crt-flicker');
+  });
+
+  it('should take constants from intensity and params', () => {
+    const shader = generateWindowsTerminalShader(createSkin({ effects: allEffects }))!;
+    expect(shader).toContain('static const float CURVATURE = 0.125;');
+    expect(shader).toContain('static const float COLOR_SHIFT = 0.005;');
+    expect(shader).toContain('static const float GLOW_RADIUS = 4.0;');
+    expect(shader).toContain('static const float GLOW_STRENGTH = 0.432;');
+    expect(shader).toContain('static const float3 GLOW_COLOR = float3(0.0, 1.0, 0.2549);');
+    expect(shader).toContain('static const float SCANLINE_SPACING = 3.0;');
+    expect(shader).toContain('static const float SCANLINE_SHADE = 0.7;');
+    expect(shader).toContain('static const float NOISE_AMOUNT = 0.08;');
+    expect(shader).toContain('static const float VIGNETTE_START = 0.525;');
+  });
+
+  it('should only emit code for the skin\'s effects', () => {
+    const shader = generateWindowsTerminalShader(createSkin({ effects: [allEffects[2]] }))!;
+    expect(shader).toContain('SCANLINE_SHADE');
+    expect(shader).not.toContain('Emission');
+    expect(shader).not.toContain('CURVATURE');
+  });
+
+  it('should return null without shader effects', () => {
+    expect(generateWindowsTerminalShader(createSkin({ effects: [] }))).toBeNull();
+    expect(generateWindowsTerminalShader(createSkin({ effects: [{ ...allEffects[0], intensity: 0 }] }))).toBeNull();
+    expect(generateWindowsTerminalShader(createSkin({ effects: [allEffects[6]] }))).toBeNull();
+  });
+
+  it('should skip effects switched off with enabled: false', () => {
+    const off = createSkin({ effects: allEffects.map(effect => ({ ...effect, enabled: false })) });
+    expect(generateWindowsTerminalShader(off)).toBeNull();
+    expect(generateWindowsTerminalJson(off)).not.toContain('pixelShaderPath');
+  });
+});
+
+describe('Windows Terminal shader profile', () => {
+  it('should point the defaults at the shader only when its path is given', () => {
+    const settings = parseJsonc(generateWindowsTerminalJson(PRESET_SKINS.phosphor(), { shaderPath: 'D:/crt.hlsl' }));
+    expect(settings.profiles.defaults['experimental.pixelShaderPath']).toBe('D:/crt.hlsl');
+    expect(parseJsonc(generateWindowsTerminalJson(PRESET_SKINS.phosphor())).profiles.defaults).toEqual({ colorScheme: 'PhosphorCRT' });
+  });
+
+  it('should put installed shaders beside settings.json', () => {
+    expect(windowsTerminalShaderPath(PRESET_SKINS.phosphor())).toBe(
+      '%LOCALAPPDATA%/Packages/Microsoft.WindowsTerminal_8wekyb9d8bbwe/LocalState/retro-skins/PhosphorCRT.hlsl'
+    );
+    expect(windowsTerminalShaderPath(PRESET_SKINS.amber(), { configPath: 'C:\\wt\\settings.json' })).toBe('C:\\wt/retro-skins/AmberMonochrome.hlsl');
+    expect(windowsTerminalShaderPath(PRESET_SKINS.amber(), { shaderPath: 'D:/crt.hlsl' })).toBe('D:/crt.hlsl');
+  });
+
+  it('should leave the shader out for skins without shader effects', () => {
+    const settings = parseJsonc(generateWindowsTerminalJson(createSkin({ name: 'Plain', effects: [] })));
+    expect(settings.profiles.defaults).toEqual({ colorScheme: 'Plain' });
+  });
+
+  it('should set the shader on merged profiles and drop one from a previous skin', () => {
+    const existing = JSON.stringify({
+      profiles: {
+        defaults: {},
+        list: [
+          { name: 'PowerShell', 'experimental.pixelShaderPath': 'C:/wt/retro-skins/PhosphorCRT.hlsl' },
+          { name: 'Ubuntu', 'experimental.pixelShaderPath': 'C:/shaders/mine.hlsl' },
+        ],
+      },
+    });
+    const merged = parseJsonc(mergeWindowsTerminalSettings(existing, PRESET_SKINS.phosphor(), { shaderPath: 'C:/crt.hlsl' }));
+    expect(merged.profiles.defaults['experimental.pixelShaderPath']).toBe('C:/crt.hlsl');
+    const unwritten = parseJsonc(mergeWindowsTerminalSettings(existing, PRESET_SKINS.phosphor()));
+    expect(unwritten.profiles.defaults).toEqual({ colorScheme: 'PhosphorCRT' });
+
+    const plain = createSkin({ name: 'Plain', effects: [] });
+    const cleared = parseJsonc(mergeWindowsTerminalSettings(existing, plain, { applyToDefaults: false, profiles: ['PowerShell', 'Ubuntu'] }));
+    expect(cleared.profiles.list[0]).toEqual({ name: 'PowerShell', colorScheme: 'Plain' });
+    expect(cleared.profiles.list[1]['experimental.pixelShaderPath']).toBe('C:/shaders/mine.hlsl');
+  });
+});
+
+describe('Ghostty custom shader', () => {
+  for (const name of Object.keys(PRESET_SKINS) as Array<keyof typeof PRESET_SKINS>) {
+    it(`should match the snapshot for ${name}`, () => {
+      expect(generateGhosttyShader(PRESET_SKINS[name]())).toMatchSnapshot();
+    });
+  }
+
+  it('should compose every shader effect, flicker included', () => {
+    const shader = generateGhosttyShader(createSkin({ name: 'Everything', effects: allEffects }))!;
+    expect(shader).toMatchSnapshot();
+    expect(shader).toContain('void mainImage(out vec4 fragColor, in vec2 fragCoord)');
+    expect(shader).toContain('const float FLICKER_FREQUENCY = 2.0;');
+    expect(shader).toContain('const float CURVATURE = 0.125;');
+    expect(shader.indexOf('// crt-flicker')).toBeLessThan(shader.indexOf('// vignette'));
+  });
+
+  it('should share constants with the Windows Terminal shader', () => {
+    const skin = createSkin({ effects: allEffects });
+    const constants = (source: string) => [...source.matchAll(/const float (\w+) = ([\d.]+);/g)].map(m => `${m[1]}=${m[2]}`);
+    const ghostty = constants(generateGhosttyShader(skin)!);
+    for (const constant of constants(generateWindowsTerminalShader(skin)!)) expect(ghostty).toContain(constant);
+  });
+
+  it('should enable custom-shader-animation only for time-based effects', () => {
+    const phosphor = PRESET_SKINS.phosphor();
+    expect(generateGhosttyConfig(phosphor, { shaderPath: ghosttyShaderPath(phosphor) })).toContain('custom-shader-animation = true');
+    const still = createSkin({ name: 'Still', effects: [allEffects[2]] });
+    const config = generateGhosttyConfig(still, { shaderPath: ghosttyShaderPath(still) });
+    expect(config).toContain('custom-shader-animation = false');
+    expect(config).toContain(`custom-shader = ${ghosttyShaderPath(still)}`);
+    expect(ghosttyShaderPath(still)).toBe('~/.config/ghostty/shaders/still.glsl');
+  });
+
+  it('should only point at a shader that is written', () => {
+    const phosphor = PRESET_SKINS.phosphor();
+    expect(generateGhosttyConfig(phosphor)).not.toContain('custom-shader');
+    expect(new GhosttyAdapter().generate(phosphor)).not.toContain('custom-shader');
+  });
+
+  it('should leave the shader out for skins without shader effects', () => {
+    const plain = createSkin({ name: 'Plain', effects: [] });
+    expect(generateGhosttyShader(plain)).toBeNull();
+    expect(generateGhosttyConfig(plain)).not.toContain('custom-shader');
+  });
+
+  it('should leave the shader out when every effect is switched off', () => {
+    const off = createSkin({ name: 'Off', effects: allEffects.map(effect => ({ ...effect, enabled: false })) });
+    expect(generateGhosttyShader(off)).toBeNull();
+    expect(generateGhosttyConfig(off)).not.toContain('custom-shader');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for light/dark skin variants
+ */
+
+import { describe, it, expect } from 'vitest';
+import luaparse from 'luaparse';
+import { parse as parseJsonc } from 'jsonc-parser';
+import { createSkin, PRESET_SKINS } from '../src/engine/skins';
+import type { SkinConfig } from '../src/engine/skins';
+import { auditSkin } from '../src/engine/audit';
+import { skinTags } from '../src/engine/catalog';
+import { hexToOklch } from '../src/engine/color';
+import { deriveLightVariant, resolveVariant, skinVariants } from '../src/engine/variants';
+import { validateSkin } from '../src/engine/validation';
+import { generateWezTermLua } from '../src/engine/adapters/wezterm/index';
+import { generateGhosttyConfig, generateGhosttyTheme, ghosttyThemeName } from '../src/engine/adapters/ghostty/index';
+import {
+  generateWindowsTerminalJson,
+  mergeWindowsTerminalSettings,
+  windowsTerminalSchemeRef,
+} from '../src/engine/adapters/windows-terminal/index';
+
+const paper = { background: '#F4F1E8', foreground: '#202020', accent: '#8A6A2A', glow: '#B08030' };
+
+const withVariants: SkinConfig = { ...PRESET_SKINS.amber(), variants: { light: { name: 'Amber Paper', colors: paper } } };
+
+describe('Variant resolution', () => {
+  it('should use an explicit variant', () => {
+    const light = resolveVariant(withVariants, 'light');
+    expect(light.name).toBe('Amber Paper');
+    expect(light.colors).toEqual(paper);
+    expect(light.metadata!.appearance).toBe('light');
+    expect(light).not.toHaveProperty('variants');
+  });
+
+  it('should use the skin itself for its own appearance', () => {
+    const dark = resolveVariant(withVariants, 'dark');
+    expect(dark.name).toBe('Amber Monochrome');
+    expect(dark.colors).toEqual(PRESET_SKINS.amber().colors);
+  });
+
+  it('should derive a light variant when there is none', () => {
+    const light = resolveVariant(PRESET_SKINS.phosphor(), 'light');
+    expect(light.name).toBe('Phosphor CRT Light');
+    expect(light.colors).toEqual(deriveLightVariant(PRESET_SKINS.phosphor()).colors);
+  });
+
+  it('should only report variants for skins that declare them', () => {
+    expect(skinVariants(PRESET_SKINS.amber())).toBeNull();
+    const variants = skinVariants({ ...PRESET_SKINS.amber(), variants: { light: 'auto' } })!;
+    expect(variants.light.name).toBe('Amber Monochrome Light');
+    expect(variants.dark.name).toBe('Amber Monochrome');
+  });
+
+  it('should tag skins with the appearances of their variants', () => {
+    expect(skinTags(withVariants)).toEqual(expect.arrayContaining(['dark', 'light']));
+    expect(skinTags(PRESET_SKINS.amber())).not.toContain('light');
+  });
+});
+
+describe('Derived light variant', () => {
+  it('should put dark ink on paper tinted with the glow hue', () => {
+    const { colors } = deriveLightVariant(PRESET_SKINS.phosphor());
+    const background = hexToOklch(colors.background)!;
+    const glowHue = hexToOklch(PRESET_SKINS.phosphor().colors.glow)!.h;
+    expect(background.l).toBeGreaterThan(0.95);
+    expect(Math.abs(background.h - glowHue)).toBeLessThan(5);
+    expect(hexToOklch(colors.foreground)!.l).toBeLessThan(0.3);
+    expect(colors.palette).toBeUndefined();
+  });
+
+  it('should pass the contrast audit for every preset', () => {
+    for (const [name, preset] of Object.entries(PRESET_SKINS)) {
+      const result = auditSkin(resolveVariant(preset(), 'light'));
+      expect(result.passed, name).toBe(true);
+    }
+  });
+});
+
+describe('Appearance switching', () => {
+  it('should switch WezTerm colors with the system appearance', () => {
+    const lua = generateWezTermLua({ ...withVariants });
+    expect(() => luaparse.parse(lua, { luaVersion: '5.3' } as any)).not.toThrow();
+    expect(lua).toContain('wezterm.gui.get_appearance()');
+    expect(lua).toContain(`background = "${paper.background}"`);
+    expect(lua).toContain(`background = "${PRESET_SKINS.amber().colors.background}"`);
+    expect(generateWezTermLua(PRESET_SKINS.amber())).not.toContain('get_appearance');
+  });
+
+  it('should give Ghostty a light and dark theme', () => {
+    const config = generateGhosttyConfig(withVariants, { themes: true });
+    expect(config).toContain('theme = light:Retro Amber Paper,dark:Retro Amber Monochrome');
+    expect(config).not.toContain('background =');
+    expect(ghosttyThemeName(resolveVariant(withVariants, 'light'))).toBe('Retro Amber Paper');
+    expect(generateGhosttyTheme(resolveVariant(withVariants, 'light'))).toContain(`background = ${paper.background}`);
+    expect(generateGhosttyConfig(PRESET_SKINS.amber())).not.toContain('theme =');
+  });
+
+  it('should only point Ghostty at theme files that are written', () => {
+    const config = generateGhosttyConfig(withVariants);
+    expect(config).not.toContain('theme =');
+    expect(config).toContain(`background = ${PRESET_SKINS.amber().colors.background}`);
+  });
+
+  it('should give Windows Terminal per-theme schemes', () => {
+    const settings = parseJsonc(generateWindowsTerminalJson(withVariants));
+    expect(settings.schemes.map((s: any) => s.name)).toEqual(['AmberPaper', 'AmberMonochrome']);
+    expect(settings.profiles.defaults.colorScheme).toEqual({ light: 'AmberPaper', dark: 'AmberMonochrome' });
+    expect(windowsTerminalSchemeRef(PRESET_SKINS.amber())).toBe('AmberMonochrome');
+  });
+
+  it('should merge both schemes into settings.json', () => {
+    const existing = JSON.stringify({ schemes: [{ name: 'AmberMonochrome', background: '#000000' }], profiles: { defaults: {}, list: [] } });
+    const settings = parseJsonc(mergeWindowsTerminalSettings(existing, withVariants));
+    expect(settings.schemes.map((s: any) => s.name)).toEqual(['AmberMonochrome', 'AmberPaper']);
+    expect(settings.schemes[0].background).toBe(PRESET_SKINS.amber().colors.background);
+    expect(settings.profiles.defaults.colorScheme).toEqual({ light: 'AmberPaper', dark: 'AmberMonochrome' });
+  });
+});
+
+describe('Variant validation', () => {
+  it('should accept explicit and derived variants', () => {
+    expect(validateSkin(withVariants).diagnostics).toEqual([]);
+    expect(validateSkin(createSkin({ ...PRESET_SKINS.amber(), variants: { light: 'auto' } })).diagnostics).toEqual([]);
+  });
+
+  it('should report invalid variants', () => {
+    const result = validateSkin({ ...PRESET_SKINS.amber(), variants: { light: { colors: { ...paper, foreground: 'ink' } }, dark: 'auto', dusk: {} } });
+    expect(result.diagnostics.map(d => [d.path, d.severity])).toEqual([
+      ['variants.dark', 'error'],
+      ['variants.light.colors.foreground', 'error'],
+      ['variants.dusk', 'warning'],
+    ]);
+  });
+});
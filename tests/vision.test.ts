@@ -0,0 +1,77 @@
+/**
+ * Tests for color-vision deficiency simulation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PRESET_SKINS } from '../src/engine/skins';
+import type { ColorScheme } from '../src/engine/skins';
+import { generatePalette } from '../src/engine/palette';
+import { findCollapsedSlots, isVisionDeficiency, simulateColor, simulateColorScheme, VISION_DEFICIENCIES } from '../src/engine/vision';
+
+const base: ColorScheme = { background: '#000000', foreground: '#FFFFFF', accent: '#FF0000', glow: '#00FF00' };
+
+// A red and a green that deuteranopes see as the same brownish yellow
+const traffic: ColorScheme = { ...base, palette: { ...generatePalette(base), red: '#C85050', green: '#209848' } };
+
+describe('Color simulation', () => {
+  it('should keep neutrals unchanged', () => {
+    for (const type of VISION_DEFICIENCIES) {
+      expect(simulateColor('#000000', type)).toBe('#000000');
+      expect(simulateColor('#FFFFFF', type)).toBe('#FFFFFF');
+      expect(simulateColor('#808080', type)).toBe('#808080');
+    }
+  });
+
+  it('should shift red and green towards yellow for red-green deficiencies', () => {
+    expect(simulateColor('#FF0000', 'protanopia')).toBe('#6D5F00');
+    expect(simulateColor('#FF0000', 'deuteranopia')).toBe('#A39000');
+  });
+
+  it('should reduce achromatopsia to gray', () => {
+    const gray = simulateColor('#FF8800', 'achromatopsia');
+    expect(gray.slice(1, 3)).toBe(gray.slice(3, 5));
+    expect(gray.slice(3, 5)).toBe(gray.slice(5, 7));
+  });
+
+  it('should return invalid colors unchanged', () => {
+    expect(simulateColor('teal', 'tritanopia')).toBe('teal');
+  });
+
+  it('should recognize deficiency names', () => {
+    expect(isVisionDeficiency('deuteranopia')).toBe(true);
+    expect(isVisionDeficiency('colorblind')).toBe(false);
+  });
+});
+
+describe('Scheme simulation', () => {
+  it('should simulate base colors and a resolved palette', () => {
+    const simulated = simulateColorScheme(base, 'deuteranopia');
+    expect(Object.keys(simulated.palette!)).toHaveLength(16);
+    expect(simulated.accent).toBe(simulateColor(base.accent, 'deuteranopia'));
+    expect(simulated.palette!.red).toBe(simulateColor(generatePalette(base).red, 'deuteranopia'));
+  });
+
+  it('should keep the skin\'s own palette as the source', () => {
+    const colors = PRESET_SKINS.phosphor().colors;
+    expect(simulateColorScheme(colors, 'protanopia').palette!.black).toBe(simulateColor(colors.palette!.black, 'protanopia'));
+  });
+});
+
+describe('Collapsed slots', () => {
+  it('should warn when red and green collapse under deuteranopia', () => {
+    const collapsed = findCollapsedSlots(traffic, 'deuteranopia');
+    const pair = collapsed.find(c => c.slots[0] === 'red' && c.slots[1] === 'green');
+    expect(pair).toBeDefined();
+    expect(pair!.before).toBeGreaterThan(0.05);
+    expect(pair!.after).toBeLessThan(0.05);
+  });
+
+  it('should not report slots that were already alike', () => {
+    const same = { ...traffic, palette: { ...traffic.palette!, green: traffic.palette!.red } };
+    expect(findCollapsedSlots(same, 'deuteranopia').some(c => c.slots.includes('green'))).toBe(false);
+  });
+
+  it('should respect the threshold', () => {
+    expect(findCollapsedSlots(traffic, 'deuteranopia', { threshold: 0 })).toEqual([]);
+  });
+});